@@ -0,0 +1,36 @@
+/**
+ * TripSplit - Orphaned Split Cleanup
+ *
+ * Deletes split documents left behind by deleted expenses, including legacy
+ * ones without trip_id that the in-app cleanup can't find.
+ *
+ * Usage: npm run clean:splits -- <tripId>... [--dry-run]
+ * Credentials come from GOOGLE_APPLICATION_CREDENTIALS; with
+ * FIRESTORE_EMULATOR_HOST set, it runs against the emulator instead.
+ */
+
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { findAllOrphanedSplits, cleanAllOrphanedSplits } from './orphanedSplits.ts';
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const tripIds = args.filter(arg => !arg.startsWith('--'));
+
+if (tripIds.length === 0) {
+    console.error('Usage: npm run clean:splits -- <tripId>... [--dry-run]');
+    process.exit(1);
+}
+
+const firestore = getFirestore(initializeApp());
+
+for (const tripId of tripIds) {
+    if (dryRun) {
+        const orphans = await findAllOrphanedSplits(firestore, tripId);
+        console.log(`${tripId}: ${orphans.length} orphaned split(s)`);
+        orphans.forEach(ref => console.log(`  ${ref.path}`));
+    } else {
+        const removed = await cleanAllOrphanedSplits(firestore, tripId);
+        console.log(`${tripId}: removed ${removed} orphaned split(s)`);
+    }
+}
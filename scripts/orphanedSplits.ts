@@ -0,0 +1,50 @@
+/**
+ * TripSplit - Orphaned Splits (Admin)
+ *
+ * Server-side counterpart of maintenanceService for splits the app can't
+ * reach: rows written before trip_id was stamped on splits.
+ *
+ * Design Decisions:
+ * 1. The Admin SDK can list a trip's expense paths, including those whose
+ *    document was deleted but still hold a splits subcollection. Every split
+ *    under such a path is an orphan, with or without trip_id.
+ * 2. Runs with admin credentials, outside the security rules; only from a
+ *    trusted machine (see cleanOrphanedSplits.ts).
+ * 3. Deletes go out in batches of at most 500 writes (Firestore's limit).
+ */
+
+import type { DocumentReference, Firestore } from 'firebase-admin/firestore';
+
+const BATCH_LIMIT = 500;
+
+/**
+ * Finds split documents of a trip whose expense no longer exists,
+ * by walking trips/{tripId}/expenses/{expenseId}/splits.
+ */
+export async function findAllOrphanedSplits(firestore: Firestore, tripId: string): Promise<DocumentReference[]> {
+    const expenseRefs = await firestore.collection('trips').doc(tripId).collection('expenses').listDocuments();
+    if (expenseRefs.length === 0) return [];
+
+    const expenseSnaps = await firestore.getAll(...expenseRefs);
+    const deleted = expenseSnaps.filter(snap => !snap.exists).map(snap => snap.ref);
+
+    const orphans = await Promise.all(deleted.map(ref => ref.collection('splits').listDocuments()));
+    return orphans.flat();
+}
+
+/**
+ * Deletes a trip's orphaned split documents, legacy ones included.
+ *
+ * @returns Number of split documents removed
+ */
+export async function cleanAllOrphanedSplits(firestore: Firestore, tripId: string): Promise<number> {
+    const orphans = await findAllOrphanedSplits(firestore, tripId);
+
+    for (let i = 0; i < orphans.length; i += BATCH_LIMIT) {
+        const batch = firestore.batch();
+        orphans.slice(i, i + BATCH_LIMIT).forEach(ref => batch.delete(ref));
+        await batch.commit();
+    }
+
+    return orphans.length;
+}
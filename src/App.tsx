@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { onAuthStateChanged, type User } from 'firebase/auth';
 import { auth } from './config/firebase';
 import { signInAnonymously } from './services/authService';
+import { openLocalDb } from './config/localDb';
 import LoginScreen from './components/LoginScreen';
 import Dashboard from './components/Dashboard';
 import './index.css';
@@ -9,6 +10,7 @@ import './index.css';
 function App() {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [dbReady, setDbReady] = useState(false);
   const [activeTripId, setActiveTripId] = useState<string | null>(
     localStorage.getItem('tripsplit_active_trip')
   );
@@ -32,6 +34,13 @@ function App() {
     return () => unsubscribe();
   }, []);
 
+  // Run local schema migrations before anything reads the cache
+  useEffect(() => {
+    openLocalDb()
+      .catch(err => console.error('Failed to open local database:', err))
+      .finally(() => setDbReady(true));
+  }, []);
+
   const handleTripSelect = (tripId: string) => {
     setActiveTripId(tripId);
     localStorage.setItem('tripsplit_active_trip', tripId);
@@ -42,7 +51,7 @@ function App() {
     localStorage.removeItem('tripsplit_active_trip');
   };
 
-  if (loading) {
+  if (loading || !dbReady) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-violet-50 to-indigo-100 flex items-center justify-center">
         <div className="text-center">
@@ -67,8 +76,10 @@ function App() {
 
   return (
     <Dashboard
+      key={activeTripId}
       user={user}
       tripId={activeTripId}
+      onSwitchTrip={handleTripSelect}
       onLeaveTrip={handleLeaveTrip}
     />
   );
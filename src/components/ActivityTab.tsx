@@ -0,0 +1,179 @@
+import type { ActivityChange, ActivityEntityType, ActivityEntry, ActivityType, TripMember } from '../types';
+import { History, Receipt, Users, Wallet, ArrowRight } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { filterActivity } from '../utils/activity';
+import { getMinorUnitExponent } from '../utils/currency';
+
+interface ActivityTabProps {
+    activity: ActivityEntry[];
+    members: TripMember[];
+    baseCurrency: string;
+}
+
+const verbs: Record<ActivityType, string> = {
+    expense_created: 'added',
+    expense_updated: 'edited',
+    expense_trashed: 'moved to trash',
+    expense_restored: 'restored',
+    expense_deleted: 'permanently deleted',
+    member_joined: 'joined the trip',
+    member_added: 'added',
+    member_updated: 'updated',
+    member_left: 'left the trip',
+    member_removed: 'removed',
+    member_claimed: 'linked an account to',
+    payment_recorded: 'recorded a payment',
+    payment_deleted: 'deleted a payment',
+    settlement_finalized: 'finalized a settle-up',
+    trip_updated: 'changed trip settings',
+    trip_archived: 'closed the trip',
+    trip_reopened: 'reopened the trip',
+};
+
+const entityFilters: { id: ActivityEntityType | 'all'; label: string; icon: typeof Receipt }[] = [
+    { id: 'all', label: 'All', icon: History },
+    { id: 'expense', label: 'Expenses', icon: Receipt },
+    { id: 'member', label: 'Members', icon: Users },
+    { id: 'payment', label: 'Payments', icon: Wallet },
+];
+
+export default function ActivityTab({ activity, members, baseCurrency }: ActivityTabProps) {
+    const [memberId, setMemberId] = useState('');
+    const [entityType, setEntityType] = useState<ActivityEntityType | 'all'>('all');
+
+    const memberNames = useMemo(
+        () => new Map(members.map(m => [m.id, m.display_name])),
+        [members]
+    );
+
+    const entries = useMemo(() => {
+        const member = members.find(m => m.id === memberId);
+        return filterActivity(activity, {
+            memberId: member?.id,
+            userId: member?.user_id,
+            entityType: entityType === 'all' ? undefined : entityType,
+        }).sort((a, b) => b.created_at.localeCompare(a.created_at));
+    }, [activity, members, memberId, entityType]);
+
+    const formatAmount = (amount: number, currency: string = baseCurrency) => {
+        const digits = getMinorUnitExponent(currency);
+        return new Intl.NumberFormat('en-IN', {
+            style: 'currency',
+            currency,
+            minimumFractionDigits: digits,
+            maximumFractionDigits: digits,
+        }).format(amount);
+    };
+
+    const formatDate = (iso: string) => {
+        return new Date(iso).toLocaleString('en-IN', {
+            day: 'numeric',
+            month: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
+    const actorName = (actorId: string) => {
+        return members.find(m => m.user_id === actorId)?.display_name || 'Someone';
+    };
+
+    // Member IDs read as names; anything structured (items, charges) stays short
+    const formatValue = (value: unknown) => {
+        if (value === null || value === '') return '—';
+        if (typeof value === 'string') return memberNames.get(value) || value;
+        if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+        return Array.isArray(value) ? `${value.length} item${value.length === 1 ? '' : 's'}` : 'changed';
+    };
+
+    const describe = (entry: ActivityEntry) => {
+        if (entry.entity_type === 'payment') {
+            const [from, to] = entry.member_ids.map(id => memberNames.get(id) || 'Former member');
+            return from && to ? `${from} → ${to}` : entry.summary;
+        }
+        if (entry.type === 'member_joined' || entry.type === 'member_left' || entry.entity_type === 'trip') return '';
+        if (entry.entity_type === 'settlement') return `${entry.summary} · ${entry.member_ids.length} people`;
+        return entry.summary;
+    };
+
+    const renderChange = (change: ActivityChange) => (
+        <li key={change.field} className="flex items-center gap-1.5 text-xs text-gray-500 min-w-0">
+            <span className="text-gray-400 capitalize flex-shrink-0">{change.field.replace(/_/g, ' ')}</span>
+            <span className="line-through truncate">{formatValue(change.before)}</span>
+            <ArrowRight className="w-3 h-3 flex-shrink-0" />
+            <span className="text-gray-700 truncate">{formatValue(change.after)}</span>
+        </li>
+    );
+
+    return (
+        <div className="px-4 py-4 pb-32">
+            {/* Filters */}
+            <div className="flex gap-2 mb-3 overflow-x-auto pb-2 scrollbar-hide">
+                {entityFilters.map(({ id, label, icon: Icon }) => (
+                    <button
+                        key={id}
+                        onClick={() => setEntityType(id)}
+                        className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all flex items-center gap-1.5 ${entityType === id
+                            ? 'bg-violet-600 text-white'
+                            : 'bg-white text-gray-600 border border-gray-200'
+                            }`}
+                    >
+                        <Icon className="w-4 h-4" />
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            <select
+                value={memberId}
+                onChange={(e) => setMemberId(e.target.value)}
+                className="w-full mb-4 px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-violet-500 text-sm bg-white"
+            >
+                <option value="">Everyone</option>
+                {members.map(m => (
+                    <option key={m.id} value={m.id}>{m.display_name}</option>
+                ))}
+            </select>
+
+            {/* Activity List */}
+            {entries.length === 0 ? (
+                <div className="text-center py-12">
+                    <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                        <History className="w-8 h-8 text-gray-400" />
+                    </div>
+                    <p className="text-gray-500">No activity yet</p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {entries.map(entry => {
+                        const detail = describe(entry);
+                        return (
+                            <div key={entry.id} className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+                                <div className="flex items-start justify-between gap-3">
+                                    <p className="text-sm text-gray-900 min-w-0">
+                                        <span className="font-semibold">{actorName(entry.actor_id)}</span>
+                                        {' '}{verbs[entry.type] || entry.type}
+                                        {detail && <span className="font-medium">{' '}{detail}</span>}
+                                    </p>
+                                    {entry.amount !== undefined && (
+                                        <span className="text-sm font-semibold text-gray-700 flex-shrink-0">
+                                            {formatAmount(entry.amount, entry.currency)}
+                                        </span>
+                                    )}
+                                </div>
+
+                                {entry.changes && entry.changes.length > 0 && (
+                                    <ul className="mt-2 space-y-1">
+                                        {entry.changes.map(renderChange)}
+                                    </ul>
+                                )}
+
+                                <p className="text-xs text-gray-400 mt-2">{formatDate(entry.created_at)}</p>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
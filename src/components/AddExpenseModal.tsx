@@ -1,18 +1,31 @@
 import { useState, useMemo } from 'react';
-import type { TripMember, ExpenseCategory, ExpenseType } from '../types';
+import type {
+    TripMember, Expense, ExpenseSplit, ExpenseCategory, ExpenseType, ExchangeRateTable, SplitType,
+    ExpenseItem, ExpenseCharges, AdjustmentBase
+} from '../types';
 import { mutationService } from '../services/mutationService';
 import {
     X, Camera, Loader2, Plane, UtensilsCrossed, Home,
     Sparkles, MoreHorizontal, Users, PencilLine, PieChart,
-    Check
+    Check, Percent, ReceiptText, SlidersHorizontal
 } from 'lucide-react';
 import { scanReceipt, fileToBase64 } from '../services/geminiService';
 import { canScanReceipt, incrementUsage, getRemainingScans, FREE_LIMIT } from '../services/usageService';
+import { getCurrencySymbol, getMinorUnitExponent, safeSubtract, distributeAmount } from '../utils/currency';
+import { createManualRateProvider, resolveExchangeRate } from '../utils/exchangeRates';
+import { calculateItemizedTotal, calculateSplits } from '../utils/splitEngine';
+import { generateUUID } from '../utils/syncUtils';
+import ItemizedSplitEditor from './ItemizedSplitEditor';
 
 interface AddExpenseModalProps {
     tripId: string;
     members: TripMember[];
     currentUserId: string;
+    baseCurrency: string;
+    exchangeRates?: ExchangeRateTable;
+    /** Set to edit an existing expense instead of adding one */
+    expense?: Expense;
+    expenseSplits?: ExpenseSplit[];
     onClose: () => void;
 }
 
@@ -24,23 +37,53 @@ const categories: { id: ExpenseCategory; label: string; icon: typeof Plane; colo
     { id: 'other', label: 'Other', icon: MoreHorizontal, color: 'bg-gray-200 border-gray-900 text-gray-900' },
 ];
 
-export default function AddExpenseModal({ tripId, members, currentUserId, onClose }: AddExpenseModalProps) {
-    const [description, setDescription] = useState('');
-    const [amount, setAmount] = useState('');
-    const [category, setCategory] = useState<ExpenseCategory>('other');
-    const [type, setType] = useState<ExpenseType>('daily');
+export default function AddExpenseModal({
+    tripId,
+    members,
+    currentUserId,
+    baseCurrency,
+    exchangeRates = {},
+    expense,
+    expenseSplits = [],
+    onClose
+}: AddExpenseModalProps) {
+    // When editing, every input starts from the saved expense and its split rows
+    const splitInputs = <T,>(pick: (split: ExpenseSplit) => T | undefined) => Object.fromEntries(
+        expenseSplits
+            .filter(split => pick(split) !== undefined)
+            .map(split => [split.member_id, pick(split) as T])
+    );
+
+    const [description, setDescription] = useState(expense?.description || '');
+    const [amount, setAmount] = useState(expense ? String(expense.amount) : '');
+    const [currency, setCurrency] = useState(expense?.currency || baseCurrency);
+    const [category, setCategory] = useState<ExpenseCategory>(expense?.category || 'other');
+    const [type, setType] = useState<ExpenseType>(expense?.type || 'daily');
     const [paidBy, setPaidBy] = useState(() => {
+        if (expense) return expense.paid_by;
         const currentMember = members.find(m => m.user_id === currentUserId);
         return currentMember?.id || '';
     });
 
     // Splitting Logic
-    const [splitType, setSplitType] = useState<'equal' | 'custom' | 'shares'>('equal');
-    const [involvedMembers, setInvolvedMembers] = useState<Set<string>>(new Set(members.map(m => m.id)));
+    const [splitType, setSplitType] = useState<SplitType>(expense?.split_type || 'equal');
+    const [involvedMembers, setInvolvedMembers] = useState<Set<string>>(() => expenseSplits.length > 0
+        ? new Set(expenseSplits.map(split => split.member_id))
+        : new Set(members.map(m => m.id)));
 
     // Custom/Shares Inputs
-    const [customSplits, setCustomSplits] = useState<Record<string, string>>({});
-    const [shares, setShares] = useState<Record<string, number>>({});
+    const [customSplits, setCustomSplits] = useState<Record<string, string>>(() =>
+        expense?.split_type === 'custom' ? splitInputs(split => String(split.amount)) : {});
+    const [shares, setShares] = useState<Record<string, number>>(() => splitInputs(split => split.shares));
+    const [percentages, setPercentages] = useState<Record<string, string>>(() =>
+        splitInputs(split => split.percentage === undefined ? undefined : String(split.percentage)));
+    const [items, setItems] = useState<ExpenseItem[]>(expense?.items || []);
+    const [charges, setCharges] = useState<ExpenseCharges>(expense?.charges || { tax: 0, service: 0, tip: 0 });
+    const [adjustments, setAdjustments] = useState<Record<string, string>>(() =>
+        splitInputs(split => split.adjustment ? String(split.adjustment) : undefined));
+    const [adjustmentBase, setAdjustmentBase] = useState<AdjustmentBase>(
+        expense?.split_type === 'adjustment' && expenseSplits.some(split => split.shares !== undefined) ? 'shares' : 'equal'
+    );
 
     const [saving, setSaving] = useState(false);
     const [scanning, setScanning] = useState(false);
@@ -48,6 +91,16 @@ export default function AddExpenseModal({ tripId, members, currentUserId, onClos
 
     const remainingScans = getRemainingScans();
     const amountNum = parseFloat(amount) || 0;
+    const currencySymbol = getCurrencySymbol(currency);
+    const decimals = getMinorUnitExponent(currency);
+
+    // Base currency first, then every currency with a manual rate on this trip
+    // (plus the edited expense's own, even if its rate was removed since)
+    const availableCurrencies = useMemo(() => [
+        baseCurrency,
+        ...Object.keys(exchangeRates).filter(code => code !== baseCurrency),
+        ...(expense && expense.currency !== baseCurrency && !(expense.currency in exchangeRates) ? [expense.currency] : [])
+    ], [baseCurrency, exchangeRates, expense]);
 
     // Derived involved members list (sorted for consistency)
     const activeMembers = useMemo(() =>
@@ -56,7 +109,36 @@ export default function AddExpenseModal({ tripId, members, currentUserId, onClos
 
     // Calculate remaining amount for custom splits
     const splitTotal = Object.values(customSplits).reduce((sum, val) => sum + (parseFloat(val) || 0), 0);
-    const remaining = amountNum - splitTotal;
+    const remaining = safeSubtract(amountNum, splitTotal, currency);
+
+    // Percentage total for involved members (compared in basis points)
+    const percentTotal = activeMembers.reduce((sum, m) => sum + (parseFloat(percentages[m.id]) || 0), 0);
+    const percentComplete = Math.round(percentTotal * 100) === 10000;
+
+    const itemizedTotal = calculateItemizedTotal(items, charges, currency);
+
+    // Live preview of each member's final amount for adjustment splits
+    const adjustmentPreview = useMemo(() => {
+        if (splitType !== 'adjustment' || amountNum <= 0) return { amounts: {} as Record<string, number>, error: '' };
+        try {
+            const { splits } = calculateSplits({
+                totalAmount: amountNum,
+                payerId: paidBy,
+                splitType: 'adjustment',
+                involvedMemberIds: activeMembers.map(m => m.id),
+                customSplits: activeMembers.map(m => ({
+                    memberId: m.id,
+                    shares: shares[m.id] || 0,
+                    adjustment: parseFloat(adjustments[m.id]) || 0
+                })),
+                adjustmentBase,
+                currency
+            });
+            return { amounts: Object.fromEntries(splits.map(s => [s.member_id, s.amount])), error: '' };
+        } catch (err) {
+            return { amounts: {} as Record<string, number>, error: (err as Error).message };
+        }
+    }, [splitType, amountNum, paidBy, activeMembers, shares, adjustments, adjustmentBase, currency]);
 
     const toggleMemberInvolvement = (memberId: string) => {
         setInvolvedMembers(prev => {
@@ -117,6 +199,27 @@ export default function AddExpenseModal({ tripId, members, currentUserId, onClos
         }));
     };
 
+    const handlePercentageChange = (memberId: string, value: string) => {
+        setPercentages(prev => ({
+            ...prev,
+            [memberId]: value
+        }));
+    };
+
+    // The bill total follows the items, so amount and breakdown never disagree
+    const handleItemizedChange = (newItems: ExpenseItem[], newCharges: ExpenseCharges) => {
+        setItems(newItems);
+        setCharges(newCharges);
+        setAmount(String(calculateItemizedTotal(newItems, newCharges, currency)));
+    };
+
+    const handleAdjustmentChange = (memberId: string, value: string) => {
+        setAdjustments(prev => ({
+            ...prev,
+            [memberId]: value
+        }));
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setError('');
@@ -126,12 +229,18 @@ export default function AddExpenseModal({ tripId, members, currentUserId, onClos
         if (!paidBy) { setError('Please select who paid'); return; }
         if (activeMembers.length === 0) { setError('At least one person must be involved'); return; }
 
-        let custom_splits_payload: { member_id: string; amount: number; shares?: number }[] | undefined;
+        let custom_splits_payload: {
+            member_id: string;
+            amount: number;
+            shares?: number;
+            percentage?: number;
+            adjustment?: number;
+        }[] | undefined;
 
         // Validation for Custom/Shares
         if (splitType === 'custom') {
-            if (Math.abs(remaining) > 0.01) {
-                setError(`Custom split total must match amount. Remaining: ₹${remaining.toFixed(2)}`);
+            if (remaining !== 0) {
+                setError(`Custom split total must match amount. Remaining: ${currencySymbol}${remaining.toFixed(decimals)}`);
                 return;
             }
             custom_splits_payload = activeMembers.map(m => ({
@@ -158,27 +267,83 @@ export default function AddExpenseModal({ tripId, members, currentUserId, onClos
                 amount: 0, // Placeholder, will be calc by SplitEngine
                 shares: shares[m.id] || 0
             }));
+        } else if (splitType === 'percentage') {
+            if (!percentComplete) {
+                setError(`Percentages must total 100% (currently ${Math.round(percentTotal * 100) / 100}%)`);
+                return;
+            }
+
+            custom_splits_payload = activeMembers.map(m => ({
+                member_id: m.id,
+                amount: 0, // Placeholder, will be calc by SplitEngine
+                percentage: parseFloat(percentages[m.id]) || 0
+            }));
+        } else if (splitType === 'itemized') {
+            if (items.length === 0) {
+                setError('Add at least one item');
+                return;
+            }
+            if (items.some(item => !item.name.trim() || item.member_ids.length === 0)) {
+                setError('Every item needs a name and at least one person');
+                return;
+            }
+            if (safeSubtract(amountNum, itemizedTotal, currency) !== 0) {
+                setError(`Items total ${currencySymbol}${itemizedTotal.toFixed(decimals)}, not ${currencySymbol}${amountNum.toFixed(decimals)}`);
+                return;
+            }
+        } else if (splitType === 'adjustment') {
+            if (adjustmentPreview.error) {
+                setError(adjustmentPreview.error);
+                return;
+            }
+
+            custom_splits_payload = activeMembers.map(m => ({
+                member_id: m.id,
+                amount: 0, // Placeholder, will be calc by SplitEngine
+                adjustment: parseFloat(adjustments[m.id]) || 0,
+                ...(adjustmentBase === 'shares' ? { shares: shares[m.id] || 0 } : {})
+            }));
         }
 
         setSaving(true);
 
         try {
-            await mutationService.createExpense({
+            // Snapshot the rate now; later rate table edits never rewrite this expense.
+            // An edit keeps its original snapshot unless the currency changes.
+            const provider = createManualRateProvider(baseCurrency, exchangeRates);
+            const exchangeRate = expense && expense.currency === currency
+                ? expense.exchange_rate
+                : await resolveExchangeRate(provider, currency, baseCurrency);
+
+            const input = {
                 trip_id: tripId,
                 description: description.trim(),
                 amount: amountNum,
+                currency,
+                exchange_rate: exchangeRate,
                 category,
                 type,
                 paid_by: paidBy,
                 split_type: splitType,
                 involved_member_ids: Array.from(involvedMembers), // NEW: Explicit Subset
                 custom_splits: custom_splits_payload,
+                ...(splitType === 'adjustment' ? { adjustment_base: adjustmentBase } : {}),
+                ...(splitType === 'itemized' ? {
+                    items: items.map(item => ({ ...item, name: item.name.trim() })),
+                    charges
+                } : {}),
                 ai_confirmed: true,
-            }, currentUserId);
+            };
+
+            if (expense) {
+                await mutationService.editExpense(expense.id, input);
+            } else {
+                await mutationService.createExpense(input, currentUserId);
+            }
 
             onClose();
         } catch (err) {
-            setError((err as Error).message || 'Failed to add expense');
+            setError((err as Error).message || (expense ? 'Failed to save expense' : 'Failed to add expense'));
         } finally {
             setSaving(false);
         }
@@ -199,7 +364,7 @@ export default function AddExpenseModal({ tripId, members, currentUserId, onClos
                 <div className="flex items-center justify-between p-5 border-b-2 border-black bg-yellow-300">
                     <div>
                         <h2 className="text-2xl font-black text-black uppercase tracking-tight transform -skew-x-6">
-                            Add Expense
+                            {expense ? 'Edit Expense' : 'Add Expense'}
                         </h2>
                     </div>
                     <button
@@ -216,19 +381,38 @@ export default function AddExpenseModal({ tripId, members, currentUserId, onClos
                     {/* 1. Amount & Description (The Core) */}
                     <div className="space-y-4">
                         <div className="relative group">
-                            <label className="block text-xs font-bold text-black uppercase mb-1 ml-1 bg-white inline-block px-1 border-2 border-black -mb-3 z-10 relative w-max transform -rotate-2">
-                                Amount
-                            </label>
+                            <div className="flex items-end justify-between">
+                                <label className="block text-xs font-bold text-black uppercase mb-1 ml-1 bg-white inline-block px-1 border-2 border-black -mb-3 z-10 relative w-max transform -rotate-2">
+                                    Amount
+                                </label>
+                                {availableCurrencies.length > 1 && (
+                                    <select
+                                        value={currency}
+                                        onChange={(e) => setCurrency(e.target.value)}
+                                        className="mb-1 px-2 py-1 bg-white border-2 border-black rounded-lg text-xs font-bold outline-none"
+                                    >
+                                        {availableCurrencies.map(code => (
+                                            <option key={code} value={code}>{code}</option>
+                                        ))}
+                                    </select>
+                                )}
+                            </div>
                             <div className="relative">
-                                <span className="absolute left-4 top-1/2 -translate-y-1/2 text-3xl font-black text-black">₹</span>
+                                <span className="absolute left-4 top-1/2 -translate-y-1/2 text-3xl font-black text-black">{currencySymbol}</span>
                                 <input
                                     type="number"
                                     value={amount}
                                     onChange={(e) => setAmount(e.target.value)}
                                     placeholder="0"
-                                    className="w-full pl-12 pr-4 py-4 text-4xl font-black text-black bg-white border-2 border-black shadow-[4px_4px_0_0_rgba(0,0,0,1)] focus:shadow-[6px_6px_0_0_rgba(139,92,246,1)] focus:border-violet-600 outline-none transition-all rounded-xl"
+                                    className={`w-full ${currencySymbol.length > 1 ? 'pl-24' : 'pl-12'} pr-4 py-4 text-4xl font-black text-black bg-white border-2 border-black shadow-[4px_4px_0_0_rgba(0,0,0,1)] focus:shadow-[6px_6px_0_0_rgba(139,92,246,1)] focus:border-violet-600 outline-none transition-all rounded-xl`}
                                 />
                             </div>
+                            {currency !== baseCurrency && (
+                                <p className="text-[10px] font-bold text-gray-500 uppercase mt-2 ml-1">
+                                    1 {currency} = {exchangeRates[currency]} {baseCurrency}
+                                    {amountNum > 0 && ` · ≈ ${getCurrencySymbol(baseCurrency)}${(amountNum * exchangeRates[currency]).toFixed(getMinorUnitExponent(baseCurrency))}`}
+                                </p>
+                            )}
                         </div>
 
                         <div className="relative">
@@ -395,6 +579,67 @@ export default function AddExpenseModal({ tripId, members, currentUserId, onClos
                                 <PieChart className="w-4 h-4" />
                                 Shares
                             </button>
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    setSplitType('percentage');
+                                    // Start from an even split that already totals 100
+                                    const even = distributeAmount(100, activeMembers.length);
+                                    const newPercentages: Record<string, string> = {};
+                                    activeMembers.forEach((m, i) => newPercentages[m.id] = String(even[i]));
+                                    setPercentages(newPercentages);
+                                }}
+                                className={`py-3 rounded-xl border-2 border-black font-bold text-sm transition-all flex flex-col items-center gap-1
+                                    ${splitType === 'percentage'
+                                        ? 'bg-sky-300 shadow-[4px_4px_0_0_rgba(0,0,0,1)] -translate-y-1'
+                                        : 'bg-white text-gray-500 hover:bg-gray-50'
+                                    }`}
+                            >
+                                <Percent className="w-4 h-4" />
+                                Percent
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    setSplitType('itemized');
+                                    // Start with one line shared by everyone involved
+                                    if (items.length === 0) {
+                                        handleItemizedChange([{
+                                            id: generateUUID(),
+                                            name: description.trim(),
+                                            price: amountNum,
+                                            quantity: 1,
+                                            member_ids: activeMembers.map(m => m.id)
+                                        }], charges);
+                                    }
+                                }}
+                                className={`py-3 rounded-xl border-2 border-black font-bold text-sm transition-all flex flex-col items-center gap-1
+                                    ${splitType === 'itemized'
+                                        ? 'bg-orange-300 shadow-[4px_4px_0_0_rgba(0,0,0,1)] -translate-y-1'
+                                        : 'bg-white text-gray-500 hover:bg-gray-50'
+                                    }`}
+                            >
+                                <ReceiptText className="w-4 h-4" />
+                                Items
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    setSplitType('adjustment');
+                                    // Shares base starts at one share each
+                                    const newShares: Record<string, number> = {};
+                                    activeMembers.forEach(m => newShares[m.id] = shares[m.id] || 1);
+                                    setShares(newShares);
+                                }}
+                                className={`py-3 rounded-xl border-2 border-black font-bold text-sm transition-all flex flex-col items-center gap-1
+                                    ${splitType === 'adjustment'
+                                        ? 'bg-lime-300 shadow-[4px_4px_0_0_rgba(0,0,0,1)] -translate-y-1'
+                                        : 'bg-white text-gray-500 hover:bg-gray-50'
+                                    }`}
+                            >
+                                <SlidersHorizontal className="w-4 h-4" />
+                                Adjust
+                            </button>
                         </div>
 
                         {/* Dynamic Inputs based on Split Type */}
@@ -403,7 +648,7 @@ export default function AddExpenseModal({ tripId, members, currentUserId, onClos
                                 <div className="flex justify-between items-center mb-2">
                                     <span className="text-xs font-bold text-black uppercase">Amounts</span>
                                     <span className={`text-xs font-black ${remaining === 0 ? 'text-green-600' : 'text-red-600'}`}>
-                                        {remaining === 0 ? 'PERFECT' : `REMAINING: ₹${remaining.toFixed(2)}`}
+                                        {remaining === 0 ? 'PERFECT' : `REMAINING: ${currencySymbol}${remaining.toFixed(decimals)}`}
                                     </span>
                                 </div>
                                 {activeMembers.map((member) => (
@@ -413,7 +658,7 @@ export default function AddExpenseModal({ tripId, members, currentUserId, onClos
                                         </div>
                                         <span className="flex-1 text-sm font-bold truncate">{member.display_name}</span>
                                         <div className="relative w-28">
-                                            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-black font-bold text-sm">₹</span>
+                                            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-black font-bold text-sm">{currencySymbol}</span>
                                             <input
                                                 type="number"
                                                 value={customSplits[member.id] || ''}
@@ -467,6 +712,106 @@ export default function AddExpenseModal({ tripId, members, currentUserId, onClos
                                 ))}
                             </div>
                         )}
+
+                        {splitType === 'percentage' && (
+                            <div className="space-y-3 bg-sky-50 border-2 border-black p-4 rounded-xl shadow-[4px_4px_0_0_rgba(0,0,0,1)]">
+                                <div className="flex justify-between items-center mb-2">
+                                    <span className="text-xs font-bold text-black uppercase">Percentages</span>
+                                    <span className={`text-xs font-black ${percentComplete ? 'text-green-600' : 'text-red-600'}`}>
+                                        {percentComplete ? 'PERFECT' : `TOTAL: ${Math.round(percentTotal * 100) / 100}%`}
+                                    </span>
+                                </div>
+                                {activeMembers.map((member) => (
+                                    <div key={member.id} className="flex items-center gap-3">
+                                        <div className="w-8 h-8 rounded-full bg-white border-2 border-black flex items-center justify-center text-xs font-black">
+                                            {member.display_name.charAt(0)}
+                                        </div>
+                                        <span className="flex-1 text-sm font-bold truncate">{member.display_name}</span>
+                                        <div className="relative w-28">
+                                            <input
+                                                type="number"
+                                                step="0.01"
+                                                value={percentages[member.id] || ''}
+                                                onChange={(e) => handlePercentageChange(member.id, e.target.value)}
+                                                placeholder="0"
+                                                className="w-full pl-3 pr-7 py-2 rounded-lg border-2 border-black focus:bg-sky-100 outline-none text-sm font-bold text-right"
+                                            />
+                                            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-black font-bold text-sm">%</span>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {splitType === 'adjustment' && (
+                            <div className="space-y-3 bg-lime-50 border-2 border-black p-4 rounded-xl shadow-[4px_4px_0_0_rgba(0,0,0,1)]">
+                                <div className="flex justify-between items-center mb-2">
+                                    <span className="text-xs font-bold text-black uppercase">Extras on top of</span>
+                                    <div className="flex border-2 border-black rounded-lg overflow-hidden text-xs font-bold">
+                                        {(['equal', 'shares'] as AdjustmentBase[]).map(base => (
+                                            <button
+                                                key={base}
+                                                type="button"
+                                                onClick={() => setAdjustmentBase(base)}
+                                                className={`px-3 py-1 uppercase ${adjustmentBase === base ? 'bg-black text-white' : 'bg-white'}`}
+                                            >
+                                                {base}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                {activeMembers.map((member) => (
+                                    <div key={member.id} className="flex items-center gap-3">
+                                        <div className="w-8 h-8 rounded-full bg-white border-2 border-black flex items-center justify-center text-xs font-black">
+                                            {member.display_name.charAt(0)}
+                                        </div>
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-sm font-bold truncate">{member.display_name}</p>
+                                            {adjustmentPreview.amounts[member.id] !== undefined && (
+                                                <p className="text-[10px] font-bold text-gray-500 uppercase">
+                                                    Pays {currencySymbol}{adjustmentPreview.amounts[member.id].toFixed(decimals)}
+                                                </p>
+                                            )}
+                                        </div>
+                                        {adjustmentBase === 'shares' && (
+                                            <input
+                                                type="number"
+                                                value={shares[member.id] || 0}
+                                                onChange={(e) => handleShareChange(member.id, e.target.value)}
+                                                className="w-12 px-2 py-2 rounded-lg border-2 border-black outline-none text-sm font-black text-center"
+                                                title="Shares"
+                                            />
+                                        )}
+                                        <div className="relative w-28">
+                                            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-black font-bold text-sm">±</span>
+                                            <input
+                                                type="number"
+                                                step="any"
+                                                value={adjustments[member.id] || ''}
+                                                onChange={(e) => handleAdjustmentChange(member.id, e.target.value)}
+                                                placeholder="0"
+                                                className="w-full pl-7 pr-3 py-2 rounded-lg border-2 border-black focus:bg-lime-100 outline-none text-sm font-bold text-right"
+                                            />
+                                        </div>
+                                    </div>
+                                ))}
+                                {adjustmentPreview.error && (
+                                    <p className="text-xs font-bold text-red-600">{adjustmentPreview.error}</p>
+                                )}
+                            </div>
+                        )}
+
+                        {splitType === 'itemized' && (
+                            <ItemizedSplitEditor
+                                members={activeMembers}
+                                items={items}
+                                charges={charges}
+                                currencySymbol={currencySymbol}
+                                decimals={decimals}
+                                total={itemizedTotal}
+                                onChange={handleItemizedChange}
+                            />
+                        )}
                     </div>
 
                     {/* Scan Button (Floating or integrated?) - Let's integrate for Neo look */}
@@ -511,7 +856,7 @@ export default function AddExpenseModal({ tripId, members, currentUserId, onClos
                         {saving ? (
                             <Loader2 className="w-6 h-6 animate-spin" />
                         ) : (
-                            <>SAVE EXPENSE</>
+                            <>{expense ? 'SAVE CHANGES' : 'SAVE EXPENSE'}</>
                         )}
                     </button>
                 </form>
@@ -0,0 +1,64 @@
+import type { TripStatus } from '../types';
+import { Archive, ArchiveRestore } from 'lucide-react';
+import { useState } from 'react';
+import { mutationService } from '../services/mutationService';
+
+interface ArchiveTripCardProps {
+    tripId: string;
+    userId: string;
+    status: TripStatus;
+    isSettled: boolean;    // No open balances left
+}
+
+export default function ArchiveTripCard({ tripId, userId, status, isSettled }: ArchiveTripCardProps) {
+    const [saving, setSaving] = useState(false);
+    const isArchived = status === 'archived';
+
+    const handleToggle = async () => {
+        if (!isArchived) {
+            const message = isSettled
+                ? 'Close this trip? Nobody can add or change anything until it is reopened.'
+                : 'Balances are not settled yet. Close the trip anyway?';
+            if (!confirm(message)) return;
+        }
+
+        setSaving(true);
+        try {
+            if (isArchived) {
+                await mutationService.reopenTrip(tripId, userId);
+            } else {
+                await mutationService.archiveTrip(tripId, userId);
+            }
+        } catch (err) {
+            console.error('Failed to change trip status:', err);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 mb-6">
+            <div className="flex items-center gap-2 mb-1">
+                <Archive className="w-4 h-4 text-violet-500" />
+                <h2 className="font-semibold text-gray-900">{isArchived ? 'Trip closed' : 'Close trip'}</h2>
+            </div>
+            <p className="text-xs text-gray-500 mb-3">
+                {isArchived
+                    ? 'The trip is read-only. Reopen it to add or change expenses.'
+                    : 'Once everyone is settled, close the trip to freeze it.'}
+            </p>
+
+            <button
+                onClick={handleToggle}
+                disabled={saving}
+                className={`w-full py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50 ${isArchived
+                    ? 'bg-violet-600 text-white'
+                    : 'bg-gray-100 text-gray-700'
+                    }`}
+            >
+                {isArchived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                {saving ? 'Saving...' : isArchived ? 'Reopen trip' : 'Close trip'}
+            </button>
+        </div>
+    );
+}
@@ -1,4 +1,4 @@
-import { Receipt, Users, Wallet } from 'lucide-react';
+import { Receipt, Users, Wallet, History } from 'lucide-react';
 import type { TabType } from './Dashboard';
 
 interface BottomNavProps {
@@ -10,6 +10,7 @@ const tabs: { id: TabType; label: string; icon: typeof Receipt }[] = [
     { id: 'expenses', label: 'Expenses', icon: Receipt },
     { id: 'members', label: 'Members', icon: Users },
     { id: 'settle', label: 'Settle Up', icon: Wallet },
+    { id: 'activity', label: 'Activity', icon: History },
 ];
 
 export default function BottomNav({ activeTab, onTabChange }: BottomNavProps) {
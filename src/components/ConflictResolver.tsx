@@ -0,0 +1,147 @@
+import type { TripMember, Expense } from '../types';
+import type { LocalMutation } from '../config/localDb';
+import type { ConflictChoice } from '../utils/conflictResolver';
+import { useState } from 'react';
+import { X, GitMerge } from 'lucide-react';
+import { syncService } from '../services/syncService';
+
+interface ConflictResolverProps {
+    conflicts: LocalMutation[];
+    members: TripMember[];
+    expenses: Expense[];
+    onClose: () => void;
+}
+
+const fieldLabels: Record<string, string> = {
+    description: 'Description',
+    amount: 'Amount',
+    currency: 'Currency',
+    exchange_rate: 'Exchange rate',
+    category: 'Category',
+    type: 'Type',
+    paid_by: 'Paid by',
+    expense_date: 'Date',
+    split_type: 'Split',
+};
+
+export default function ConflictResolver({ conflicts, members, expenses, onClose }: ConflictResolverProps) {
+    const [choices, setChoices] = useState<Record<string, Record<string, ConflictChoice>>>({});
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const formatValue = (field: string, value: unknown) => {
+        if (value === undefined || value === null || value === '') return '—';
+        if (field === 'paid_by') {
+            return members.find(m => m.id === value)?.display_name || 'Unknown';
+        }
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    };
+
+    const getTitle = (mut: LocalMutation) => {
+        const expense = expenses.find(e => e.id === mut.entity_id);
+        const action = mut.action === 'create' ? 'New' : mut.action === 'delete' ? 'Deleted' : 'Edited';
+        return `${action} ${mut.entity_type}${expense ? `: ${expense.description}` : ''}`;
+    };
+
+    const choose = (mutationId: string, field: string, choice: ConflictChoice) => {
+        setChoices(prev => ({ ...prev, [mutationId]: { ...prev[mutationId], [field]: choice } }));
+    };
+
+    const run = async (mutationId: string, action: () => Promise<void>) => {
+        setBusyId(mutationId);
+        try {
+            await action();
+        } catch (err) {
+            console.error('Failed to resolve conflict:', err);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center">
+            <div className="bg-white w-full sm:max-w-lg rounded-t-2xl sm:rounded-2xl max-h-[85vh] overflow-y-auto">
+                <div className="sticky top-0 bg-white border-b border-gray-100 px-4 py-3 flex items-center gap-2">
+                    <GitMerge className="w-5 h-5 text-amber-500" />
+                    <h2 className="font-semibold text-gray-900 flex-1">Resolve conflicts ({conflicts.length})</h2>
+                    <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="Close">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-4">
+                    {conflicts.length === 0 && (
+                        <p className="text-center text-gray-500 text-sm py-8">Nothing left to resolve</p>
+                    )}
+
+                    {conflicts.map(mut => {
+                        const fields = mut.conflict?.fields || [];
+                        const canMerge = fields.length > 0 && !!mut.conflict?.remote;
+                        const mutChoices = choices[mut.mutation_id] || {};
+                        const busy = busyId === mut.mutation_id;
+
+                        return (
+                            <div key={mut.mutation_id} className="border border-gray-200 rounded-xl p-3">
+                                <p className="font-medium text-gray-900 text-sm">{getTitle(mut)}</p>
+                                <p className="text-xs text-gray-500 mb-3">{mut.error || 'Rejected by the server'}</p>
+
+                                {canMerge && (
+                                    <div className="space-y-2 mb-3">
+                                        <div className="grid grid-cols-[1fr_1fr_1fr] gap-2 text-[10px] font-semibold text-gray-400 uppercase">
+                                            <span>Field</span>
+                                            <span>Yours</span>
+                                            <span>Theirs</span>
+                                        </div>
+                                        {fields.map(conflict => {
+                                            const choice = mutChoices[conflict.field] || 'remote';
+                                            return (
+                                                <div key={conflict.field} className="grid grid-cols-[1fr_1fr_1fr] gap-2 items-center text-sm">
+                                                    <div>
+                                                        <p className="text-gray-700">{fieldLabels[conflict.field] || conflict.field}</p>
+                                                        <p className="text-[10px] text-gray-400 truncate">
+                                                            was {formatValue(conflict.field, conflict.base)}
+                                                        </p>
+                                                    </div>
+                                                    {(['local', 'remote'] as const).map(side => (
+                                                        <button
+                                                            key={side}
+                                                            onClick={() => choose(mut.mutation_id, conflict.field, side)}
+                                                            className={`px-2 py-1.5 rounded-lg text-left truncate border ${choice === side
+                                                                ? 'border-violet-500 bg-violet-50 text-violet-700'
+                                                                : 'border-gray-200 text-gray-600'
+                                                                }`}
+                                                        >
+                                                            {formatValue(conflict.field, side === 'local' ? conflict.local : conflict.remote)}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+
+                                <div className="flex justify-end gap-2">
+                                    <button
+                                        onClick={() => run(mut.mutation_id, () => syncService.discardMutation(mut.mutation_id))}
+                                        disabled={busy}
+                                        className="px-3 py-2 rounded-lg text-sm font-medium text-red-600 disabled:opacity-50"
+                                    >
+                                        {mut.action === 'delete' ? 'Keep theirs' : 'Discard mine'}
+                                    </button>
+                                    <button
+                                        onClick={() => run(mut.mutation_id, canMerge
+                                            ? () => syncService.resolveConflict(mut.mutation_id, mutChoices)
+                                            : () => syncService.requeueMutation(mut.mutation_id))}
+                                        disabled={busy}
+                                        className="bg-violet-600 text-white px-3 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+                                    >
+                                        {canMerge ? 'Apply & sync' : mut.action === 'delete' ? 'Delete anyway' : 'Retry'}
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+}
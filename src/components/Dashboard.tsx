@@ -1,34 +1,45 @@
 import { useState, useEffect, useMemo } from 'react';
 import type { User } from 'firebase/auth';
-import type { Trip, TripMember, Expense, ExpenseSplit } from '../types';
+import type { Trip, TripMember, Expense, ExpenseSplit, Payment } from '../types';
 import { getTrip, subscribeToTrip } from '../services/tripService';
 import { SYNC_AUTHORITY_ENABLED } from '../config/flags';
 import { localDb } from '../config/localDb';
 import { syncService } from '../services/syncService';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { useCalculations } from '../hooks/useCalculations'; // Hook that uses Worker
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { useMyTrips } from '../hooks/useMyTrips';
 import Header from './Header';
 import BottomNav from './BottomNav';
 import ExpensesTab from './ExpensesTab';
 import MembersTab from './MembersTab';
 import SettleTab from './SettleTab';
 import AddExpenseModal from './AddExpenseModal';
-import { Loader2 } from 'lucide-react';
+import ConflictResolver from './ConflictResolver';
+import SyncQueueInspector from './SyncQueueInspector';
+import TrashView from './TrashView';
+import ActivityTab from './ActivityTab';
+import { Loader2, GitMerge, Archive } from 'lucide-react';
 
 interface DashboardProps {
     user: User;
     tripId: string;
+    onSwitchTrip: (tripId: string) => void;
     onLeaveTrip: () => void;
 }
 
-export type TabType = 'expenses' | 'members' | 'settle';
+export type TabType = 'expenses' | 'members' | 'settle' | 'activity';
 export type ExpenseFilter = 'all' | 'major' | 'daily';
 
-export default function Dashboard({ user, tripId, onLeaveTrip }: DashboardProps) {
+export default function Dashboard({ user, tripId, onSwitchTrip, onLeaveTrip }: DashboardProps) {
     // -- LOCAL READ AUTHORITY (Section 3) --
     // These queries are reactive and update the UI instantly from Dexie
     const localExpenses = useLiveQuery(() => localDb.expenses.where('trip_id').equals(tripId).toArray(), [tripId]) || [];
     const localMembers = useLiveQuery(() => localDb.members.where('trip_id').equals(tripId).toArray(), [tripId]) || [];
+    const localPayments = useLiveQuery(() => localDb.payments.where('trip_id').equals(tripId).toArray(), [tripId]) || [];
+    const localSettlements = useLiveQuery(() => localDb.settlements.where('trip_id').equals(tripId).toArray(), [tripId]) || [];
+    const localActivity = useLiveQuery(() => localDb.activity.where('trip_id').equals(tripId).toArray(), [tripId]) || [];
+    const conflictedMutations = useLiveQuery(() => localDb.mutations.filter(m => m.sync_status === 'conflicted').toArray(), []) || [];
     
     // Get expense IDs for this trip
     const expenseIds = useMemo(() => {
@@ -42,25 +53,39 @@ export default function Dashboard({ user, tripId, onLeaveTrip }: DashboardProps)
         return localDb.splits.where('expense_id').anyOf(expenseIds).toArray();
     }, [expenseIds]) || [];
 
-    const [trip, setTrip] = useState<Trip | null>(null);
+    const localTrip = useLiveQuery(() => localDb.trips.get(tripId), [tripId]);
+
+    const [remoteTrip, setTrip] = useState<Trip | null>(null);
     const [remoteMembers] = useState<TripMember[]>([]);
     const [remoteExpenses] = useState<Expense[]>([]);
     const [remoteSplits] = useState<ExpenseSplit[]>([]);
+    const [remotePayments] = useState<Payment[]>([]);
 
     // Auth-governed data (Cast to satisfy public component interfaces)
     const expenses = (SYNC_AUTHORITY_ENABLED ? (localExpenses as unknown as Expense[]) : remoteExpenses);
     const members = (SYNC_AUTHORITY_ENABLED ? (localMembers as unknown as TripMember[]) : remoteMembers);
     const splits = (SYNC_AUTHORITY_ENABLED ? (localSplits as unknown as ExpenseSplit[]) : remoteSplits);
+    const payments = (SYNC_AUTHORITY_ENABLED ? (localPayments as Payment[]) : remotePayments);
+    // The local copy carries queued edits and trips created offline
+    const trip = (SYNC_AUTHORITY_ENABLED && localTrip
+        ? ({ ...localTrip, status: localTrip.status ?? 'active', archived_at: localTrip.archived_at ?? null } as Trip)
+        : remoteTrip);
 
     const [loading, setLoading] = useState(true);
     const [activeTab, setActiveTab] = useState<TabType>('expenses');
     const [expenseFilter, setExpenseFilter] = useState<ExpenseFilter>('all');
     const [showAddExpense, setShowAddExpense] = useState(false);
+    const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+    const [showConflicts, setShowConflicts] = useState(false);
+    const [showSyncQueue, setShowSyncQueue] = useState(false);
+    const [showTrash, setShowTrash] = useState(false);
+    const syncStatus = useSyncStatus();
+    const myTrips = useMyTrips(user.uid) || [];
     const [limitCount, setLimitCount] = useState(20);
 
     // -- WORKER CALCULATION --
     // Offloads heavy balance math to a web worker
-    const { summary, isCalculating } = useCalculations(expenses, members, splits);
+    const { summary, isCalculating } = useCalculations(expenses, members, splits, payments);
 
     // Fetch initial data and subscribe to updates
     useEffect(() => {
@@ -69,12 +94,16 @@ export default function Dashboard({ user, tripId, onLeaveTrip }: DashboardProps)
         async function init() {
             try {
                 // 1. Fetch Trip Metadata (Always required)
-                const tripData = await getTrip(tripId);
-                if (!tripData) {
-                    onLeaveTrip();
-                    return;
+                // A trip created or joined on this device is local until it syncs
+                const hasLocalTrip = SYNC_AUTHORITY_ENABLED && (await localDb.trips.get(tripId)) !== undefined;
+                if (!hasLocalTrip) {
+                    const tripData = await getTrip(tripId);
+                    if (!tripData) {
+                        onLeaveTrip();
+                        return;
+                    }
+                    setTrip(tripData);
                 }
-                setTrip(tripData);
 
                 // 2. Hydration & Sync (Fix 2)
                 if (SYNC_AUTHORITY_ENABLED) {
@@ -87,7 +116,12 @@ export default function Dashboard({ user, tripId, onLeaveTrip }: DashboardProps)
                 // 3. Keep Trip Metadata updated
                 unsubTrip = subscribeToTrip(
                     tripId,
-                    (updatedTrip) => setTrip(updatedTrip),
+                    (updatedTrip) => {
+                        setTrip(updatedTrip);
+                        // Keep the local shadow fresh (base currency, rate table).
+                        // With sync on, hydration does this without clobbering queued edits.
+                        if (!SYNC_AUTHORITY_ENABLED) localDb.trips.put(updatedTrip);
+                    },
                     async () => {
                         // Trip/Member updates still flow through Legacy for metadata
                         // But if Sync is on, hydration will catch the data
@@ -111,13 +145,24 @@ export default function Dashboard({ user, tripId, onLeaveTrip }: DashboardProps)
         };
     }, [tripId, onLeaveTrip, limitCount]);
 
+    // Trashed expenses only show up in the trash
+    const liveExpenses = expenses.filter(e => !e.deleted_at);
+    const trashedExpenses = expenses.filter(e => e.deleted_at);
+
     // Filter expenses by type
     const filteredExpenses = expenseFilter === 'all'
-        ? expenses
-        : expenses.filter(e => e.type === expenseFilter);
+        ? liveExpenses
+        : liveExpenses.filter(e => e.type === expenseFilter);
 
     // Get current user's member record
-    const currentMember = members.find(m => m.user_id === user.uid);
+    const currentMember = members.find(m => m.user_id === user.uid && !m.left_at);
+    const isAdmin = currentMember?.role === 'admin';
+
+    // An edit can keep people who left on the expense, but not add them
+    const editingSplits = editingExpense ? splits.filter(s => s.expense_id === editingExpense.id) : [];
+    const editableMembers = members.filter(m =>
+        !m.left_at || m.id === editingExpense?.paid_by || editingSplits.some(s => s.member_id === m.id)
+    );
 
     if (loading || !trip) {
         return (
@@ -130,12 +175,19 @@ export default function Dashboard({ user, tripId, onLeaveTrip }: DashboardProps)
         );
     }
 
+    // Closed trips are read-only for everyone
+    const isArchived = trip.status === 'archived';
+
     return (
         <div className="min-h-dvh bg-gray-50 flex flex-col">
             <Header
                 trip={trip}
                 totalSpent={summary?.totalSpent || 0}
                 memberCount={members.length}
+                syncStatus={syncStatus}
+                onSyncClick={() => setShowSyncQueue(true)}
+                otherTrips={myTrips.filter(t => t.trip.id !== tripId)}
+                onSwitchTrip={onSwitchTrip}
                 onLeaveTrip={onLeaveTrip}
             />
 
@@ -146,6 +198,23 @@ export default function Dashboard({ user, tripId, onLeaveTrip }: DashboardProps)
                  </div>
             )}
 
+            {isArchived && (
+                <div className="bg-gray-200 text-gray-700 text-xs py-2 px-4 font-bold flex items-center justify-center gap-2">
+                    <Archive className="w-4 h-4" />
+                    Trip closed{trip.archived_at && ` on ${new Date(trip.archived_at).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}`} · Read-only
+                </div>
+            )}
+
+            {conflictedMutations.length > 0 && (
+                <button
+                    onClick={() => setShowConflicts(true)}
+                    className="bg-amber-100 text-amber-800 text-xs py-2 px-4 font-bold flex items-center justify-center gap-2"
+                >
+                    <GitMerge className="w-4 h-4" />
+                    {conflictedMutations.length} change{conflictedMutations.length === 1 ? '' : 's'} could not sync · Review
+                </button>
+            )}
+
             <main className="flex-1 pb-24 overflow-y-auto">
                 {activeTab === 'expenses' && (
                     <ExpensesTab
@@ -154,8 +223,13 @@ export default function Dashboard({ user, tripId, onLeaveTrip }: DashboardProps)
                         filter={expenseFilter}
                         onFilterChange={setExpenseFilter}
                         onAddExpense={() => setShowAddExpense(true)}
+                        onEditExpense={setEditingExpense}
+                        onOpenTrash={isAdmin ? () => setShowTrash(true) : undefined}
+                        trashCount={trashedExpenses.length}
+                        readOnly={isArchived}
                         currentUserId={user.uid}
                         tripId={tripId}
+                        baseCurrency={trip.currency}
                         onLoadMore={() => setLimitCount(Math.max(limitCount, expenses.length) + 20)}
                         hasMore={expenses.length >= limitCount}
                     />
@@ -167,7 +241,13 @@ export default function Dashboard({ user, tripId, onLeaveTrip }: DashboardProps)
                         summary={summary}
                         tripCode={trip.code}
                         tripId={tripId}
-                        isAdmin={currentMember?.role === 'admin'}
+                        userId={user.uid}
+                        tripStatus={trip.status}
+                        isAdmin={isAdmin}
+                        baseCurrency={trip.currency}
+                        exchangeRates={trip.exchange_rates || {}}
+                        remainderPolicy={trip.remainder_policy}
+                        onLeft={onLeaveTrip}
                     />
                 )}
 
@@ -177,11 +257,25 @@ export default function Dashboard({ user, tripId, onLeaveTrip }: DashboardProps)
                         summary={summary}
                         tripId={tripId}
                         userId={user.uid}
+                        currency={trip.currency}
+                        payments={payments}
+                        settlements={localSettlements}
+                        constraints={trip.settlement_constraints}
+                        isAdmin={isAdmin}
+                        readOnly={isArchived}
+                    />
+                )}
+
+                {activeTab === 'activity' && (
+                    <ActivityTab
+                        activity={localActivity}
+                        members={members}
+                        baseCurrency={trip.currency}
                     />
                 )}
 
                 {/* Loading State for Tabs if Summary Not Ready */}
-                {(activeTab !== 'expenses' && !summary) && (
+                {(activeTab !== 'expenses' && activeTab !== 'activity' && !summary) && (
                      <div className="flex justify-center items-center h-40">
                          <Loader2 className="w-8 h-8 text-violet-500 animate-spin" />
                      </div>
@@ -194,11 +288,55 @@ export default function Dashboard({ user, tripId, onLeaveTrip }: DashboardProps)
             {showAddExpense && (
                 <AddExpenseModal
                     tripId={tripId}
-                    members={members}
+                    members={members.filter(m => !m.left_at)}
                     currentUserId={user.uid}
+                    baseCurrency={trip.currency}
+                    exchangeRates={trip.exchange_rates}
                     onClose={() => setShowAddExpense(false)}
                 />
             )}
+
+            {editingExpense && (
+                <AddExpenseModal
+                    tripId={tripId}
+                    members={editableMembers}
+                    currentUserId={user.uid}
+                    baseCurrency={trip.currency}
+                    exchangeRates={trip.exchange_rates}
+                    expense={editingExpense}
+                    expenseSplits={editingSplits}
+                    onClose={() => setEditingExpense(null)}
+                />
+            )}
+
+            {showSyncQueue && (
+                <SyncQueueInspector
+                    onResolveConflicts={() => {
+                        setShowSyncQueue(false);
+                        setShowConflicts(true);
+                    }}
+                    onClose={() => setShowSyncQueue(false)}
+                />
+            )}
+
+            {showTrash && (
+                <TrashView
+                    expenses={trashedExpenses}
+                    members={members}
+                    tripId={tripId}
+                    baseCurrency={trip.currency}
+                    onClose={() => setShowTrash(false)}
+                />
+            )}
+
+            {showConflicts && (
+                <ConflictResolver
+                    conflicts={conflictedMutations}
+                    members={members}
+                    expenses={expenses}
+                    onClose={() => setShowConflicts(false)}
+                />
+            )}
         </div>
     );
 }
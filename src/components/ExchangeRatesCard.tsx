@@ -0,0 +1,134 @@
+import type { ExchangeRateTable } from '../types';
+import { Coins, Plus, X } from 'lucide-react';
+import { useState } from 'react';
+import { mutationService } from '../services/mutationService';
+import { SUPPORTED_CURRENCIES } from '../utils/currency';
+import { isValidRate } from '../utils/exchangeRates';
+
+interface ExchangeRatesCardProps {
+    tripId: string;
+    baseCurrency: string;
+    exchangeRates: ExchangeRateTable;
+    isAdmin: boolean;
+}
+
+export default function ExchangeRatesCard({ tripId, baseCurrency, exchangeRates, isAdmin }: ExchangeRatesCardProps) {
+    const [showAdd, setShowAdd] = useState(false);
+    const [newCurrency, setNewCurrency] = useState('');
+    const [newRate, setNewRate] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const entries = Object.entries(exchangeRates);
+    const addableCurrencies = SUPPORTED_CURRENCIES.filter(
+        code => code !== baseCurrency && exchangeRates[code] === undefined
+    );
+
+    const saveRates = async (rates: ExchangeRateTable) => {
+        setSaving(true);
+        try {
+            await mutationService.updateTrip(tripId, { exchange_rates: rates });
+        } catch (err) {
+            console.error('Failed to update exchange rates:', err);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const code = newCurrency || addableCurrencies[0];
+        const rate = parseFloat(newRate);
+        if (!code || !isValidRate(rate)) return;
+
+        await saveRates({ ...exchangeRates, [code]: rate });
+        setNewCurrency('');
+        setNewRate('');
+        setShowAdd(false);
+    };
+
+    const handleRemove = async (code: string) => {
+        const rest = { ...exchangeRates };
+        delete rest[code];
+        await saveRates(rest);
+    };
+
+    // Nothing to show for members on a single-currency trip
+    if (!isAdmin && entries.length === 0) return null;
+
+    return (
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 mb-6">
+            <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-2">
+                    <Coins className="w-4 h-4 text-amber-500" />
+                    <h2 className="font-semibold text-gray-900">Currencies</h2>
+                    <span className="text-xs text-gray-500">Base: {baseCurrency}</span>
+                </div>
+                {isAdmin && addableCurrencies.length > 0 && (
+                    <button
+                        onClick={() => setShowAdd(!showAdd)}
+                        className="text-violet-600 text-sm font-medium flex items-center gap-1"
+                    >
+                        <Plus className="w-4 h-4" />
+                        Add Rate
+                    </button>
+                )}
+            </div>
+
+            {entries.length === 0 ? (
+                <p className="text-sm text-gray-400">
+                    Add a rate to log expenses in other currencies.
+                </p>
+            ) : (
+                <div className="space-y-2">
+                    {entries.map(([code, rate]) => (
+                        <div key={code} className="flex items-center justify-between text-sm">
+                            <span className="font-mono text-gray-700">
+                                1 {code} = {rate} {baseCurrency}
+                            </span>
+                            {isAdmin && (
+                                <button
+                                    onClick={() => handleRemove(code)}
+                                    disabled={saving}
+                                    className="p-1 text-gray-400 hover:text-red-500"
+                                    title={`Remove ${code}`}
+                                >
+                                    <X className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {showAdd && (
+                <form onSubmit={handleAdd} className="bg-gray-100 rounded-xl p-3 mt-3 flex gap-2">
+                    <select
+                        value={newCurrency || addableCurrencies[0]}
+                        onChange={(e) => setNewCurrency(e.target.value)}
+                        className="px-2 py-2 rounded-lg border-0 focus:ring-2 focus:ring-violet-500 text-sm bg-white"
+                    >
+                        {addableCurrencies.map(code => (
+                            <option key={code} value={code}>{code}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="number"
+                        step="any"
+                        value={newRate}
+                        onChange={(e) => setNewRate(e.target.value)}
+                        placeholder={`Rate in ${baseCurrency}`}
+                        className="flex-1 min-w-0 px-3 py-2 rounded-lg border-0 focus:ring-2 focus:ring-violet-500 text-sm"
+                        autoFocus
+                    />
+                    <button
+                        type="submit"
+                        disabled={saving || !isValidRate(parseFloat(newRate))}
+                        className="bg-violet-600 text-white px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+                    >
+                        {saving ? '...' : 'Save'}
+                    </button>
+                </form>
+            )}
+        </div>
+    );
+}
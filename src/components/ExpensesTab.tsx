@@ -1,8 +1,10 @@
 import type { Expense, TripMember } from '../types';
 import type { ExpenseFilter } from './Dashboard';
-import { Plus, Trash2, Plane, UtensilsCrossed, Home, Sparkles, MoreHorizontal } from 'lucide-react';
+import { Plus, Trash2, Pencil, Plane, UtensilsCrossed, Home, Sparkles, MoreHorizontal, ReceiptText, Undo2 } from 'lucide-react';
 import { mutationService } from '../services/mutationService';
-import { useState } from 'react';
+import { useState, useRef, useEffect } from 'react';
+import { getMinorUnitExponent } from '../utils/currency';
+import { convertAmount } from '../utils/exchangeRates';
 
 interface ExpensesTabProps {
     expenses: Expense[];
@@ -10,8 +12,13 @@ interface ExpensesTabProps {
     filter: ExpenseFilter;
     onFilterChange: (filter: ExpenseFilter) => void;
     onAddExpense: () => void;
+    onEditExpense: (expense: Expense) => void;
+    onOpenTrash?: () => void;   // Admins only
+    trashCount?: number;
+    readOnly?: boolean;         // Closed trip: nothing can be added or changed
     currentUserId: string;
     tripId: string;
+    baseCurrency: string;
     onLoadMore?: () => void;
     hasMore?: boolean;
 }
@@ -32,32 +39,48 @@ const categoryColors: Record<string, string> = {
     other: 'bg-gray-100 text-gray-600',
 };
 
+// How long the undo toast stays up after a delete
+const UNDO_TIMEOUT = 5000;
+
 export default function ExpensesTab({
     expenses,
     members,
     filter,
     onFilterChange,
     onAddExpense,
+    onEditExpense,
+    onOpenTrash,
+    trashCount = 0,
+    readOnly = false,
     currentUserId,
     tripId,
+    baseCurrency,
     onLoadMore,
     hasMore
 }: ExpensesTabProps) {
     const [deletingId, setDeletingId] = useState<string | null>(null);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [undoExpense, setUndoExpense] = useState<Expense | null>(null);
+    const undoTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+    useEffect(() => () => clearTimeout(undoTimer.current), []);
 
     const getMemberName = (memberId: string) => {
         const member = members.find(m => m.id === memberId);
         return member?.display_name || 'Unknown';
     };
 
-    const handleDelete = async (expenseId: string, createdBy: string) => {
-        if (createdBy !== currentUserId) return;
+    // Deletes are soft: the expense goes to the trash and can be undone
+    const handleDelete = async (expense: Expense) => {
+        if (expense.created_by !== currentUserId) return;
 
-        if (!confirm('Delete this expense?')) return;
-
-        setDeletingId(expenseId);
+        setDeletingId(expense.id);
         try {
-            await mutationService.deleteExpense(tripId, expenseId);
+            await mutationService.trashExpense(tripId, expense.id, currentUserId);
+
+            clearTimeout(undoTimer.current);
+            setUndoExpense(expense);
+            undoTimer.current = setTimeout(() => setUndoExpense(null), UNDO_TIMEOUT);
         } catch (err) {
             console.error('Failed to delete:', err);
         } finally {
@@ -65,11 +88,25 @@ export default function ExpensesTab({
         }
     };
 
-    const formatAmount = (amount: number) => {
+    const handleUndo = async () => {
+        if (!undoExpense) return;
+
+        clearTimeout(undoTimer.current);
+        setUndoExpense(null);
+        try {
+            await mutationService.restoreExpense(tripId, undoExpense.id);
+        } catch (err) {
+            console.error('Failed to restore:', err);
+        }
+    };
+
+    const formatAmount = (amount: number, currency: string = baseCurrency) => {
+        const digits = getMinorUnitExponent(currency);
         return new Intl.NumberFormat('en-IN', {
             style: 'currency',
-            currency: 'INR',
-            maximumFractionDigits: 0,
+            currency,
+            minimumFractionDigits: digits,
+            maximumFractionDigits: digits,
         }).format(amount);
     };
 
@@ -95,6 +132,15 @@ export default function ExpensesTab({
                         {f === 'all' ? 'All' : f === 'major' ? 'Major' : 'Daily'}
                     </button>
                 ))}
+                {onOpenTrash && !readOnly && trashCount > 0 && (
+                    <button
+                        onClick={onOpenTrash}
+                        className="ml-auto px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap bg-white text-gray-600 border border-gray-200 flex items-center gap-1.5"
+                    >
+                        <Trash2 className="w-4 h-4" />
+                        Trash ({trashCount})
+                    </button>
+                )}
             </div>
 
             {/* Expense List */}
@@ -105,18 +151,20 @@ export default function ExpensesTab({
                             <Plus className="w-8 h-8 text-gray-400" />
                         </div>
                         <p className="text-gray-500 mb-2">No expenses yet</p>
-                        <button
-                            onClick={onAddExpense}
-                            className="text-violet-600 font-medium"
-                        >
-                            Add your first expense
-                        </button>
+                        {!readOnly && (
+                            <button
+                                onClick={onAddExpense}
+                                className="text-violet-600 font-medium"
+                            >
+                                Add your first expense
+                            </button>
+                        )}
                     </div>
                 ) : (
                     expenses.map((expense) => {
                         const Icon = categoryIcons[expense.category] || MoreHorizontal;
                         const colorClass = categoryColors[expense.category] || categoryColors.other;
-                        const isOwner = expense.created_by === currentUserId;
+                        const canChange = expense.created_by === currentUserId && !readOnly;
 
                         return (
                             <div
@@ -140,8 +188,13 @@ export default function ExpensesTab({
                                             </div>
                                             <div className="text-right flex-shrink-0">
                                                 <p className="font-semibold text-gray-900">
-                                                    {formatAmount(expense.amount)}
+                                                    {formatAmount(expense.amount, expense.currency || baseCurrency)}
                                                 </p>
+                                                {expense.currency && expense.currency !== baseCurrency && (
+                                                    <p className="text-xs text-gray-400">
+                                                        ≈ {formatAmount(convertAmount(expense.amount, expense.exchange_rate))}
+                                                    </p>
+                                                )}
                                                 <span className={`text-xs px-2 py-0.5 rounded-full ${expense.type === 'major'
                                                     ? 'bg-blue-100 text-blue-700'
                                                     : 'bg-orange-100 text-orange-700'
@@ -151,16 +204,63 @@ export default function ExpensesTab({
                                             </div>
                                         </div>
 
-                                        {isOwner && (
+                                        {expense.items && expense.items.length > 0 && (
                                             <button
-                                                onClick={() => handleDelete(expense.id, expense.created_by)}
-                                                disabled={deletingId === expense.id}
-                                                className="mt-2 text-red-500 text-sm flex items-center gap-1 hover:text-red-700"
+                                                onClick={() => setExpandedId(expandedId === expense.id ? null : expense.id)}
+                                                className="mt-2 text-violet-600 text-sm flex items-center gap-1"
                                             >
-                                                <Trash2 className="w-4 h-4" />
-                                                {deletingId === expense.id ? 'Deleting...' : 'Delete'}
+                                                <ReceiptText className="w-4 h-4" />
+                                                {expandedId === expense.id ? 'Hide items' : `${expense.items.length} items`}
                                             </button>
                                         )}
+
+                                        {expandedId === expense.id && expense.items && (
+                                            <div className="mt-2 bg-gray-50 rounded-xl p-3 space-y-1.5 text-sm">
+                                                {expense.items.map(item => (
+                                                    <div key={item.id} className="flex justify-between gap-2">
+                                                        <div className="min-w-0">
+                                                            <p className="text-gray-900 truncate">
+                                                                {item.quantity > 1 && `${item.quantity} × `}{item.name}
+                                                            </p>
+                                                            <p className="text-xs text-gray-500 truncate">
+                                                                {item.member_ids.map(getMemberName).join(', ')}
+                                                            </p>
+                                                        </div>
+                                                        <span className="text-gray-700 flex-shrink-0">
+                                                            {formatAmount(item.price * item.quantity, expense.currency || baseCurrency)}
+                                                        </span>
+                                                    </div>
+                                                ))}
+                                                {(['tax', 'service', 'tip'] as const)
+                                                    .filter(key => (expense.charges?.[key] || 0) > 0)
+                                                    .map(key => (
+                                                        <div key={key} className="flex justify-between text-xs text-gray-500 capitalize">
+                                                            <span>{key}</span>
+                                                            <span>{formatAmount(expense.charges?.[key] || 0, expense.currency || baseCurrency)}</span>
+                                                        </div>
+                                                    ))}
+                                            </div>
+                                        )}
+
+                                        {canChange && (
+                                            <div className="mt-2 flex gap-4">
+                                                <button
+                                                    onClick={() => onEditExpense(expense)}
+                                                    className="text-violet-600 text-sm flex items-center gap-1 hover:text-violet-800"
+                                                >
+                                                    <Pencil className="w-4 h-4" />
+                                                    Edit
+                                                </button>
+                                                <button
+                                                    onClick={() => handleDelete(expense)}
+                                                    disabled={deletingId === expense.id}
+                                                    className="text-red-500 text-sm flex items-center gap-1 hover:text-red-700"
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                    {deletingId === expense.id ? 'Deleting...' : 'Delete'}
+                                                </button>
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
                             </div>
@@ -180,13 +280,29 @@ export default function ExpensesTab({
                 </div>
             )}
 
+            {/* Undo Toast */}
+            {undoExpense && (
+                <div className="fixed bottom-24 left-4 right-20 bg-gray-900 text-white rounded-xl px-4 py-3 shadow-lg flex items-center gap-3 animate-slide-up">
+                    <p className="text-sm flex-1 truncate">Deleted "{undoExpense.description}"</p>
+                    <button
+                        onClick={handleUndo}
+                        className="text-violet-300 text-sm font-semibold flex items-center gap-1 hover:text-violet-200"
+                    >
+                        <Undo2 className="w-4 h-4" />
+                        Undo
+                    </button>
+                </div>
+            )}
+
             {/* FAB */}
-            <button
-                onClick={onAddExpense}
-                className="fixed bottom-24 right-4 w-14 h-14 bg-gradient-to-r from-violet-600 to-indigo-600 text-white rounded-full shadow-lg flex items-center justify-center hover:shadow-xl transition-all active:scale-95"
-            >
-                <Plus className="w-6 h-6" />
-            </button>
+            {!readOnly && (
+                <button
+                    onClick={onAddExpense}
+                    className="fixed bottom-24 right-4 w-14 h-14 bg-gradient-to-r from-violet-600 to-indigo-600 text-white rounded-full shadow-lg flex items-center justify-center hover:shadow-xl transition-all active:scale-95"
+                >
+                    <Plus className="w-6 h-6" />
+                </button>
+            )}
         </div>
     );
 }
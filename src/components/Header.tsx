@@ -1,16 +1,33 @@
 import type { Trip } from '../types';
-import { Share2, LogOut, Check } from 'lucide-react';
+import type { SyncStatus } from '../utils/syncUtils';
+import type { TripOverview } from '../hooks/useMyTrips';
+import { Share2, LayoutGrid, Check, Cloud, CloudOff, RefreshCw, CloudUpload, AlertTriangle, ChevronDown } from 'lucide-react';
 import { useState } from 'react';
+import { getMinorUnitExponent } from '../utils/currency';
 
 interface HeaderProps {
     trip: Trip;
     totalSpent: number;
     memberCount: number;
-    onLeaveTrip: () => void;
+    syncStatus: SyncStatus;
+    onSyncClick: () => void;
+    otherTrips: TripOverview[];
+    onSwitchTrip: (tripId: string) => void;
+    onLeaveTrip: () => void;   // Back to the trip list
 }
 
-export default function Header({ trip, totalSpent, memberCount, onLeaveTrip }: HeaderProps) {
+export default function Header({
+    trip,
+    totalSpent,
+    memberCount,
+    syncStatus,
+    onSyncClick,
+    otherTrips,
+    onSwitchTrip,
+    onLeaveTrip
+}: HeaderProps) {
     const [copied, setCopied] = useState(false);
+    const [showSwitcher, setShowSwitcher] = useState(false);
 
     const handleCopyCode = async () => {
         try {
@@ -22,11 +39,32 @@ export default function Header({ trip, totalSpent, memberCount, onLeaveTrip }: H
         }
     };
 
+    const getSyncLabel = () => {
+        switch (syncStatus.state) {
+            case 'conflicted': return `${syncStatus.conflicted} conflicted`;
+            case 'offline': return syncStatus.pending > 0 ? `Offline · ${syncStatus.pending}` : 'Offline';
+            case 'syncing': return 'Syncing';
+            case 'pending': return `${syncStatus.pending} pending`;
+            default: return 'Synced';
+        }
+    };
+
+    const SyncIcon = {
+        synced: Cloud,
+        syncing: RefreshCw,
+        offline: CloudOff,
+        pending: CloudUpload,
+        conflicted: AlertTriangle,
+    }[syncStatus.state];
+
     const formatCurrency = (amount: number) => {
+        const code = trip.currency || 'INR';
+        const digits = getMinorUnitExponent(code);
         return new Intl.NumberFormat('en-IN', {
             style: 'currency',
-            currency: trip.currency || 'INR',
-            maximumFractionDigits: 0,
+            currency: code,
+            minimumFractionDigits: digits,
+            maximumFractionDigits: digits,
         }).format(amount);
     };
 
@@ -34,8 +72,54 @@ export default function Header({ trip, totalSpent, memberCount, onLeaveTrip }: H
         <header className="bg-gradient-primary text-white header-safe pb-6 px-4">
             {/* Top Row */}
             <div className="flex items-center justify-between mb-4">
-                <h1 className="text-xl font-bold truncate flex-1 mr-2">{trip.name}</h1>
+                <div className="relative flex-1 min-w-0 mr-2">
+                    {otherTrips.length > 0 ? (
+                        <button
+                            onClick={() => setShowSwitcher(!showSwitcher)}
+                            className="flex items-center gap-1 max-w-full"
+                            title="Switch trip"
+                        >
+                            <h1 className="text-xl font-bold truncate">{trip.name}</h1>
+                            <ChevronDown className={`w-5 h-5 text-white/80 flex-shrink-0 transition-transform ${showSwitcher ? 'rotate-180' : ''}`} />
+                        </button>
+                    ) : (
+                        <h1 className="text-xl font-bold truncate">{trip.name}</h1>
+                    )}
+
+                    {/* Trip Switcher */}
+                    {showSwitcher && (
+                        <div className="absolute left-0 top-full mt-2 w-64 bg-white rounded-xl shadow-xl py-1 z-40 text-gray-900">
+                            {otherTrips.map(({ trip: other }) => (
+                                <button
+                                    key={other.id}
+                                    onClick={() => {
+                                        setShowSwitcher(false);
+                                        onSwitchTrip(other.id);
+                                    }}
+                                    className="w-full px-4 py-2.5 text-left text-sm hover:bg-violet-50 flex items-center justify-between gap-2"
+                                >
+                                    <span className="truncate">{other.name}</span>
+                                    <span className="font-mono text-xs text-gray-400">{other.code}</span>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
                 <div className="flex items-center gap-2">
+                    <button
+                        onClick={onSyncClick}
+                        className={`flex items-center gap-1 px-2.5 py-1.5 rounded-full text-xs font-medium transition-all flex-shrink-0 ${syncStatus.state === 'conflicted'
+                            ? 'bg-amber-400 text-amber-950'
+                            : 'bg-white/20 hover:bg-white/30'
+                            }`}
+                        title="Sync queue"
+                    >
+                        <SyncIcon className={`w-3.5 h-3.5 ${syncStatus.state === 'syncing' ? 'animate-spin' : ''}`} />
+                        <span className="hidden sm:inline">{getSyncLabel()}</span>
+                        {syncStatus.state !== 'synced' && syncStatus.state !== 'syncing' && (
+                            <span className="sm:hidden">{syncStatus.state === 'conflicted' ? syncStatus.conflicted : syncStatus.pending || ''}</span>
+                        )}
+                    </button>
                     <button
                         onClick={handleCopyCode}
                         className="flex items-center gap-1.5 bg-white/20 hover:bg-white/30 px-3 py-1.5 rounded-full text-xs sm:text-sm transition-all truncate max-w-[120px] sm:max-w-none"
@@ -46,9 +130,9 @@ export default function Header({ trip, totalSpent, memberCount, onLeaveTrip }: H
                     <button
                         onClick={onLeaveTrip}
                         className="p-2 hover:bg-white/20 rounded-full transition-all flex-shrink-0"
-                        title="Leave trip"
+                        title="My trips"
                     >
-                        <LogOut className="w-5 h-5 text-white/80" />
+                        <LayoutGrid className="w-5 h-5 text-white/80" />
                     </button>
                 </div>
             </div>
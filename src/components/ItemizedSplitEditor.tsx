@@ -0,0 +1,152 @@
+import type { TripMember, ExpenseItem, ExpenseCharges } from '../types';
+import { Plus, Trash2 } from 'lucide-react';
+import { generateUUID } from '../utils/syncUtils';
+
+interface ItemizedSplitEditorProps {
+    members: TripMember[];
+    items: ExpenseItem[];
+    charges: ExpenseCharges;
+    currencySymbol: string;
+    decimals: number;
+    total: number;
+    onChange: (items: ExpenseItem[], charges: ExpenseCharges) => void;
+}
+
+const chargeFields: { key: keyof ExpenseCharges; label: string }[] = [
+    { key: 'tax', label: 'Tax' },
+    { key: 'service', label: 'Service' },
+    { key: 'tip', label: 'Tip' },
+];
+
+export default function ItemizedSplitEditor({
+    members,
+    items,
+    charges,
+    currencySymbol,
+    decimals,
+    total,
+    onChange
+}: ItemizedSplitEditorProps) {
+    const updateItem = (id: string, updates: Partial<ExpenseItem>) => {
+        onChange(items.map(item => item.id === id ? { ...item, ...updates } : item), charges);
+    };
+
+    const addItem = () => {
+        onChange([
+            ...items,
+            { id: generateUUID(), name: '', price: 0, quantity: 1, member_ids: members.map(m => m.id) }
+        ], charges);
+    };
+
+    const removeItem = (id: string) => {
+        onChange(items.filter(item => item.id !== id), charges);
+    };
+
+    const toggleSharer = (item: ExpenseItem, memberId: string) => {
+        const member_ids = item.member_ids.includes(memberId)
+            ? item.member_ids.filter(id => id !== memberId)
+            : [...item.member_ids, memberId];
+        updateItem(item.id, { member_ids });
+    };
+
+    const updateCharge = (key: keyof ExpenseCharges, value: string) => {
+        onChange(items, { ...charges, [key]: Math.max(0, parseFloat(value) || 0) });
+    };
+
+    return (
+        <div className="space-y-3 bg-orange-50 border-2 border-black p-4 rounded-xl shadow-[4px_4px_0_0_rgba(0,0,0,1)]">
+            <div className="flex justify-between items-center mb-2">
+                <span className="text-xs font-bold text-black uppercase">Line Items</span>
+                <span className="text-xs font-black text-black">
+                    TOTAL: {currencySymbol}{total.toFixed(decimals)}
+                </span>
+            </div>
+
+            {items.map((item) => (
+                <div key={item.id} className="bg-white border-2 border-black rounded-lg p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="text"
+                            value={item.name}
+                            onChange={(e) => updateItem(item.id, { name: e.target.value })}
+                            placeholder="Dish"
+                            className="flex-1 min-w-0 px-2 py-1.5 rounded-lg border-2 border-black outline-none text-sm font-bold"
+                        />
+                        <input
+                            type="number"
+                            min="1"
+                            value={item.quantity || ''}
+                            onChange={(e) => updateItem(item.id, { quantity: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            className="w-12 px-2 py-1.5 rounded-lg border-2 border-black outline-none text-sm font-bold text-center"
+                            title="Quantity"
+                        />
+                        <div className="relative w-24">
+                            <span className="absolute left-2 top-1/2 -translate-y-1/2 text-black font-bold text-sm">{currencySymbol}</span>
+                            <input
+                                type="number"
+                                step="any"
+                                value={item.price || ''}
+                                onChange={(e) => updateItem(item.id, { price: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                placeholder="0"
+                                className="w-full pl-7 pr-2 py-1.5 rounded-lg border-2 border-black outline-none text-sm font-bold text-right"
+                                title="Unit price"
+                            />
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => removeItem(item.id)}
+                            className="p-1 text-gray-400 hover:text-red-500"
+                            title="Remove item"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                        {members.map((member) => {
+                            const isSharer = item.member_ids.includes(member.id);
+                            return (
+                                <button
+                                    key={member.id}
+                                    type="button"
+                                    onClick={() => toggleSharer(item, member.id)}
+                                    className={`px-2 py-0.5 rounded-full border-2 border-black text-xs font-bold transition-all
+                                        ${isSharer ? 'bg-black text-white' : 'bg-white text-gray-400'}`}
+                                >
+                                    {member.display_name}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            ))}
+
+            <button
+                type="button"
+                onClick={addItem}
+                className="w-full py-2 rounded-lg border-2 border-dashed border-black text-sm font-bold flex items-center justify-center gap-1 hover:bg-orange-100"
+            >
+                <Plus className="w-4 h-4" />
+                Add Item
+            </button>
+
+            <div className="grid grid-cols-3 gap-2 pt-2">
+                {chargeFields.map(({ key, label }) => (
+                    <label key={key} className="text-[10px] font-bold text-black uppercase">
+                        {label}
+                        <input
+                            type="number"
+                            step="any"
+                            value={charges[key] || ''}
+                            onChange={(e) => updateCharge(key, e.target.value)}
+                            placeholder="0"
+                            className="mt-1 w-full px-2 py-1.5 rounded-lg border-2 border-black outline-none text-sm font-bold text-right"
+                        />
+                    </label>
+                ))}
+            </div>
+            <p className="text-[10px] font-bold text-gray-500 uppercase">
+                Tax, service and tip are shared in proportion to each person's items
+            </p>
+        </div>
+    );
+}
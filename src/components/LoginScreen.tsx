@@ -1,7 +1,15 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import type { User } from 'firebase/auth';
+import type { TripMember } from '../types';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { mutationService } from '../services/mutationService';
-import { Plane, Users, Plus, ArrowRight, Loader2 } from 'lucide-react';
+import { syncService } from '../services/syncService';
+import { getClaimableGhosts } from '../services/tripService';
+import { localDb } from '../config/localDb';
+import { useMyTrips } from '../hooks/useMyTrips';
+import MyTrips from './MyTrips';
+import { Plane, Users, Plus, ArrowRight, Loader2, WifiOff, X, Ghost, Check } from 'lucide-react';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../utils/currency';
 
 interface LoginScreenProps {
     user: User;
@@ -13,8 +21,34 @@ export default function LoginScreen({ user, onTripSelect }: LoginScreenProps) {
     const [name, setName] = useState('');
     const [tripCode, setTripCode] = useState('');
     const [tripName, setTripName] = useState('');
+    const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState('');
+    // Unclaimed ghosts of the trip being joined; null until looked up
+    const [ghosts, setGhosts] = useState<{ tripId: string; ghosts: TripMember[] } | null>(null);
+    const [claimedName, setClaimedName] = useState('');
+    const myTrips = useMyTrips(user.uid) || [];
+
+    // A join queued while offline, and the membership once it went through
+    const deferredJoin = useLiveQuery(async () => {
+        const mutation = await localDb.mutations
+            .filter(m => m.entity_type === 'member' && m.payload?.join?.user_id === user.uid)
+            .first();
+        if (!mutation) return null;
+        return { mutation, member: await localDb.members.get(mutation.entity_id) };
+    }, [user.uid]);
+    const hasDeferredJoin = !!deferredJoin;
+
+    // The sync loop normally runs with the dashboard; keep it going until the join lands
+    useEffect(() => {
+        if (!hasDeferredJoin) return;
+        syncService.startSyncLoop();
+        return () => syncService.stopSyncLoop();
+    }, [hasDeferredJoin]);
+
+    useEffect(() => {
+        if (deferredJoin?.member) onTripSelect(deferredJoin.member.trip_id);
+    }, [deferredJoin, onTripSelect]);
 
     const handleCreate = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -28,7 +62,7 @@ export default function LoginScreen({ user, onTripSelect }: LoginScreenProps) {
 
         try {
             const { tripId } = await mutationService.createTrip(
-                { name: tripName || `${name}'s Trip`, creatorDisplayName: name },
+                { name: tripName || `${name}'s Trip`, creatorDisplayName: name, currency },
                 user.uid
             );
             onTripSelect(tripId);
@@ -53,12 +87,31 @@ export default function LoginScreen({ user, onTripSelect }: LoginScreenProps) {
         setLoading(true);
         setError('');
 
+        // Offer the trip's ghosts first, in case one of them is this person.
+        // If the lookup fails (offline, wrong code), joinTrip reports it.
+        if (!ghosts && navigator.onLine) {
+            try {
+                const found = await getClaimableGhosts(tripCode);
+                setGhosts(found);
+                if (found.ghosts.length > 0) {
+                    setLoading(false);
+                    return;
+                }
+            } catch (err) {
+                console.warn('[Join] Could not look up ghost members:', err);
+            }
+        }
+
         try {
             const { tripId } = await mutationService.joinTrip(
                 { code: tripCode, displayName: name },
                 user.uid
             );
-            onTripSelect(tripId);
+            if (tripId) {
+                onTripSelect(tripId);
+            } else {
+                setMode('home');
+            }
         } catch (err: any) {
             setError(err.message || 'Failed to join trip');
         } finally {
@@ -66,11 +119,38 @@ export default function LoginScreen({ user, onTripSelect }: LoginScreenProps) {
         }
     };
 
+    const handleClaim = async (ghost: TripMember) => {
+        if (!ghosts) return;
+        if (!name.trim()) {
+            setError('Please enter your name');
+            return;
+        }
+
+        setLoading(true);
+        setError('');
+
+        try {
+            await mutationService.requestGhostClaim(ghosts.tripId, ghost.id, user.uid, name.trim());
+            setClaimedName(ghost.display_name);
+        } catch (err) {
+            setError((err as Error).message || 'Failed to claim member');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const leaveForm = () => {
+        setMode('home');
+        setError('');
+        setGhosts(null);
+        setClaimedName('');
+    };
+
     if (mode === 'home') {
         return (
             <div className="min-h-screen bg-gradient-to-br from-violet-600 via-purple-600 to-indigo-700 flex flex-col">
-                {/* Hero Section */}
-                <div className="flex-1 flex flex-col items-center justify-center px-6 text-center">
+                {/* Hero Section (compact once there are trips to list) */}
+                <div className={`flex flex-col items-center justify-center px-6 text-center ${myTrips.length > 0 ? 'pt-12 pb-6' : 'flex-1'}`}>
                     <div className="w-20 h-20 bg-white/20 backdrop-blur-sm rounded-3xl flex items-center justify-center mb-6 shadow-lg">
                         <Plane className="w-10 h-10 text-white" />
                     </div>
@@ -81,8 +161,37 @@ export default function LoginScreen({ user, onTripSelect }: LoginScreenProps) {
                     </p>
                 </div>
 
+                {myTrips.length > 0 && (
+                    <div className="flex-1 px-6 pb-6">
+                        <MyTrips trips={myTrips} onTripSelect={onTripSelect} />
+                    </div>
+                )}
+
                 {/* Action Buttons */}
                 <div className="px-6 pb-10 space-y-4">
+                    {deferredJoin && (
+                        <div className="bg-white/20 backdrop-blur-sm rounded-2xl p-4 border border-white/30 text-white flex items-start gap-3">
+                            <WifiOff className="w-5 h-5 mt-0.5 shrink-0" />
+                            <div className="flex-1 text-sm">
+                                <p className="font-semibold">
+                                    Joining {deferredJoin.mutation.payload.join.code} as {deferredJoin.mutation.payload.join.display_name}
+                                </p>
+                                <p className="text-white/80">
+                                    {deferredJoin.mutation.sync_status === 'conflicted'
+                                        ? deferredJoin.mutation.error
+                                        : "You'll be added as soon as you're back online"}
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => syncService.discardMutation(deferredJoin.mutation.mutation_id)}
+                                className="p-1 text-white/70 hover:text-white"
+                                title="Cancel join"
+                            >
+                                <X className="w-4 h-4" />
+                            </button>
+                        </div>
+                    )}
+
                     <button
                         onClick={() => setMode('create')}
                         className="w-full bg-white text-violet-700 py-4 px-6 rounded-2xl font-semibold text-lg flex items-center justify-center gap-3 shadow-lg hover:shadow-xl transition-all active:scale-[0.98]"
@@ -108,7 +217,7 @@ export default function LoginScreen({ user, onTripSelect }: LoginScreenProps) {
             {/* Header */}
             <div className="bg-gradient-to-r from-violet-600 to-indigo-600 pt-12 pb-20 px-6">
                 <button
-                    onClick={() => { setMode('home'); setError(''); }}
+                    onClick={leaveForm}
                     className="text-white/80 hover:text-white mb-4 text-sm"
                 >
                     ← Back
@@ -153,7 +262,10 @@ export default function LoginScreen({ user, onTripSelect }: LoginScreenProps) {
                             <input
                                 type="text"
                                 value={tripCode}
-                                onChange={(e) => setTripCode(e.target.value.toUpperCase())}
+                                onChange={(e) => {
+                                    setTripCode(e.target.value.toUpperCase());
+                                    setGhosts(null);
+                                }}
                                 placeholder="e.g. ABC123"
                                 maxLength={6}
                                 className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:border-violet-500 focus:ring-2 focus:ring-violet-500/20 transition-all outline-none text-center text-2xl font-mono tracking-widest uppercase"
@@ -161,6 +273,40 @@ export default function LoginScreen({ user, onTripSelect }: LoginScreenProps) {
                         </div>
                     )}
 
+                    {/* Ghost Claim (Join mode) */}
+                    {mode === 'join' && claimedName && (
+                        <div className="bg-emerald-50 text-emerald-700 px-4 py-3 rounded-xl text-sm flex items-start gap-2">
+                            <Check className="w-4 h-4 mt-0.5 shrink-0" />
+                            <p>
+                                Asked to join as {claimedName}. Once a trip admin approves,
+                                the trip shows up under your trips with everything {claimedName} already shared.
+                            </p>
+                        </div>
+                    )}
+
+                    {mode === 'join' && !claimedName && ghosts && ghosts.ghosts.length > 0 && (
+                        <div>
+                            <p className="text-sm font-medium text-gray-700 mb-1">Are you one of these?</p>
+                            <p className="text-xs text-gray-400 mb-2">
+                                Someone already added them to the trip. Pick yours to take over their expenses.
+                            </p>
+                            <div className="space-y-2">
+                                {ghosts.ghosts.map(ghost => (
+                                    <button
+                                        key={ghost.id}
+                                        type="button"
+                                        onClick={() => handleClaim(ghost)}
+                                        disabled={loading}
+                                        className="w-full px-4 py-3 rounded-xl border border-gray-200 hover:border-violet-500 text-left flex items-center gap-3 transition-all disabled:opacity-50"
+                                    >
+                                        <Ghost className="w-4 h-4 text-gray-400" />
+                                        <span className="font-medium text-gray-900">{ghost.display_name}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Trip Name (Create mode) */}
                     {mode === 'create' && (
                         <div>
@@ -177,6 +323,27 @@ export default function LoginScreen({ user, onTripSelect }: LoginScreenProps) {
                         </div>
                     )}
 
+                    {/* Base Currency (Create mode) */}
+                    {mode === 'create' && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                Base Currency
+                            </label>
+                            <select
+                                value={currency}
+                                onChange={(e) => setCurrency(e.target.value)}
+                                className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:border-violet-500 focus:ring-2 focus:ring-violet-500/20 transition-all outline-none bg-white"
+                            >
+                                {SUPPORTED_CURRENCIES.map(code => (
+                                    <option key={code} value={code}>{code}</option>
+                                ))}
+                            </select>
+                            <p className="text-xs text-gray-400 mt-1">
+                                Balances and settlements are shown in this currency
+                            </p>
+                        </div>
+                    )}
+
                     {/* Error Message */}
                     {error && (
                         <div className="bg-red-50 text-red-600 px-4 py-3 rounded-xl text-sm">
@@ -185,20 +352,32 @@ export default function LoginScreen({ user, onTripSelect }: LoginScreenProps) {
                     )}
 
                     {/* Submit Button */}
-                    <button
-                        type="submit"
-                        disabled={loading}
-                        className="w-full bg-gradient-to-r from-violet-600 to-indigo-600 text-white py-4 px-6 rounded-xl font-semibold text-lg flex items-center justify-center gap-2 shadow-lg hover:shadow-xl transition-all active:scale-[0.98] disabled:opacity-70 disabled:cursor-not-allowed"
-                    >
-                        {loading ? (
-                            <Loader2 className="w-5 h-5 animate-spin" />
-                        ) : (
-                            <>
-                                {mode === 'create' ? 'Create Trip' : 'Join Trip'}
-                                <ArrowRight className="w-5 h-5" />
-                            </>
-                        )}
-                    </button>
+                    {claimedName ? (
+                        <button
+                            type="button"
+                            onClick={leaveForm}
+                            className="w-full bg-gradient-to-r from-violet-600 to-indigo-600 text-white py-4 px-6 rounded-xl font-semibold text-lg shadow-lg"
+                        >
+                            Done
+                        </button>
+                    ) : (
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="w-full bg-gradient-to-r from-violet-600 to-indigo-600 text-white py-4 px-6 rounded-xl font-semibold text-lg flex items-center justify-center gap-2 shadow-lg hover:shadow-xl transition-all active:scale-[0.98] disabled:opacity-70 disabled:cursor-not-allowed"
+                        >
+                            {loading ? (
+                                <Loader2 className="w-5 h-5 animate-spin" />
+                            ) : (
+                                <>
+                                    {mode === 'create'
+                                        ? 'Create Trip'
+                                        : ghosts && ghosts.ghosts.length > 0 ? 'None of these, join as new' : 'Join Trip'}
+                                    <ArrowRight className="w-5 h-5" />
+                                </>
+                            )}
+                        </button>
+                    )}
                 </form>
             </div>
         </div>
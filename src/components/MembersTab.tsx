@@ -1,22 +1,54 @@
-import type { TripMember, Summary } from '../types';
-import { UserPlus, Copy, Check, Crown, Ghost, User } from 'lucide-react';
+import type { TripMember, Summary, ExchangeRateTable, RemainderPolicy, TripStatus } from '../types';
+import { UserPlus, UserMinus, LogOut, Copy, Check, Crown, Ghost, User } from 'lucide-react';
 import { useState } from 'react';
 import { mutationService } from '../services/mutationService';
-import { formatBalance } from '../utils/balanceCalculator';
+import { formatBalance, needsSettlement } from '../utils/balanceCalculator';
+import ExchangeRatesCard from './ExchangeRatesCard';
+import RemainderPolicyCard from './RemainderPolicyCard';
+import ArchiveTripCard from './ArchiveTripCard';
+import StorageCleanupCard from './StorageCleanupCard';
+import RemoveMemberForm from './RemoveMemberForm';
 
 interface MembersTabProps {
     members: TripMember[];
     summary: Summary;
     tripCode: string;
     tripId: string;
+    userId: string;
+    tripStatus: TripStatus;
     isAdmin: boolean;
+    baseCurrency: string;
+    exchangeRates: ExchangeRateTable;
+    remainderPolicy?: RemainderPolicy;
+    onLeft: () => void;     // Called after the current user leaves
 }
 
-export default function MembersTab({ members, summary, tripCode, tripId, isAdmin }: MembersTabProps) {
+export default function MembersTab({
+    members,
+    summary,
+    tripCode,
+    tripId,
+    userId,
+    tripStatus,
+    isAdmin,
+    baseCurrency,
+    exchangeRates,
+    remainderPolicy,
+    onLeft
+}: MembersTabProps) {
     const [copied, setCopied] = useState(false);
     const [showAddGhost, setShowAddGhost] = useState(false);
     const [ghostName, setGhostName] = useState('');
     const [adding, setAdding] = useState(false);
+    const [removingId, setRemovingId] = useState<string | null>(null);
+    const [claimError, setClaimError] = useState<{ memberId: string; message: string } | null>(null);
+
+    // Settings stay visible on a closed trip, but nobody can change them
+    const canEdit = isAdmin && tripStatus !== 'archived';
+
+    // Departed members stay for history but are listed apart
+    const activeMembers = members.filter(m => !m.left_at);
+    const formerMembers = members.filter(m => m.left_at);
 
     const handleCopy = async () => {
         await navigator.clipboard.writeText(tripCode);
@@ -40,6 +72,23 @@ export default function MembersTab({ members, summary, tripCode, tripId, isAdmin
         }
     };
 
+    const handleClaim = async (memberId: string, approve: boolean) => {
+        setClaimError(null);
+        try {
+            if (approve) {
+                await mutationService.approveGhostClaim(tripId, memberId);
+            } else {
+                await mutationService.rejectGhostClaim(tripId, memberId);
+            }
+        } catch (err) {
+            setClaimError({ memberId, message: (err as Error).message || 'Failed to update claim' });
+        }
+    };
+
+    const formatDate = (iso: string) => {
+        return new Date(iso).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+    };
+
     const getRoleIcon = (role: string) => {
         if (role === 'admin') return <Crown className="w-4 h-4 text-amber-500" />;
         if (role === 'ghost') return <Ghost className="w-4 h-4 text-gray-400" />;
@@ -62,10 +111,34 @@ export default function MembersTab({ members, summary, tripCode, tripId, isAdmin
                 </div>
             </div>
 
+            <ExchangeRatesCard
+                tripId={tripId}
+                baseCurrency={baseCurrency}
+                exchangeRates={exchangeRates}
+                isAdmin={canEdit}
+            />
+
+            <RemainderPolicyCard
+                tripId={tripId}
+                policy={remainderPolicy}
+                isAdmin={canEdit}
+            />
+
+            {isAdmin && (
+                <ArchiveTripCard
+                    tripId={tripId}
+                    userId={userId}
+                    status={tripStatus}
+                    isSettled={!needsSettlement(summary.globalBalance)}
+                />
+            )}
+
+            {canEdit && <StorageCleanupCard tripId={tripId} />}
+
             {/* Members List */}
             <div className="flex items-center justify-between mb-3">
-                <h2 className="font-semibold text-gray-900">Members ({members.length})</h2>
-                {isAdmin && (
+                <h2 className="font-semibold text-gray-900">Members ({activeMembers.length})</h2>
+                {canEdit && (
                     <button
                         onClick={() => setShowAddGhost(!showAddGhost)}
                         className="text-violet-600 text-sm font-medium flex items-center gap-1"
@@ -77,7 +150,7 @@ export default function MembersTab({ members, summary, tripCode, tripId, isAdmin
             </div>
 
             {/* Add Ghost Form */}
-            {showAddGhost && (
+            {showAddGhost && canEdit && (
                 <form onSubmit={handleAddGhost} className="bg-gray-100 rounded-xl p-3 mb-4 flex gap-2">
                     <input
                         type="text"
@@ -98,35 +171,120 @@ export default function MembersTab({ members, summary, tripCode, tripId, isAdmin
             )}
 
             <div className="space-y-2">
-                {members.map((member) => {
+                {activeMembers.map((member) => {
                     const balance = summary.globalBalance[member.id] || 0;
+                    const isSelf = member.user_id === userId;
+                    const canRemove = tripStatus !== 'archived' && (isSelf || isAdmin);
 
                     return (
                         <div
                             key={member.id}
-                            className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 flex items-center justify-between"
+                            className="bg-white rounded-xl p-4 shadow-sm border border-gray-100"
                         >
-                            <div className="flex items-center gap-3">
-                                <div className="w-10 h-10 bg-gradient-to-br from-violet-400 to-indigo-500 rounded-full flex items-center justify-center text-white font-semibold">
-                                    {member.display_name.charAt(0).toUpperCase()}
+                            <div className="flex items-center justify-between">
+                                <div className="flex items-center gap-3">
+                                    <div className="w-10 h-10 bg-gradient-to-br from-violet-400 to-indigo-500 rounded-full flex items-center justify-center text-white font-semibold">
+                                        {member.display_name.charAt(0).toUpperCase()}
+                                    </div>
+                                    <div>
+                                        <div className="flex items-center gap-2">
+                                            <span className="font-medium text-gray-900">{member.display_name}</span>
+                                            {getRoleIcon(member.role)}
+                                        </div>
+                                        <span className="text-xs text-gray-500 capitalize">{member.role}</span>
+                                    </div>
                                 </div>
-                                <div>
-                                    <div className="flex items-center gap-2">
-                                        <span className="font-medium text-gray-900">{member.display_name}</span>
-                                        {getRoleIcon(member.role)}
+
+                                <div className="flex items-center gap-2">
+                                    <div className={`text-right font-semibold ${balance > 0 ? 'text-emerald-600' : balance < 0 ? 'text-red-500' : 'text-gray-500'
+                                        }`}>
+                                        {formatBalance(balance)}
                                     </div>
-                                    <span className="text-xs text-gray-500 capitalize">{member.role}</span>
+                                    {canRemove && (
+                                        <button
+                                            onClick={() => setRemovingId(removingId === member.id ? null : member.id)}
+                                            className="p-1.5 text-gray-300 hover:text-red-500 transition-all"
+                                            title={isSelf ? 'Leave trip' : 'Remove member'}
+                                        >
+                                            {isSelf ? <LogOut className="w-4 h-4" /> : <UserMinus className="w-4 h-4" />}
+                                        </button>
+                                    )}
                                 </div>
                             </div>
 
-                            <div className={`text-right font-semibold ${balance > 0 ? 'text-emerald-600' : balance < 0 ? 'text-red-500' : 'text-gray-500'
-                                }`}>
-                                {formatBalance(balance)}
-                            </div>
+                            {/* Pending ghost claim */}
+                            {member.claim && (
+                                <div className="bg-gray-50 rounded-xl p-3 mt-2 space-y-2">
+                                    <p className="text-sm text-gray-700">
+                                        <span className="font-medium">{member.claim.display_name}</span> says this is them.
+                                    </p>
+                                    {claimError?.memberId === member.id && <p className="text-red-500 text-xs">{claimError.message}</p>}
+                                    {canEdit && (
+                                        <div className="flex justify-end gap-2">
+                                            <button
+                                                onClick={() => handleClaim(member.id, false)}
+                                                className="px-4 py-2 rounded-lg text-sm font-medium text-gray-600"
+                                            >
+                                                Reject
+                                            </button>
+                                            <button
+                                                onClick={() => handleClaim(member.id, true)}
+                                                className="bg-violet-600 text-white px-4 py-2 rounded-lg text-sm font-medium"
+                                            >
+                                                Approve
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
+                            {removingId === member.id && (
+                                <RemoveMemberForm
+                                    tripId={tripId}
+                                    userId={userId}
+                                    member={member}
+                                    others={activeMembers.filter(m => m.id !== member.id)}
+                                    balance={balance}
+                                    currency={baseCurrency}
+                                    isSelf={isSelf}
+                                    onRemoved={() => {
+                                        setRemovingId(null);
+                                        if (isSelf) onLeft();
+                                    }}
+                                    onCancel={() => setRemovingId(null)}
+                                />
+                            )}
                         </div>
                     );
                 })}
             </div>
+
+            {formerMembers.length > 0 && (
+                <>
+                    <h2 className="font-semibold text-gray-900 mt-6 mb-3">Former members ({formerMembers.length})</h2>
+                    <div className="space-y-2">
+                        {formerMembers.map((member) => (
+                            <div
+                                key={member.id}
+                                className="bg-gray-50 rounded-xl p-4 border border-dashed border-gray-200 flex items-center justify-between opacity-75"
+                            >
+                                <div className="flex items-center gap-3">
+                                    <div className="w-10 h-10 bg-gray-200 rounded-full flex items-center justify-center text-gray-500 font-semibold">
+                                        {member.display_name.charAt(0).toUpperCase()}
+                                    </div>
+                                    <div>
+                                        <span className="font-medium text-gray-500 line-through">{member.display_name}</span>
+                                        <p className="text-xs text-gray-400">
+                                            {member.removed_by ? 'Removed' : 'Left'} {formatDate(member.left_at!)}
+                                        </p>
+                                    </div>
+                                </div>
+                                <span className="text-xs text-gray-400">History kept</span>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
         </div>
     );
 }
@@ -0,0 +1,67 @@
+import type { TripOverview } from '../hooks/useMyTrips';
+import { ChevronRight, Clock, Archive } from 'lucide-react';
+import { getMinorUnitExponent } from '../utils/currency';
+
+interface MyTripsProps {
+    trips: TripOverview[];
+    onTripSelect: (tripId: string) => void;
+}
+
+export default function MyTrips({ trips, onTripSelect }: MyTripsProps) {
+    const formatAmount = (amount: number, currency: string) => {
+        const digits = getMinorUnitExponent(currency);
+        return new Intl.NumberFormat('en-IN', {
+            style: 'currency',
+            currency,
+            minimumFractionDigits: digits,
+            maximumFractionDigits: digits,
+        }).format(amount);
+    };
+
+    const formatDate = (iso: string) => {
+        return new Date(iso).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+    };
+
+    return (
+        <div className="space-y-3">
+            <h2 className="text-white/80 text-xs uppercase tracking-wider font-semibold">My trips</h2>
+
+            {trips.map(({ trip, totalSpent, myBalance, lastActivity }) => {
+                const rounded = Math.round(myBalance);
+                return (
+                    <button
+                        key={trip.id}
+                        onClick={() => onTripSelect(trip.id)}
+                        className="w-full bg-white rounded-2xl p-4 shadow-lg text-left flex items-center gap-3 transition-all active:scale-[0.98]"
+                    >
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                                <h3 className="font-semibold text-gray-900 truncate">{trip.name}</h3>
+                                {trip.status === 'archived' && (
+                                    <Archive className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />
+                                )}
+                            </div>
+                            <p className="text-sm text-gray-500">
+                                {formatAmount(totalSpent, trip.currency)} spent
+                            </p>
+                            <p className="text-xs text-gray-400 flex items-center gap-1 mt-0.5">
+                                <Clock className="w-3 h-3" />
+                                Last activity {formatDate(lastActivity)}
+                            </p>
+                        </div>
+
+                        <div className="text-right flex-shrink-0">
+                            <p className={`font-semibold ${rounded > 0 ? 'text-emerald-600' : rounded < 0 ? 'text-red-500' : 'text-gray-400'}`}>
+                                {rounded === 0 ? 'Settled' : formatAmount(Math.abs(rounded), trip.currency)}
+                            </p>
+                            {rounded !== 0 && (
+                                <p className="text-xs text-gray-400">{rounded > 0 ? 'you get back' : 'you owe'}</p>
+                            )}
+                        </div>
+                        <ChevronRight className="w-5 h-5 text-gray-300 flex-shrink-0" />
+                    </button>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,109 @@
+import type { PaymentMethod, SettlementTransaction } from '../types';
+import { useState } from 'react';
+import { mutationService } from '../services/mutationService';
+
+interface RecordPaymentFormProps {
+    tripId: string;
+    userId: string;
+    transaction: SettlementTransaction;
+    onDone: () => void;
+}
+
+const paymentMethods: { id: PaymentMethod; label: string }[] = [
+    { id: 'cash', label: 'Cash' },
+    { id: 'upi', label: 'UPI' },
+    { id: 'bank_transfer', label: 'Bank Transfer' },
+    { id: 'card', label: 'Card' },
+    { id: 'other', label: 'Other' },
+];
+
+export default function RecordPaymentForm({ tripId, userId, transaction, onDone }: RecordPaymentFormProps) {
+    const [amount, setAmount] = useState(String(transaction.amount));
+    const [method, setMethod] = useState<PaymentMethod>('cash');
+    const [note, setNote] = useState('');
+    const [paymentDate, setPaymentDate] = useState(() => new Date().toISOString().split('T')[0]);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        const amountNum = parseFloat(amount);
+        if (!(amountNum > 0)) { setError('Please enter a valid amount'); return; }
+
+        setSaving(true);
+        try {
+            await mutationService.recordPayment({
+                trip_id: tripId,
+                from: transaction.from,
+                to: transaction.to,
+                amount: amountNum,
+                method,
+                note,
+                payment_date: paymentDate,
+            }, userId);
+            onDone();
+        } catch (err) {
+            setError((err as Error).message || 'Failed to record payment');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="bg-gray-50 rounded-xl p-3 mt-3 space-y-2">
+            <div className="flex gap-2">
+                <input
+                    type="number"
+                    step="any"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 rounded-lg border-0 focus:ring-2 focus:ring-violet-500 text-sm"
+                    title="Amount paid"
+                />
+                <select
+                    value={method}
+                    onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                    className="px-2 py-2 rounded-lg border-0 focus:ring-2 focus:ring-violet-500 text-sm bg-white"
+                >
+                    {paymentMethods.map(m => (
+                        <option key={m.id} value={m.id}>{m.label}</option>
+                    ))}
+                </select>
+            </div>
+            <div className="flex gap-2">
+                <input
+                    type="date"
+                    value={paymentDate}
+                    onChange={(e) => setPaymentDate(e.target.value)}
+                    className="px-3 py-2 rounded-lg border-0 focus:ring-2 focus:ring-violet-500 text-sm"
+                />
+                <input
+                    type="text"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="Note (optional)"
+                    className="flex-1 min-w-0 px-3 py-2 rounded-lg border-0 focus:ring-2 focus:ring-violet-500 text-sm"
+                />
+            </div>
+            {error && <p className="text-red-500 text-xs">{error}</p>}
+            <div className="flex justify-end gap-2">
+                <button
+                    type="button"
+                    onClick={onDone}
+                    className="px-4 py-2 rounded-lg text-sm font-medium text-gray-600"
+                >
+                    Cancel
+                </button>
+                <button
+                    type="submit"
+                    disabled={saving}
+                    className="bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+                >
+                    {saving ? 'Saving...' : 'Confirm Payment'}
+                </button>
+            </div>
+        </form>
+    );
+}
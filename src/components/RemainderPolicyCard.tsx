@@ -0,0 +1,62 @@
+import type { RemainderPolicy } from '../types';
+import { Scale } from 'lucide-react';
+import { useState } from 'react';
+import { mutationService } from '../services/mutationService';
+import { DEFAULT_REMAINDER_POLICY } from '../utils/remainder';
+
+interface RemainderPolicyCardProps {
+    tripId: string;
+    policy?: RemainderPolicy;
+    isAdmin: boolean;
+}
+
+const policies: { id: RemainderPolicy; label: string; hint: string }[] = [
+    { id: 'largest_remainder', label: 'Fairest', hint: 'Rounding leftovers go to whoever is owed them most across the trip' },
+    { id: 'rotating', label: 'Rotate', hint: 'Like Fairest, but ties rotate from expense to expense' },
+    { id: 'payer', label: 'Payer', hint: 'Whoever paid absorbs the rounding leftovers' },
+];
+
+export default function RemainderPolicyCard({ tripId, policy = DEFAULT_REMAINDER_POLICY, isAdmin }: RemainderPolicyCardProps) {
+    const [saving, setSaving] = useState(false);
+
+    const handleChange = async (newPolicy: RemainderPolicy) => {
+        if (newPolicy === policy) return;
+
+        setSaving(true);
+        try {
+            await mutationService.updateTrip(tripId, { remainder_policy: newPolicy });
+        } catch (err) {
+            console.error('Failed to update remainder policy:', err);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const current = policies.find(p => p.id === policy) || policies[0];
+
+    return (
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 mb-6">
+            <div className="flex items-center gap-2 mb-3">
+                <Scale className="w-4 h-4 text-violet-500" />
+                <h2 className="font-semibold text-gray-900">Rounding</h2>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+                {policies.map(p => (
+                    <button
+                        key={p.id}
+                        onClick={() => handleChange(p.id)}
+                        disabled={!isAdmin || saving}
+                        className={`py-2 rounded-lg text-sm font-medium transition-all ${policy === p.id
+                            ? 'bg-violet-600 text-white'
+                            : 'bg-gray-100 text-gray-600 disabled:opacity-50'
+                            }`}
+                    >
+                        {p.label}
+                    </button>
+                ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">{current.hint}</p>
+        </div>
+    );
+}
@@ -0,0 +1,115 @@
+import type { TripMember } from '../types';
+import { useState } from 'react';
+import { mutationService } from '../services/mutationService';
+import { getMinorUnitExponent, roundToMinorUnit } from '../utils/currency';
+
+interface RemoveMemberFormProps {
+    tripId: string;
+    userId: string;
+    member: TripMember;
+    others: TripMember[];   // Active members who could take the balance over
+    balance: number;        // Member's global balance (base currency)
+    currency: string;
+    isSelf: boolean;        // Leaving rather than removing someone
+    onRemoved: () => void;
+    onCancel: () => void;
+}
+
+export default function RemoveMemberForm({
+    tripId,
+    userId,
+    member,
+    others,
+    balance,
+    currency,
+    isSelf,
+    onRemoved,
+    onCancel
+}: RemoveMemberFormProps) {
+    const [transferTo, setTransferTo] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const rounded = roundToMinorUnit(balance, currency);
+    const hasBalance = rounded !== 0;
+
+    const formatAmount = (amount: number) => {
+        const digits = getMinorUnitExponent(currency);
+        return new Intl.NumberFormat('en-IN', {
+            style: 'currency',
+            currency,
+            minimumFractionDigits: digits,
+            maximumFractionDigits: digits,
+        }).format(amount);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        if (hasBalance && !transferTo) { setError('Choose who takes the balance over'); return; }
+
+        setSaving(true);
+        try {
+            if (isSelf) {
+                await mutationService.leaveTrip(tripId, member.id, userId, transferTo || undefined);
+            } else {
+                await mutationService.removeMember(tripId, member.id, userId, transferTo || undefined);
+            }
+            onRemoved();
+        } catch (err) {
+            setError((err as Error).message || 'Failed to remove member');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const name = isSelf ? 'You' : member.display_name;
+
+    return (
+        <form onSubmit={handleSubmit} className="bg-gray-50 rounded-xl p-3 mt-2 space-y-2">
+            {hasBalance ? (
+                <>
+                    <p className="text-sm text-gray-700">
+                        {rounded < 0
+                            ? `${name} still owe${isSelf ? '' : 's'} ${formatAmount(-rounded)}.`
+                            : `${name} ${isSelf ? 'are' : 'is'} still owed ${formatAmount(rounded)}.`}
+                        {' '}Settle up first, or hand the balance to someone who stays.
+                    </p>
+                    <select
+                        value={transferTo}
+                        onChange={(e) => setTransferTo(e.target.value)}
+                        className="w-full px-2 py-2 rounded-lg border-0 focus:ring-2 focus:ring-violet-500 text-sm bg-white"
+                    >
+                        <option value="">Transfer balance to...</option>
+                        {others.map(m => (
+                            <option key={m.id} value={m.id}>{m.display_name}</option>
+                        ))}
+                    </select>
+                </>
+            ) : (
+                <p className="text-sm text-gray-700">
+                    {isSelf
+                        ? 'Leave this trip? Your past expenses stay in the history.'
+                        : `Remove ${member.display_name}? Their past expenses stay in the history.`}
+                </p>
+            )}
+            {error && <p className="text-red-500 text-xs">{error}</p>}
+            <div className="flex justify-end gap-2">
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="px-4 py-2 rounded-lg text-sm font-medium text-gray-600"
+                >
+                    Cancel
+                </button>
+                <button
+                    type="submit"
+                    disabled={saving || (hasBalance && others.length === 0)}
+                    className="bg-red-500 text-white px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+                >
+                    {saving ? 'Saving...' : hasBalance ? `Transfer & ${isSelf ? 'leave' : 'remove'}` : isSelf ? 'Leave trip' : 'Remove'}
+                </button>
+            </div>
+        </form>
+    );
+}
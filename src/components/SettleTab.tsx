@@ -1,17 +1,75 @@
-import type { TripMember, Summary, SettlementFilterType } from '../types';
-import { useState } from 'react';
-import { calculateSettlements, SETTLEMENT_ALGORITHM_VERSION } from '../utils/settlement';
-import { ArrowRight, Wallet, Filter } from 'lucide-react';
+import type {
+    TripMember,
+    Summary,
+    SettlementFilterType,
+    Payment,
+    PaymentMethod,
+    SettlementSnapshot,
+    SettlementConstraints
+} from '../types';
+import { useState, useMemo } from 'react';
+import { calculateSettlements, createSettlementSnapshot, SETTLEMENT_ALGORITHM_VERSION } from '../utils/settlement';
+import { ArrowRight, Wallet, Filter, CheckCircle2, Trash2, Flag, AlertTriangle } from 'lucide-react';
+import { mutationService } from '../services/mutationService';
+import RecordPaymentForm from './RecordPaymentForm';
+import SettlementHistory from './SettlementHistory';
+import SettlementConstraintsCard from './SettlementConstraintsCard';
+import { getMinorUnitExponent } from '../utils/currency';
 
 interface SettleTabProps {
     members: TripMember[];
     summary: Summary;
     tripId: string;
     userId: string;
+    currency: string;      // Trip base currency; balances are already converted
+    payments: Payment[];
+    settlements: SettlementSnapshot[];
+    constraints?: SettlementConstraints;
+    isAdmin: boolean;
+    readOnly?: boolean;    // Closed trip: no payments or settle-ups
 }
 
-export default function SettleTab({ members, summary }: SettleTabProps) {
+const methodLabels: Record<PaymentMethod, string> = {
+    cash: 'Cash',
+    upi: 'UPI',
+    bank_transfer: 'Bank Transfer',
+    card: 'Card',
+    other: 'Other',
+};
+
+export default function SettleTab({
+    members,
+    summary,
+    tripId,
+    userId,
+    currency,
+    payments,
+    settlements,
+    constraints,
+    isAdmin,
+    readOnly = false
+}: SettleTabProps) {
     const [filter, setFilter] = useState<SettlementFilterType>('all');
+    const [payingKey, setPayingKey] = useState<string | null>(null);
+    const [deletingId, setDeletingId] = useState<string | null>(null);
+    const [finalizing, setFinalizing] = useState(false);
+
+    const getMemberName = (memberId: string) => {
+        return members.find(m => m.id === memberId)?.display_name || 'Unknown';
+    };
+
+    const handleDeletePayment = async (paymentId: string) => {
+        if (!confirm('Delete this payment? Balances will go back to unpaid.')) return;
+
+        setDeletingId(paymentId);
+        try {
+            await mutationService.deletePayment(tripId, paymentId);
+        } catch (err) {
+            console.error('Failed to delete payment:', err);
+        } finally {
+            setDeletingId(null);
+        }
+    };
 
     // Get the appropriate balance based on filter
     const balances = filter === 'all'
@@ -20,14 +78,44 @@ export default function SettleTab({ members, summary }: SettleTabProps) {
             ? summary.majorBalance
             : summary.dailyBalance;
 
-    // Calculate settlements
-    const transactions = calculateSettlements(balances, members);
+    // Calculate settlements (the exact solver is exponential, so only when inputs change).
+    // Rules that cannot be met fall back to the unconstrained plan with a warning.
+    const { transactions, constraintError } = useMemo(() => {
+        try {
+            return {
+                transactions: calculateSettlements(balances, members, { currency, constraints }),
+                constraintError: ''
+            };
+        } catch (err) {
+            return {
+                transactions: calculateSettlements(balances, members, { currency }),
+                constraintError: (err as Error).message
+            };
+        }
+    }, [balances, members, currency, constraints]);
+
+    const handleFinalize = async () => {
+        if (!confirm('Save this settle-up to the history?')) return;
+
+        setFinalizing(true);
+        try {
+            await mutationService.finalizeSettlement(
+                createSettlementSnapshot(tripId, filter, transactions, userId, balances, currency)
+            );
+        } catch (err) {
+            console.error('Failed to finalize settle-up:', err);
+        } finally {
+            setFinalizing(false);
+        }
+    };
 
     const formatAmount = (amount: number) => {
+        const digits = getMinorUnitExponent(currency);
         return new Intl.NumberFormat('en-IN', {
             style: 'currency',
-            currency: 'INR',
-            maximumFractionDigits: 0,
+            currency,
+            minimumFractionDigits: digits,
+            maximumFractionDigits: digits,
         }).format(amount);
     };
 
@@ -47,9 +135,24 @@ export default function SettleTab({ members, summary }: SettleTabProps) {
                 </select>
             </div>
 
+            <SettlementConstraintsCard
+                tripId={tripId}
+                members={members}
+                constraints={constraints}
+                isAdmin={isAdmin && !readOnly}
+            />
+
+            {constraintError && (
+                <div className="bg-amber-50 border border-amber-200 rounded-xl p-3 mb-4 flex items-start gap-2 text-sm text-amber-700">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span>{constraintError}. Showing payments without your rules.</span>
+                </div>
+            )}
+
             {/* Transactions */}
             <h2 className="font-semibold text-gray-900 mb-3">
                 Payments to Settle ({transactions.length})
+                <span className="text-xs font-normal text-gray-500 ml-2">in {currency}</span>
             </h2>
 
             {transactions.length === 0 ? (
@@ -62,45 +165,125 @@ export default function SettleTab({ members, summary }: SettleTabProps) {
                 </div>
             ) : (
                 <div className="space-y-3">
-                    {transactions.map((tx, i) => (
-                        <div
-                            key={i}
-                            className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100"
-                        >
-                            <div className="flex items-center justify-between">
-                                <div className="flex items-center gap-3 flex-1">
-                                    {/* From */}
-                                    <div className="flex items-center gap-2">
-                                        <div className="w-10 h-10 bg-red-100 rounded-full flex items-center justify-center text-red-600 font-semibold">
-                                            {tx.fromName.charAt(0).toUpperCase()}
+                    {transactions.map((tx) => {
+                        const txKey = `${tx.from}-${tx.to}`;
+                        return (
+                            <div
+                                key={txKey}
+                                className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100"
+                            >
+                                <div className="flex items-center justify-between">
+                                    <div className="flex items-center gap-3 flex-1">
+                                        {/* From */}
+                                        <div className="flex items-center gap-2">
+                                            <div className="w-10 h-10 bg-red-100 rounded-full flex items-center justify-center text-red-600 font-semibold">
+                                                {tx.fromName.charAt(0).toUpperCase()}
+                                            </div>
+                                            <span className="font-medium text-gray-900">{tx.fromName}</span>
                                         </div>
-                                        <span className="font-medium text-gray-900">{tx.fromName}</span>
-                                    </div>
 
-                                    {/* Arrow */}
-                                    <ArrowRight className="w-5 h-5 text-gray-400 flex-shrink-0" />
+                                        {/* Arrow */}
+                                        <ArrowRight className="w-5 h-5 text-gray-400 flex-shrink-0" />
 
-                                    {/* To */}
-                                    <div className="flex items-center gap-2">
-                                        <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center text-emerald-600 font-semibold">
-                                            {tx.toName.charAt(0).toUpperCase()}
+                                        {/* To */}
+                                        <div className="flex items-center gap-2">
+                                            <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center text-emerald-600 font-semibold">
+                                                {tx.toName.charAt(0).toUpperCase()}
+                                            </div>
+                                            <span className="font-medium text-gray-900">{tx.toName}</span>
                                         </div>
-                                        <span className="font-medium text-gray-900">{tx.toName}</span>
                                     </div>
-                                </div>
 
-                                {/* Amount */}
-                                <div className="text-right">
-                                    <p className="font-bold text-lg text-gray-900">
-                                        {formatAmount(tx.amount)}
-                                    </p>
+                                    {/* Amount */}
+                                    <div className="text-right">
+                                        <p className="font-bold text-lg text-gray-900">
+                                            {formatAmount(tx.amount)}
+                                        </p>
+                                        {/* Payments settle the overall balance, so only offer it there */}
+                                        {filter === 'all' && !readOnly && payingKey !== txKey && (
+                                            <button
+                                                onClick={() => setPayingKey(txKey)}
+                                                className="text-emerald-600 text-sm font-medium flex items-center gap-1 ml-auto"
+                                            >
+                                                <CheckCircle2 className="w-4 h-4" />
+                                                Mark as paid
+                                            </button>
+                                        )}
+                                    </div>
                                 </div>
+
+                                {payingKey === txKey && (
+                                    <RecordPaymentForm
+                                        tripId={tripId}
+                                        userId={userId}
+                                        transaction={tx}
+                                        onDone={() => setPayingKey(null)}
+                                    />
+                                )}
                             </div>
-                        </div>
-                    ))}
+                        );
+                    })}
                 </div>
             )}
 
+            {transactions.length > 0 && !readOnly && (
+                <button
+                    onClick={handleFinalize}
+                    disabled={finalizing}
+                    className="w-full mt-4 py-3 rounded-xl border-2 border-dashed border-violet-200 text-violet-600 text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                    <Flag className="w-4 h-4" />
+                    {finalizing ? 'Saving...' : 'Finalize settle-up'}
+                </button>
+            )}
+
+            {/* Recorded Payments */}
+            {payments.length > 0 && (
+                <div className="mt-8">
+                    <h2 className="font-semibold text-gray-900 mb-3">
+                        Recorded Payments ({payments.length})
+                    </h2>
+                    <div className="space-y-2">
+                        {[...payments]
+                            .sort((a, b) => b.payment_date.localeCompare(a.payment_date) || b.created_at.localeCompare(a.created_at))
+                            .map(payment => (
+                                <div
+                                    key={payment.id}
+                                    className="bg-white rounded-xl p-3 shadow-sm border border-gray-100 flex items-center gap-3"
+                                >
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-medium text-gray-900 truncate">
+                                            {getMemberName(payment.from)} paid {getMemberName(payment.to)}
+                                        </p>
+                                        <p className="text-xs text-gray-500 truncate">
+                                            {payment.payment_date} · {methodLabels[payment.method] || payment.method}
+                                            {payment.note && ` · ${payment.note}`}
+                                        </p>
+                                    </div>
+                                    <p className="font-semibold text-emerald-600">{formatAmount(payment.amount)}</p>
+                                    {(payment.created_by === userId || isAdmin) && !readOnly && (
+                                        <button
+                                            onClick={() => handleDeletePayment(payment.id)}
+                                            disabled={deletingId === payment.id}
+                                            className="p-1 text-gray-400 hover:text-red-500"
+                                            title="Delete payment"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                    </div>
+                </div>
+            )}
+
+            <SettlementHistory
+                snapshots={settlements}
+                members={members}
+                summary={summary}
+                currency={currency}
+            />
+
             {/* Algorithm Info */}
             <p className="text-center text-gray-400 text-xs mt-6">
                 Optimized with Min-Cash-Flow v{SETTLEMENT_ALGORITHM_VERSION}
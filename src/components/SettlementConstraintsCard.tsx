@@ -0,0 +1,241 @@
+import type { TripMember, MemberPair, SettlementConstraints } from '../types';
+import { useState } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronUp, Plus, X } from 'lucide-react';
+import { mutationService } from '../services/mutationService';
+import { generateUUID } from '../utils/syncUtils';
+
+interface SettlementConstraintsCardProps {
+    tripId: string;
+    members: TripMember[];
+    constraints?: SettlementConstraints;
+    isAdmin: boolean;
+}
+
+type PairKind = 'forbidden_pairs' | 'preferred_pairs';
+
+const pairSections: { kind: PairKind; label: string; hint: string; joiner: string }[] = [
+    { kind: 'forbidden_pairs', label: 'Never pay directly', hint: 'e.g. no shared payment app', joiner: '✕' },
+    { kind: 'preferred_pairs', label: 'Settle with each other first', hint: 'Used before anyone else', joiner: '⇄' },
+];
+
+export default function SettlementConstraintsCard({
+    tripId,
+    members,
+    constraints,
+    isAdmin
+}: SettlementConstraintsCardProps) {
+    const [expanded, setExpanded] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [draftPairs, setDraftPairs] = useState<Record<PairKind, MemberPair>>({
+        forbidden_pairs: { member_a: '', member_b: '' },
+        preferred_pairs: { member_a: '', member_b: '' },
+    });
+    const [groupName, setGroupName] = useState('');
+    const [groupMemberIds, setGroupMemberIds] = useState<string[]>([]);
+
+    const current: SettlementConstraints = {
+        forbidden_pairs: constraints?.forbidden_pairs || [],
+        preferred_pairs: constraints?.preferred_pairs || [],
+        groups: constraints?.groups || [],
+    };
+    const ruleCount = current.forbidden_pairs.length + current.preferred_pairs.length + current.groups.length;
+
+    const getMemberName = (memberId: string) => {
+        return members.find(m => m.id === memberId)?.display_name || 'Unknown';
+    };
+
+    const save = async (next: SettlementConstraints) => {
+        setSaving(true);
+        try {
+            await mutationService.updateTrip(tripId, { settlement_constraints: next });
+        } catch (err) {
+            console.error('Failed to update settlement rules:', err);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const addPair = (kind: PairKind) => {
+        const { member_a, member_b } = draftPairs[kind];
+        if (!member_a || !member_b || member_a === member_b) return;
+
+        const exists = current[kind].some(p =>
+            (p.member_a === member_a && p.member_b === member_b) ||
+            (p.member_a === member_b && p.member_b === member_a)
+        );
+        if (!exists) {
+            save({ ...current, [kind]: [...current[kind], { member_a, member_b }] });
+        }
+        setDraftPairs(prev => ({ ...prev, [kind]: { member_a: '', member_b: '' } }));
+    };
+
+    const removePair = (kind: PairKind, index: number) => {
+        save({ ...current, [kind]: current[kind].filter((_, i) => i !== index) });
+    };
+
+    // A member can only be in one group
+    const groupedIds = new Set(current.groups.flatMap(g => g.member_ids));
+
+    const toggleGroupMember = (memberId: string) => {
+        setGroupMemberIds(prev => prev.includes(memberId)
+            ? prev.filter(id => id !== memberId)
+            : [...prev, memberId]);
+    };
+
+    const addGroup = () => {
+        if (groupMemberIds.length < 2) return;
+
+        save({
+            ...current,
+            groups: [...current.groups, {
+                id: generateUUID(),
+                name: groupName.trim() || groupMemberIds.map(getMemberName).join(' & '),
+                member_ids: groupMemberIds,
+            }]
+        });
+        setGroupName('');
+        setGroupMemberIds([]);
+    };
+
+    const removeGroup = (groupId: string) => {
+        save({ ...current, groups: current.groups.filter(g => g.id !== groupId) });
+    };
+
+    return (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 mb-4">
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="w-full flex items-center gap-2 p-3 text-left"
+            >
+                <SlidersHorizontal className="w-4 h-4 text-violet-500" />
+                <span className="font-medium text-gray-900 text-sm flex-1">
+                    Payment rules {ruleCount > 0 && <span className="text-gray-500 font-normal">({ruleCount})</span>}
+                </span>
+                {expanded ? <ChevronUp className="w-4 h-4 text-gray-400" /> : <ChevronDown className="w-4 h-4 text-gray-400" />}
+            </button>
+
+            {expanded && (
+                <div className="px-3 pb-3 space-y-4">
+                    {pairSections.map(({ kind, label, hint, joiner }) => (
+                        <div key={kind}>
+                            <p className="text-xs font-semibold text-gray-700">{label}</p>
+                            <p className="text-xs text-gray-400 mb-2">{hint}</p>
+
+                            <div className="flex flex-wrap gap-1.5 mb-2">
+                                {current[kind].map((pair, index) => (
+                                    <span
+                                        key={`${pair.member_a}-${pair.member_b}`}
+                                        className="bg-gray-100 rounded-full pl-3 pr-1 py-1 text-xs text-gray-700 flex items-center gap-1"
+                                    >
+                                        {getMemberName(pair.member_a)} {joiner} {getMemberName(pair.member_b)}
+                                        {isAdmin && (
+                                            <button
+                                                onClick={() => removePair(kind, index)}
+                                                disabled={saving}
+                                                className="p-0.5 text-gray-400 hover:text-red-500"
+                                                title="Remove rule"
+                                            >
+                                                <X className="w-3 h-3" />
+                                            </button>
+                                        )}
+                                    </span>
+                                ))}
+                            </div>
+
+                            {isAdmin && (
+                                <div className="flex gap-2">
+                                    {(['member_a', 'member_b'] as const).map(side => (
+                                        <select
+                                            key={side}
+                                            value={draftPairs[kind][side]}
+                                            onChange={(e) => setDraftPairs(prev => ({
+                                                ...prev,
+                                                [kind]: { ...prev[kind], [side]: e.target.value }
+                                            }))}
+                                            className="flex-1 min-w-0 bg-white border border-gray-200 rounded-lg px-2 py-1.5 text-sm"
+                                        >
+                                            <option value="">Member</option>
+                                            {members.map(m => (
+                                                <option key={m.id} value={m.id}>{m.display_name}</option>
+                                            ))}
+                                        </select>
+                                    ))}
+                                    <button
+                                        onClick={() => addPair(kind)}
+                                        disabled={saving}
+                                        className="p-2 rounded-lg bg-violet-100 text-violet-600 disabled:opacity-50"
+                                        title="Add rule"
+                                    >
+                                        <Plus className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+
+                    <div>
+                        <p className="text-xs font-semibold text-gray-700">Settle as one</p>
+                        <p className="text-xs text-gray-400 mb-2">Couples or families pay and get paid together</p>
+
+                        <div className="space-y-1.5 mb-2">
+                            {current.groups.map(group => (
+                                <div key={group.id} className="bg-gray-100 rounded-lg px-3 py-1.5 text-xs text-gray-700 flex items-center gap-2">
+                                    <span className="font-medium">{group.name}</span>
+                                    <span className="text-gray-500 flex-1 truncate">
+                                        {group.member_ids.map(getMemberName).join(', ')}
+                                    </span>
+                                    {isAdmin && (
+                                        <button
+                                            onClick={() => removeGroup(group.id)}
+                                            disabled={saving}
+                                            className="p-0.5 text-gray-400 hover:text-red-500"
+                                            title="Remove group"
+                                        >
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+
+                        {isAdmin && (
+                            <div className="space-y-2">
+                                <div className="flex flex-wrap gap-1.5">
+                                    {members.filter(m => !groupedIds.has(m.id)).map(member => (
+                                        <button
+                                            key={member.id}
+                                            onClick={() => toggleGroupMember(member.id)}
+                                            className={`px-2.5 py-1 rounded-full text-xs font-medium transition-all ${groupMemberIds.includes(member.id)
+                                                ? 'bg-violet-600 text-white'
+                                                : 'bg-gray-100 text-gray-600'
+                                                }`}
+                                        >
+                                            {member.display_name}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="flex gap-2">
+                                    <input
+                                        type="text"
+                                        value={groupName}
+                                        onChange={(e) => setGroupName(e.target.value)}
+                                        placeholder="Group name (optional)"
+                                        className="flex-1 min-w-0 bg-white border border-gray-200 rounded-lg px-2 py-1.5 text-sm"
+                                    />
+                                    <button
+                                        onClick={addGroup}
+                                        disabled={saving || groupMemberIds.length < 2}
+                                        className="p-2 rounded-lg bg-violet-100 text-violet-600 disabled:opacity-50"
+                                        title="Add group"
+                                    >
+                                        <Plus className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,137 @@
+import type { TripMember, Summary, SettlementSnapshot, SettlementFilterType } from '../types';
+import { useState } from 'react';
+import { History, ChevronDown, ChevronUp } from 'lucide-react';
+import { diffSnapshotBalances } from '../utils/settlement';
+import { getMinorUnitExponent } from '../utils/currency';
+
+interface SettlementHistoryProps {
+    snapshots: SettlementSnapshot[];
+    members: TripMember[];
+    summary: Summary;
+    currency: string;
+}
+
+const filterLabels: Record<SettlementFilterType, string> = {
+    all: 'All Expenses',
+    major: 'Major Only',
+    daily: 'Daily Only',
+};
+
+export default function SettlementHistory({ snapshots, members, summary, currency }: SettlementHistoryProps) {
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const getMemberName = (memberId: string) => {
+        return members.find(m => m.id === memberId)?.display_name || 'Unknown';
+    };
+
+    const getUserName = (userId: string) => {
+        return members.find(m => m.user_id === userId)?.display_name || 'Unknown';
+    };
+
+    // Diff against the balances for the same filter the snapshot was taken with
+    const getCurrentBalances = (filterType: SettlementFilterType) => {
+        return filterType === 'all'
+            ? summary.globalBalance
+            : filterType === 'major'
+                ? summary.majorBalance
+                : summary.dailyBalance;
+    };
+
+    const formatAmount = (amount: number, snapshotCurrency: string) => {
+        const code = snapshotCurrency || currency;
+        const digits = getMinorUnitExponent(code);
+        return new Intl.NumberFormat('en-IN', {
+            style: 'currency',
+            currency: code,
+            minimumFractionDigits: digits,
+            maximumFractionDigits: digits,
+        }).format(amount);
+    };
+
+    const formatDate = (iso: string) => {
+        return new Date(iso).toLocaleString('en-IN', {
+            day: 'numeric',
+            month: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
+    if (snapshots.length === 0) return null;
+
+    return (
+        <div className="mt-8">
+            <h2 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
+                <History className="w-4 h-4 text-gray-400" />
+                Settle-up History ({snapshots.length})
+            </h2>
+            <div className="space-y-2">
+                {[...snapshots]
+                    .sort((a, b) => b.generated_at.localeCompare(a.generated_at))
+                    .map(snapshot => {
+                        const isExpanded = expandedId === snapshot.id;
+                        const diffs = isExpanded
+                            ? diffSnapshotBalances(snapshot, getCurrentBalances(snapshot.filter_type))
+                            : [];
+
+                        return (
+                            <div
+                                key={snapshot.id}
+                                className="bg-white rounded-xl p-3 shadow-sm border border-gray-100"
+                            >
+                                <button
+                                    onClick={() => setExpandedId(isExpanded ? null : snapshot.id)}
+                                    className="w-full flex items-center gap-3 text-left"
+                                >
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-medium text-gray-900 truncate">
+                                            {formatDate(snapshot.generated_at)} · {snapshot.transactions.length} payments
+                                        </p>
+                                        <p className="text-xs text-gray-500 truncate">
+                                            {filterLabels[snapshot.filter_type] || snapshot.filter_type} · by {getUserName(snapshot.generated_by)} · v{snapshot.algorithm_version}
+                                        </p>
+                                    </div>
+                                    {isExpanded
+                                        ? <ChevronUp className="w-4 h-4 text-gray-400" />
+                                        : <ChevronDown className="w-4 h-4 text-gray-400" />}
+                                </button>
+
+                                {isExpanded && (
+                                    <div className="mt-3 pt-3 border-t border-gray-100 space-y-3">
+                                        <div className="space-y-1">
+                                            {snapshot.transactions.map(tx => (
+                                                <div key={`${tx.from}-${tx.to}`} className="flex justify-between text-xs text-gray-600">
+                                                    <span>{tx.fromName} → {tx.toName}</span>
+                                                    <span className="font-medium">{formatAmount(tx.amount, snapshot.currency)}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+
+                                        <div>
+                                            <p className="text-xs font-semibold text-gray-500 uppercase mb-1">Since then</p>
+                                            {diffs.length === 0 ? (
+                                                <p className="text-xs text-gray-500">No balance changes</p>
+                                            ) : (
+                                                <div className="space-y-1">
+                                                    {diffs.map(diff => (
+                                                        <div key={diff.memberId} className="flex justify-between text-xs">
+                                                            <span className="text-gray-600">
+                                                                {getMemberName(diff.memberId)}: {formatAmount(diff.before, snapshot.currency)} → {formatAmount(diff.after, snapshot.currency)}
+                                                            </span>
+                                                            <span className={`font-medium ${diff.change > 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                                                                {diff.change > 0 ? '+' : ''}{formatAmount(diff.change, snapshot.currency)}
+                                                            </span>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+            </div>
+        </div>
+    );
+}
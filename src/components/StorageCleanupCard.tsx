@@ -0,0 +1,50 @@
+import { Eraser } from 'lucide-react';
+import { useState } from 'react';
+import { cleanOrphanedSplits } from '../services/maintenanceService';
+
+interface StorageCleanupCardProps {
+    tripId: string;
+}
+
+export default function StorageCleanupCard({ tripId }: StorageCleanupCardProps) {
+    const [cleaning, setCleaning] = useState(false);
+    const [result, setResult] = useState<string | null>(null);
+
+    const handleClean = async () => {
+        setCleaning(true);
+        setResult(null);
+        try {
+            const removed = await cleanOrphanedSplits(tripId);
+            setResult(removed > 0
+                ? `Removed ${removed} leftover split${removed === 1 ? '' : 's'}.`
+                : 'Nothing to clean up.');
+        } catch (err) {
+            console.error('Failed to clean up splits:', err);
+            setResult('Cleanup failed. Check your connection and try again.');
+        } finally {
+            setCleaning(false);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 mb-6">
+            <div className="flex items-center gap-2 mb-1">
+                <Eraser className="w-4 h-4 text-violet-500" />
+                <h2 className="font-semibold text-gray-900">Storage cleanup</h2>
+            </div>
+            <p className="text-xs text-gray-500 mb-3">
+                Removes split rows left behind by deleted expenses. Needs a connection.
+            </p>
+
+            <button
+                onClick={handleClean}
+                disabled={cleaning}
+                className="w-full py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 bg-gray-100 text-gray-700 disabled:opacity-50"
+            >
+                <Eraser className="w-4 h-4" />
+                {cleaning ? 'Cleaning up...' : 'Clean up deleted expenses'}
+            </button>
+            {result && <p className="text-xs text-gray-500 mt-2">{result}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,153 @@
+import type { LocalMutation } from '../config/localDb';
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { X, Download, RefreshCw, Trash2, RotateCcw, GitMerge, CloudUpload } from 'lucide-react';
+import { localDb } from '../config/localDb';
+import { syncService } from '../services/syncService';
+
+interface SyncQueueInspectorProps {
+    onResolveConflicts: () => void;
+    onClose: () => void;
+}
+
+const statusStyles: Record<LocalMutation['sync_status'], string> = {
+    pending: 'bg-sky-100 text-sky-700',
+    conflicted: 'bg-amber-100 text-amber-800',
+    blocked: 'bg-gray-100 text-gray-600',
+};
+
+export default function SyncQueueInspector({ onResolveConflicts, onClose }: SyncQueueInspectorProps) {
+    const mutations = useLiveQuery(() => localDb.mutations.orderBy('client_sequence_number').toArray(), []) || [];
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const formatAge = (iso: string) => {
+        const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+        if (minutes < 1) return 'just now';
+        if (minutes < 60) return `${minutes}m ago`;
+        if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ago`;
+        return `${Math.floor(minutes / (60 * 24))}d ago`;
+    };
+
+    const describe = (mut: LocalMutation) => {
+        const payload = mut.payload || {};
+        return payload.expense?.description
+            || payload.payment?.note
+            || (payload.changes && Object.keys(payload.changes).join(', '))
+            || mut.entity_id.slice(0, 8);
+    };
+
+    const run = async (mutationId: string, action: () => Promise<void>) => {
+        setBusyId(mutationId);
+        try {
+            await action();
+        } catch (err) {
+            console.error('Queue action failed:', err);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDiscard = (mut: LocalMutation) => {
+        if (!confirm('Discard this change? It will never reach the server.')) return;
+        run(mut.mutation_id, () => syncService.discardMutation(mut.mutation_id));
+    };
+
+    // Downloads the raw queue so a stuck change can be inspected or recovered
+    const handleExport = () => {
+        const blob = new Blob([JSON.stringify(mutations, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `tripsplit-sync-queue-${new Date().toISOString().split('T')[0]}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const conflictCount = mutations.filter(m => m.sync_status === 'conflicted').length;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center">
+            <div className="bg-white w-full sm:max-w-lg rounded-t-2xl sm:rounded-2xl max-h-[85vh] overflow-y-auto">
+                <div className="sticky top-0 bg-white border-b border-gray-100 px-4 py-3 flex items-center gap-2">
+                    <CloudUpload className="w-5 h-5 text-violet-500" />
+                    <h2 className="font-semibold text-gray-900 flex-1">Sync queue ({mutations.length})</h2>
+                    <button
+                        onClick={() => syncService.processQueue()}
+                        className="p-1.5 text-gray-400 hover:text-violet-600"
+                        title="Sync now"
+                    >
+                        <RefreshCw className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={handleExport}
+                        disabled={mutations.length === 0}
+                        className="p-1.5 text-gray-400 hover:text-violet-600 disabled:opacity-40"
+                        title="Export queue"
+                    >
+                        <Download className="w-4 h-4" />
+                    </button>
+                    <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="Close">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-2">
+                    {conflictCount > 0 && (
+                        <button
+                            onClick={onResolveConflicts}
+                            className="w-full bg-amber-50 border border-amber-200 rounded-xl p-3 text-sm text-amber-800 font-medium flex items-center gap-2"
+                        >
+                            <GitMerge className="w-4 h-4" />
+                            Resolve {conflictCount} conflict{conflictCount === 1 ? '' : 's'}
+                        </button>
+                    )}
+
+                    {mutations.length === 0 && (
+                        <p className="text-center text-gray-500 text-sm py-8">Everything has reached the server</p>
+                    )}
+
+                    {mutations.map(mut => {
+                        const busy = busyId === mut.mutation_id;
+                        return (
+                            <div key={mut.mutation_id} className="border border-gray-200 rounded-xl p-3">
+                                <div className="flex items-center gap-2">
+                                    <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase ${statusStyles[mut.sync_status]}`}>
+                                        {mut.sync_status}
+                                    </span>
+                                    <span className="text-sm font-medium text-gray-900 capitalize">
+                                        {mut.action} {mut.entity_type}
+                                    </span>
+                                    <span className="text-xs text-gray-400 ml-auto">{formatAge(mut.client_timestamp)}</span>
+                                </div>
+                                <p className="text-xs text-gray-500 mt-1 truncate">{describe(mut)}</p>
+                                {mut.error && <p className="text-xs text-red-500 mt-1">{mut.error}</p>}
+
+                                <div className="flex justify-end gap-1 mt-2">
+                                    {/* Field conflicts go through the resolver, not a blind retry */}
+                                    {!(mut.conflict?.fields.length) && (
+                                        <button
+                                            onClick={() => run(mut.mutation_id, () => syncService.requeueMutation(mut.mutation_id))}
+                                            disabled={busy}
+                                            className="px-2 py-1 rounded-lg text-xs font-medium text-violet-600 flex items-center gap-1 disabled:opacity-50"
+                                        >
+                                            <RotateCcw className="w-3.5 h-3.5" />
+                                            Retry
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => handleDiscard(mut)}
+                                        disabled={busy}
+                                        className="px-2 py-1 rounded-lg text-xs font-medium text-red-600 flex items-center gap-1 disabled:opacity-50"
+                                    >
+                                        <Trash2 className="w-3.5 h-3.5" />
+                                        Discard
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+}
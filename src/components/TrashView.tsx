@@ -0,0 +1,115 @@
+import type { Expense, TripMember } from '../types';
+import { useState } from 'react';
+import { X, Trash2, ArchiveRestore } from 'lucide-react';
+import { mutationService } from '../services/mutationService';
+import { getMinorUnitExponent } from '../utils/currency';
+
+interface TrashViewProps {
+    expenses: Expense[];   // Trashed expenses of the trip
+    members: TripMember[];
+    tripId: string;
+    baseCurrency: string;
+    onClose: () => void;
+}
+
+export default function TrashView({ expenses, members, tripId, baseCurrency, onClose }: TrashViewProps) {
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    // deleted_by is an auth user ID, not a member ID
+    const getDeleterName = (userId?: string | null) => {
+        const member = members.find(m => m.user_id === userId);
+        return member?.display_name || 'Someone';
+    };
+
+    const formatAmount = (amount: number, currency: string = baseCurrency) => {
+        const digits = getMinorUnitExponent(currency);
+        return new Intl.NumberFormat('en-IN', {
+            style: 'currency',
+            currency,
+            minimumFractionDigits: digits,
+            maximumFractionDigits: digits,
+        }).format(amount);
+    };
+
+    const formatDate = (iso?: string | null) => {
+        if (!iso) return '';
+        return new Date(iso).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+    };
+
+    const run = async (expenseId: string, action: () => Promise<void>) => {
+        setBusyId(expenseId);
+        try {
+            await action();
+        } catch (err) {
+            console.error('Trash action failed:', err);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handlePurge = (expense: Expense) => {
+        if (!confirm(`Permanently delete "${expense.description}"? This cannot be undone.`)) return;
+        run(expense.id, () => mutationService.deleteExpense(tripId, expense.id));
+    };
+
+    // Most recently deleted first
+    const sorted = [...expenses].sort((a, b) => (b.deleted_at || '').localeCompare(a.deleted_at || ''));
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center">
+            <div className="bg-white w-full sm:max-w-lg rounded-t-2xl sm:rounded-2xl max-h-[85vh] overflow-y-auto">
+                <div className="sticky top-0 bg-white border-b border-gray-100 px-4 py-3 flex items-center gap-2">
+                    <Trash2 className="w-5 h-5 text-violet-500" />
+                    <h2 className="font-semibold text-gray-900 flex-1">Trash ({expenses.length})</h2>
+                    <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="Close">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-2">
+                    {sorted.length === 0 && (
+                        <p className="text-center text-gray-500 text-sm py-8">Trash is empty</p>
+                    )}
+
+                    {sorted.map(expense => {
+                        const busy = busyId === expense.id;
+                        return (
+                            <div key={expense.id} className="border border-gray-200 rounded-xl p-3">
+                                <div className="flex items-start justify-between gap-2">
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium text-gray-900 truncate">{expense.description}</p>
+                                        <p className="text-xs text-gray-500">
+                                            Deleted by {getDeleterName(expense.deleted_by)} · {formatDate(expense.deleted_at)}
+                                        </p>
+                                    </div>
+                                    <p className="text-sm font-semibold text-gray-900 flex-shrink-0">
+                                        {formatAmount(expense.amount, expense.currency || baseCurrency)}
+                                    </p>
+                                </div>
+
+                                <div className="flex justify-end gap-1 mt-2">
+                                    <button
+                                        onClick={() => run(expense.id, () => mutationService.restoreExpense(tripId, expense.id))}
+                                        disabled={busy}
+                                        className="px-2 py-1 rounded-lg text-xs font-medium text-violet-600 flex items-center gap-1 disabled:opacity-50"
+                                    >
+                                        <ArchiveRestore className="w-3.5 h-3.5" />
+                                        Restore
+                                    </button>
+                                    <button
+                                        onClick={() => handlePurge(expense)}
+                                        disabled={busy}
+                                        className="px-2 py-1 rounded-lg text-xs font-medium text-red-600 flex items-center gap-1 disabled:opacity-50"
+                                    >
+                                        <Trash2 className="w-3.5 h-3.5" />
+                                        Delete forever
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+}
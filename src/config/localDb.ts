@@ -1,13 +1,33 @@
 import Dexie, { type Table } from 'dexie';
+import type {
+    ExchangeRateTable,
+    SplitType,
+    ExpenseItem,
+    ExpenseCharges,
+    RemainderPolicy,
+    PaymentMethod,
+    SettlementSnapshot,
+    SettlementConstraints,
+    ActivityEntry,
+    GhostClaim
+} from '../types';
+import type { FieldConflict, FieldRecord } from '../utils/conflictResolver';
+import { LOCAL_MIGRATIONS, defineMigrations, type LocalMigration } from './localMigrations';
 
 export interface LocalTrip {
     id: string;
     name: string;
     code: string;
     currency: string;
+    exchange_rates?: ExchangeRateTable;
+    remainder_policy?: RemainderPolicy;
+    settlement_constraints?: SettlementConstraints;
+    status?: 'active' | 'archived';
+    archived_at?: string | null;
     created_by: string;
     created_at: string;
     updated_at: string;
+    sync_status?: 'synced' | 'pending' | 'conflicted';
 }
 
 export interface LocalMember {
@@ -18,6 +38,9 @@ export interface LocalMember {
     role: 'admin' | 'member' | 'ghost';
     is_ghost: boolean;
     joined_at: string;
+    left_at?: string | null;
+    removed_by?: string | null;
+    claim?: GhostClaim | null;
     created_at: string;
     updated_at: string;
     sync_status?: 'synced' | 'pending' | 'conflicted';
@@ -28,13 +51,20 @@ export interface LocalExpense {
     trip_id: string;
     description: string;
     amount: number;
+    currency: string;
+    exchange_rate: number;
     category: 'travel' | 'food' | 'stay' | 'fun' | 'other';
     type: 'major' | 'daily';
     paid_by: string; // Member ID
-    split_type: 'equal' | 'custom' | 'shares';
+    split_type: SplitType;
+    items?: ExpenseItem[];
+    charges?: ExpenseCharges;
     expense_date: string;
     receipt_url: string | null;
     ai_confirmed: boolean;
+    revision?: number;
+    deleted_at?: string | null;
+    deleted_by?: string | null;
     created_by: string;
     created_at: string;
     updated_at: string;
@@ -44,14 +74,42 @@ export interface LocalExpense {
 export interface LocalSplit {
     id: string;
     expense_id: string;
+    trip_id?: string;
     member_id: string;
     amount: number;
     shares?: number;
+    percentage?: number;
+    base_amount?: number;
+    adjustment?: number;
+    rounding_drift?: number;
+}
+
+export interface LocalPayment {
+    id: string;
+    trip_id: string;
+    from: string; // Member ID
+    to: string;   // Member ID
+    amount: number;
+    payment_date: string;
+    method: PaymentMethod;
+    note: string | null;
+    created_by: string;
+    created_at: string;
+    updated_at: string;
+    sync_status?: 'synced' | 'pending' | 'conflicted';
+}
+
+export interface LocalSettlement extends SettlementSnapshot {
+    sync_status?: 'synced' | 'pending' | 'conflicted';
+}
+
+export interface LocalActivity extends ActivityEntry {
+    sync_status?: 'synced' | 'pending';
 }
 
 export interface LocalMutation {
     mutation_id: string;      // UUID
-    entity_type: 'expense' | 'split' | 'trip' | 'member';
+    entity_type: 'expense' | 'split' | 'trip' | 'member' | 'payment' | 'settlement';
     entity_id: string;
     action: 'create' | 'update' | 'delete';
     payload: any;
@@ -59,6 +117,16 @@ export interface LocalMutation {
     client_sequence_number: number;
     sync_status: 'pending' | 'conflicted' | 'blocked';
     error?: string;
+    /**
+     * Set when the server rejected the write as a conflict.
+     * remote is null if the document is gone, and missing when there was
+     * nothing to compare (e.g. permission denied).
+     */
+    conflict?: {
+        fields: FieldConflict[];
+        remote?: FieldRecord | null;
+        detected_at: string;
+    };
 }
 
 export class TripSplitDatabase extends Dexie {
@@ -66,18 +134,62 @@ export class TripSplitDatabase extends Dexie {
     members!: Table<LocalMember>;
     expenses!: Table<LocalExpense>;
     splits!: Table<LocalSplit>;
+    payments!: Table<LocalPayment>;
+    settlements!: Table<LocalSettlement>;
+    activity!: Table<LocalActivity>;
     mutations!: Table<LocalMutation>;
 
-    constructor() {
-        super('TripSplitLocal');
-        this.version(2).stores({
-            trips: 'id, code, created_by',
-            members: 'id, trip_id, user_id, role',
-            expenses: 'id, trip_id, paid_by, category, type',
-            splits: 'id, expense_id, member_id',
-            mutations: 'mutation_id, entity_id, entity_type, action, client_sequence_number'
-        });
+    constructor(name = 'TripSplitLocal', migrations: LocalMigration[] = LOCAL_MIGRATIONS) {
+        super(name);
+        defineMigrations(this, migrations);
     }
 }
 
 export const localDb = new TripSplitDatabase();
+
+/**
+ * Opens the local database, running any pending migrations.
+ *
+ * The local database is a cache of Firestore plus the mutation queue. If a
+ * migration fails, the queue is copied out, the database is deleted and
+ * recreated empty, and the queue is put back. Everything else is hydrated
+ * from Firestore again when a trip is opened.
+ *
+ * @returns 'rebuilt' if the local data had to be discarded
+ */
+export async function openLocalDb(db: TripSplitDatabase = localDb): Promise<'opened' | 'rebuilt'> {
+    try {
+        await db.open();
+        return 'opened';
+    } catch (err) {
+        console.error('[LocalDb] Migration failed, rebuilding from the server:', err);
+    }
+
+    db.close();
+    const mutations = await readQueuedMutations(db.name);
+
+    await Dexie.delete(db.name);
+    await db.open();
+    await db.mutations.bulkPut(mutations);
+
+    console.warn(`[LocalDb] Rebuilt local database (kept ${mutations.length} queued changes)`);
+    return 'rebuilt';
+}
+
+/**
+ * Reads the mutation queue of a database at whatever version it is on.
+ */
+async function readQueuedMutations(name: string): Promise<LocalMutation[]> {
+    // Without declared versions Dexie opens the existing schema as-is
+    const raw = new Dexie(name);
+    try {
+        await raw.open();
+        const hasQueue = raw.tables.some(table => table.name === 'mutations');
+        return hasQueue ? await raw.table<LocalMutation>('mutations').toArray() : [];
+    } catch (err) {
+        console.error('[LocalDb] Could not read the mutation queue:', err);
+        return [];
+    } finally {
+        raw.close();
+    }
+}
@@ -0,0 +1,115 @@
+/**
+ * TripSplit - Local Database Migrations
+ *
+ * Ordered schema versions of the IndexedDB cache (see localDb.ts).
+ *
+ * Design Decisions:
+ * 1. Every schema change is a new entry with a higher version; entries are
+ *    never edited once shipped, or devices already on them are skipped.
+ * 2. `stores` only lists tables that are new or whose indexes change. Dexie
+ *    carries the rest over from the previous version.
+ * 3. Data backfills run in `upgrade`, inside the version change transaction.
+ *    If one throws, nothing is committed and the database stays on the old
+ *    version (openLocalDb then rebuilds it).
+ * 4. Backfills only fill gaps; they never overwrite values a row already has.
+ */
+
+import type { Dexie, Transaction } from 'dexie';
+import type { LocalExpense, LocalTrip } from './localDb';
+import { DEFAULT_CURRENCY } from '../utils/currency';
+
+export interface LocalMigration {
+    version: number;
+    description: string;
+    stores: Record<string, string | null>;   // null drops a table
+    upgrade?: (tx: Transaction) => Promise<void>;
+}
+
+// Tables whose rows carry a sync_status
+const SYNCED_TABLES = ['trips', 'members', 'expenses', 'payments', 'settlements'];
+
+export const LOCAL_MIGRATIONS: LocalMigration[] = [
+    {
+        version: 2,
+        description: 'Trips, members, expenses, splits and the mutation queue',
+        stores: {
+            trips: 'id, code, created_by',
+            members: 'id, trip_id, user_id, role',
+            expenses: 'id, trip_id, paid_by, category, type',
+            splits: 'id, expense_id, member_id',
+            mutations: 'mutation_id, entity_id, entity_type, action, client_sequence_number'
+        }
+    },
+    {
+        version: 3,
+        description: 'Settlement payments',
+        stores: {
+            payments: 'id, trip_id, from, to'
+        }
+    },
+    {
+        version: 4,
+        description: 'Settle-up snapshots',
+        stores: {
+            settlements: 'id, trip_id, generated_at'
+        }
+    },
+    {
+        version: 5,
+        description: 'Backfill fields added after rows were first cached',
+        stores: {},
+        upgrade: async tx => {
+            for (const table of SYNCED_TABLES) {
+                await tx.table(table).toCollection().modify(row => {
+                    row.sync_status ??= 'synced';
+                });
+            }
+
+            const trips: LocalTrip[] = await tx.table('trips').toArray();
+            const tripCurrency = new Map(trips.map(trip => [trip.id, trip.currency || DEFAULT_CURRENCY]));
+
+            await tx.table('trips').toCollection().modify((trip: LocalTrip) => {
+                trip.currency ||= DEFAULT_CURRENCY;
+                trip.status ??= 'active';
+            });
+
+            // Expenses cached before multi-currency were in the trip's currency
+            await tx.table('expenses').toCollection().modify((expense: LocalExpense) => {
+                if (!expense.currency) {
+                    expense.currency = tripCurrency.get(expense.trip_id) || DEFAULT_CURRENCY;
+                    expense.exchange_rate = 1;
+                }
+                expense.exchange_rate ??= 1;
+                expense.revision ??= 0;
+            });
+        }
+    },
+    {
+        version: 6,
+        description: 'Activity log',
+        stores: {
+            activity: 'id, trip_id, created_at, entity_id'
+        }
+    }
+];
+
+/**
+ * Data version of the local database (the latest migration).
+ */
+export const LOCAL_DB_VERSION = LOCAL_MIGRATIONS[LOCAL_MIGRATIONS.length - 1].version;
+
+/**
+ * Declares the migrations on a database, in order.
+ *
+ * @throws Error if the versions are not strictly increasing
+ */
+export function defineMigrations(db: Dexie, migrations: LocalMigration[]): void {
+    migrations.forEach((migration, i) => {
+        if (i > 0 && migration.version <= migrations[i - 1].version) {
+            throw new Error(`Local migration ${migration.version} must come after ${migrations[i - 1].version}`);
+        }
+
+        const version = db.version(migration.version).stores(migration.stores);
+        if (migration.upgrade) version.upgrade(migration.upgrade);
+    });
+}
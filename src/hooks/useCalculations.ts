@@ -1,8 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
-import type { Expense, TripMember, ExpenseSplit, Summary, SettlementTransaction } from '../types';
+import type { Expense, TripMember, ExpenseSplit, Payment, Summary } from '../types';
 import type { WorkerInput, WorkerOutput } from '../workers/calculationWorker';
 import { calculateSummary } from '../utils/balanceCalculator';
-import { calculateSettlements } from '../utils/settlement';
 
 // Import worker (Vite special import for workers)
 // Note: In Vite, we import the worker constructor
@@ -11,21 +10,23 @@ import CalculationWorker from '../workers/calculationWorker?worker';
 
 interface CalculationResult {
     summary: Summary | null;
-    settlements: SettlementTransaction[];
     isCalculating: boolean;
 }
 
 /**
  * Custom hook to offload balance calculations to a Web Worker.
  * Falls back to main thread if worker is unavailable.
+ *
+ * Settlement plans depend on trip options (currency, algorithm version,
+ * constraints), so SettleTab computes them from the summary instead.
  */
 export function useCalculations(
     expenses: Expense[],
     members: TripMember[],
-    splits: ExpenseSplit[] // Now required as explicit splits are the new standard
+    splits: ExpenseSplit[], // Now required as explicit splits are the new standard
+    payments: Payment[]
 ): CalculationResult {
     const [summary, setSummary] = useState<Summary | null>(null);
-    const [settlements, setSettlements] = useState<SettlementTransaction[]>([]);
     const [isCalculating, setIsCalculating] = useState(true);
 
     const workerRef = useRef<Worker | null>(null);
@@ -40,7 +41,6 @@ export function useCalculations(
                 const { type, payload } = event.data;
                 if (type === 'RESULT') {
                     setSummary(payload.summary);
-                    setSettlements(payload.settlements);
                     setIsCalculating(false);
                 }
             };
@@ -65,7 +65,6 @@ export function useCalculations(
     useEffect(() => {
         if (expenses.length === 0 && members.length === 0) {
             setSummary(null);
-            setSettlements([]);
             setIsCalculating(false);
             return;
         }
@@ -80,7 +79,8 @@ export function useCalculations(
                     payload: {
                         expenses,
                         members,
-                        splits
+                        splits,
+                        payments
                     }
                 };
 
@@ -95,18 +95,14 @@ export function useCalculations(
         // Fallback to main thread (always runs if worker unavailable or failed)
         if (!useWorkerRef.current || !workerRef.current) {
             try {
-                const calculatedSummary = calculateSummary(expenses, members, splits);
-                const calculatedSettlements = calculateSettlements(calculatedSummary.globalBalance, members);
-                
-                setSummary(calculatedSummary);
-                setSettlements(calculatedSettlements);
+                setSummary(calculateSummary(expenses, members, splits, payments));
                 setIsCalculating(false);
             } catch (error) {
                 console.error('Calculation error:', error);
                 setIsCalculating(false);
             }
         }
-    }, [expenses, members, splits]);
+    }, [expenses, members, splits, payments]);
 
-    return { summary, settlements, isCalculating };
+    return { summary, isCalculating };
 }
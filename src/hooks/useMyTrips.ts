@@ -0,0 +1,78 @@
+import { useEffect } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import type { Expense, ExpenseSplit, Payment, TripMember } from '../types';
+import { localDb, type LocalMember, type LocalTrip } from '../config/localDb';
+import { syncService } from '../services/syncService';
+import { calculateSummary } from '../utils/balanceCalculator';
+
+export interface TripOverview {
+    trip: LocalTrip;
+    memberId: string;
+    totalSpent: number;      // Trip base currency
+    myBalance: number;       // Trip base currency; positive = gets money back
+    lastActivity: string;    // ISO timestamp
+}
+
+/**
+ * Summarizes one trip from whatever the local DB has cached for it.
+ */
+async function loadOverview(membership: LocalMember): Promise<TripOverview | null> {
+    const trip = await localDb.trips.get(membership.trip_id);
+    if (!trip) return null;
+
+    const [expenses, members, payments] = await Promise.all([
+        localDb.expenses.where('trip_id').equals(trip.id).toArray(),
+        localDb.members.where('trip_id').equals(trip.id).toArray(),
+        localDb.payments.where('trip_id').equals(trip.id).toArray(),
+    ]);
+    const splits = await localDb.splits.where('expense_id').anyOf(expenses.map(e => e.id)).toArray();
+
+    const summary = calculateSummary(
+        expenses as unknown as Expense[],
+        members as unknown as TripMember[],
+        splits as ExpenseSplit[],
+        payments as Payment[]
+    );
+
+    const lastActivity = [trip, ...expenses, ...payments]
+        .map(row => row.updated_at)
+        .reduce((latest, iso) => (iso > latest ? iso : latest), trip.created_at);
+
+    return {
+        trip,
+        memberId: membership.id,
+        totalSpent: summary.totalSpent,
+        myBalance: summary.globalBalance[membership.id] || 0,
+        lastActivity,
+    };
+}
+
+/**
+ * Every trip the user belongs to, most recently active first.
+ * Reads the local DB and pulls the user's memberships from the server once,
+ * so trips joined on another device show up too.
+ *
+ * @returns undefined while loading
+ */
+export function useMyTrips(userId: string): TripOverview[] | undefined {
+    useEffect(() => {
+        syncService.syncMyTrips(userId).catch(err => {
+            console.warn('[MyTrips] Could not fetch trips from the server:', err);
+        });
+    }, [userId]);
+
+    return useLiveQuery(async () => {
+        // Trips the user left no longer show up
+        const memberships = await localDb.members.where('user_id').equals(userId)
+            .filter(m => !m.left_at)
+            .toArray();
+
+        // One overview per trip
+        const byTrip = new Map(memberships.map(m => [m.trip_id, m]));
+        const overviews = await Promise.all(Array.from(byTrip.values()).map(loadOverview));
+
+        return overviews
+            .filter((overview): overview is TripOverview => overview !== null)
+            .sort((a, b) => b.lastActivity.localeCompare(a.lastActivity));
+    }, [userId]);
+}
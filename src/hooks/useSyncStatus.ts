@@ -0,0 +1,35 @@
+import { useSyncExternalStore } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { localDb } from '../config/localDb';
+import { syncService } from '../services/syncService';
+import { getSyncStatus, type SyncStatus } from '../utils/syncUtils';
+
+function subscribeOnline(listener: () => void) {
+    window.addEventListener('online', listener);
+    window.addEventListener('offline', listener);
+    return () => {
+        window.removeEventListener('online', listener);
+        window.removeEventListener('offline', listener);
+    };
+}
+
+/**
+ * Live sync status: connection, engine activity and mutation queue counts.
+ */
+export function useSyncStatus(): SyncStatus {
+    const online = useSyncExternalStore(subscribeOnline, () => navigator.onLine);
+    const syncing = useSyncExternalStore(
+        (listener) => syncService.subscribe(listener),
+        () => syncService.syncing
+    );
+
+    const counts = useLiveQuery(async () => {
+        const mutations = await localDb.mutations.toArray();
+        return {
+            pending: mutations.filter(m => m.sync_status !== 'conflicted').length,
+            conflicted: mutations.filter(m => m.sync_status === 'conflicted').length,
+        };
+    }, []) || { pending: 0, conflicted: 0 };
+
+    return getSyncStatus({ online, syncing, ...counts });
+}
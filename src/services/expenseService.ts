@@ -20,6 +20,7 @@ import {
     orderBy,
     onSnapshot,
     serverTimestamp,
+    increment,
     writeBatch,
     limit,
     startAfter,
@@ -47,6 +48,8 @@ function mapExpenseDoc(doc: QueryDocumentSnapshot, tripId: string): Expense {
         trip_id: tripId,
         description: data.description,
         amount: data.amount,
+        currency: data.currency || 'INR',
+        exchange_rate: data.exchange_rate ?? 1,
         category: data.category || 'other',
         type: data.type || 'daily',
         expense_date: data.expense_date || toISOString(data.created_at).split('T')[0],
@@ -55,8 +58,10 @@ function mapExpenseDoc(doc: QueryDocumentSnapshot, tripId: string): Expense {
         created_by: data.created_by,
         paid_by: data.paid_by, // References member document ID
         split_type: data.split_type || 'equal',
+        ...(data.items ? { items: data.items, charges: data.charges } : {}),
         receipt_url: data.receipt_url || null,
         ai_confirmed: data.ai_confirmed ?? true,
+        revision: data.revision ?? 0,
     };
 }
 
@@ -118,6 +123,10 @@ export async function getExpenseSplits(
                 member_id: data.member_id,
                 amount: data.amount,
                 shares: data.shares,
+                percentage: data.percentage,
+                base_amount: data.base_amount,
+                adjustment: data.adjustment,
+                rounding_drift: data.rounding_drift,
             });
         });
     }
@@ -154,9 +163,14 @@ export async function createExpense(
     const mappedCustomSplits = input.custom_splits?.map(s => ({
         memberId: s.member_id,
         amount: s.amount,
-        shares: s.shares
+        shares: s.shares,
+        percentage: s.percentage,
+        adjustment: s.adjustment
     }));
 
+    const currency = (input.currency || 'INR').toUpperCase();
+    const exchangeRate = input.exchange_rate ?? 1;
+
     // Calculate explicit splits using the Engine
     // This throws if amounts don't match or inputs are invalid
     const { splits } = calculateSplits({
@@ -164,7 +178,11 @@ export async function createExpense(
         payerId: input.paid_by,
         splitType: input.split_type,
         involvedMemberIds: involvedMemberIds,
-        customSplits: mappedCustomSplits
+        customSplits: mappedCustomSplits,
+        adjustmentBase: input.adjustment_base,
+        items: input.items,
+        charges: input.charges,
+        currency
     });
 
     const expensesRef = collection(db, 'trips', input.trip_id, 'expenses');
@@ -172,6 +190,8 @@ export async function createExpense(
     const expenseData = {
         description: input.description,
         amount: input.amount,
+        currency,
+        exchange_rate: exchangeRate,
         category: input.category,
         type: input.type,
         expense_date: input.expense_date || new Date().toISOString().split('T')[0],
@@ -180,8 +200,13 @@ export async function createExpense(
         created_by: userId,
         paid_by: input.paid_by,
         split_type: input.split_type,
+        ...(input.split_type === 'itemized' ? {
+            items: input.items,
+            charges: input.charges || { tax: 0, service: 0, tip: 0 }
+        } : {}),
         receipt_url: input.receipt_url || null,
         ai_confirmed: input.ai_confirmed ?? true,
+        revision: 1,
     };
 
     const expenseRef = await addDoc(expensesRef, expenseData);
@@ -197,11 +222,22 @@ export async function createExpense(
                                         // Wait, let's check SplitEngine return type.
                                         // SplitResult.splits is Omit<ExpenseSplit...>.
                                         // ExpenseSplit has member_id.
+            trip_id: input.trip_id,
             amount: split.amount,
         };
         if (split.shares !== undefined) {
             data.shares = split.shares;
         }
+        if (split.percentage !== undefined) {
+            data.percentage = split.percentage;
+        }
+        if (split.base_amount !== undefined) {
+            data.base_amount = split.base_amount;
+            data.adjustment = split.adjustment;
+        }
+        if (split.rounding_drift !== undefined) {
+            data.rounding_drift = split.rounding_drift;
+        }
         batch.set(splitDocRef, data);
     }
 
@@ -212,6 +248,8 @@ export async function createExpense(
         trip_id: input.trip_id,
         description: input.description,
         amount: input.amount,
+        currency,
+        exchange_rate: exchangeRate,
         category: input.category,
         type: input.type,
         expense_date: input.expense_date || new Date().toISOString().split('T')[0],
@@ -220,8 +258,11 @@ export async function createExpense(
         created_by: userId,
         paid_by: input.paid_by,
         split_type: input.split_type,
+        items: input.items,
+        charges: input.charges,
         receipt_url: input.receipt_url || null,
         ai_confirmed: input.ai_confirmed ?? true,
+        revision: 1,
     };
 }
 
@@ -236,6 +277,7 @@ export async function updateExpense(
     const expenseRef = doc(db, 'trips', tripId, 'expenses', expenseId);
     await updateDoc(expenseRef, {
         ...updates,
+        revision: increment(1),
         updated_at: serverTimestamp(),
     });
 }
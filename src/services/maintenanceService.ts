@@ -0,0 +1,80 @@
+/**
+ * TripSplit - Maintenance
+ *
+ * Housekeeping for server data the app no longer references.
+ *
+ * Design Decisions:
+ * 1. An orphaned split is a split document whose expense document is gone.
+ *    Older clients deleted expenses without their splits subcollection;
+ *    Firestore keeps storing (and billing) those rows.
+ * 2. The client SDK can't list subcollections, so a trip's splits are found
+ *    with a collection-group query on their trip_id. Security rules can only
+ *    authorize a query by the values it filters on, so an equality filter on
+ *    trip_id is what lets the rules check trip membership.
+ * 3. Splits written before trip_id was stamped on them don't match the
+ *    query; they are only reachable through their expense's path, which
+ *    takes the Admin SDK (npm run clean:splits, scripts/orphanedSplits.ts).
+ * 4. Deletes go out in batches of at most 500 writes (Firestore's limit).
+ */
+
+import {
+    collectionGroup,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    where,
+    writeBatch,
+    type DocumentReference
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+
+const BATCH_LIMIT = 500;
+
+/**
+ * Finds split documents of a trip whose expense no longer exists.
+ */
+export async function findOrphanedSplits(tripId: string): Promise<DocumentReference[]> {
+    const tripPath = doc(db, 'trips', tripId).path;
+
+    const snapshot = await getDocs(query(
+        collectionGroup(db, 'splits'),
+        where('trip_id', '==', tripId)
+    ));
+
+    // Split refs grouped by the path of their expense document
+    const splitsByExpense = new Map<string, DocumentReference[]>();
+    snapshot.docs.forEach(splitDoc => {
+        const expenseRef = splitDoc.ref.parent.parent;
+        if (!expenseRef || expenseRef.parent.parent?.path !== tripPath) return;
+
+        const refs = splitsByExpense.get(expenseRef.path) || [];
+        refs.push(splitDoc.ref);
+        splitsByExpense.set(expenseRef.path, refs);
+    });
+
+    const orphans = await Promise.all(
+        Array.from(splitsByExpense.entries()).map(async ([expensePath, refs]) => {
+            const expenseSnap = await getDoc(doc(db, expensePath));
+            return expenseSnap.exists() ? [] : refs;
+        })
+    );
+    return orphans.flat();
+}
+
+/**
+ * Deletes a trip's orphaned split documents.
+ *
+ * @returns Number of split documents removed
+ */
+export async function cleanOrphanedSplits(tripId: string): Promise<number> {
+    const orphans = await findOrphanedSplits(tripId);
+
+    for (let i = 0; i < orphans.length; i += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        orphans.slice(i, i + BATCH_LIMIT).forEach(ref => batch.delete(ref));
+        await batch.commit();
+    }
+
+    return orphans.length;
+}
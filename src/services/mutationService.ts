@@ -11,25 +11,44 @@
 import {
     doc,
     setDoc,
+    updateDoc,
     collection,
     writeBatch,
-    updateDoc,
     serverTimestamp,
     getDocs,
+    increment,
     query,
-    where
+    where,
+    type WriteBatch
 } from 'firebase/firestore';
-import { db } from '../config/firebase';
-import { localDb } from '../config/localDb';
+import { auth, db } from '../config/firebase';
+import { localDb, type LocalExpense, type LocalSplit, type LocalPayment, type LocalSettlement, type LocalTrip, type LocalMember } from '../config/localDb';
 import type {
     CreateTripInput,
     JoinTripInput,
     CreateExpenseInput,
     AddGhostMemberInput,
-    ExpenseCategory
+    ExpenseCategory,
+    UpdateTripInput,
+    CreatePaymentInput,
+    SettlementSnapshot,
+    ActivityEntry,
+    ActivityType,
+    Expense,
+    ExpenseSplit,
+    Payment,
+    TripMember,
+    GhostClaim
 } from '../types';
 import { SYNC_AUTHORITY_ENABLED } from '../config/flags';
+import { syncService } from './syncService';
 import { generateUUID, getSequenceNumber } from '../utils/syncUtils';
+import { DEFAULT_CURRENCY, roundToMinorUnit, toCents } from '../utils/currency';
+import { calculateSplits } from '../utils/splitEngine';
+import { normalizeCurrency, isValidRate } from '../utils/exchangeRates';
+import { DEFAULT_REMAINDER_POLICY } from '../utils/remainder';
+import { createActivity, diffFields } from '../utils/activity';
+import { calculateBalances, planBalanceTransfer } from '../utils/balanceCalculator';
 
 // ============================================
 // HELPERS
@@ -46,6 +65,445 @@ function mapCategory(raw: string | null): ExpenseCategory {
     return valid.includes(lower) ? lower : 'other';
 }
 
+/**
+ * Sums the rounding drift already recorded per member on a trip's splits
+ * in the given currency. Fed back into the split engine so leftover minor
+ * units even out over the trip instead of favouring the same people.
+ */
+async function getRoundingCarry(tripId: string, currency: string, excludeExpenseId?: string): Promise<Record<string, number>> {
+    const expenseIds = await localDb.expenses
+        .where('trip_id').equals(tripId)
+        .filter(e => e.id !== excludeExpenseId && !e.deleted_at && normalizeCurrency(e.currency) === currency)
+        .primaryKeys();
+
+    const splits = await localDb.splits.where('expense_id').anyOf(expenseIds).toArray();
+
+    const carry: Record<string, number> = {};
+    for (const split of splits) {
+        if (split.rounding_drift) {
+            carry[split.member_id] = (carry[split.member_id] || 0) + split.rounding_drift;
+        }
+    }
+    return carry;
+}
+
+/**
+ * Closed (archived) trips are read-only until an admin reopens them.
+ *
+ * @throws Error if the trip is archived
+ */
+async function assertTripOpen(tripId: string) {
+    const trip = await localDb.trips.get(tripId);
+    if (trip?.status === 'archived') {
+        throw new Error('This trip is closed. An admin has to reopen it before anything can change.');
+    }
+}
+
+/**
+ * Validates an expense input and computes its split rows.
+ * Shared by create and full edit, so both go through calculateSplits.
+ */
+async function prepareExpense(input: CreateExpenseInput, expense_id: string) {
+    await assertTripOpen(input.trip_id);
+
+    const trip = await localDb.trips.get(input.trip_id);
+    const baseCurrency = normalizeCurrency(trip?.currency || DEFAULT_CURRENCY);
+    const currency = normalizeCurrency(input.currency || baseCurrency);
+    const exchange_rate = currency === baseCurrency ? 1 : input.exchange_rate;
+
+    if (!isValidRate(exchange_rate)) {
+        throw new Error(`An exchange rate from ${currency} to ${baseCurrency} is required`);
+    }
+
+    // Amounts are exact to the currency's minor unit (no fractional yen)
+    const amount = roundToMinorUnit(Number(input.amount), currency);
+
+    // Legacy/Fallback: If no specific members involved, assume ALL trip members
+    let involvedMemberIds = input.involved_member_ids;
+    if (!involvedMemberIds || involvedMemberIds.length === 0) {
+        const members = await localDb.members.where('trip_id').equals(input.trip_id).toArray();
+        involvedMemberIds = members.filter(m => !m.left_at).map(m => m.id);
+    }
+
+    // Throws if custom amounts don't add up or inputs are invalid
+    const { splits } = calculateSplits({
+        totalAmount: amount,
+        payerId: input.paid_by,
+        splitType: input.split_type,
+        involvedMemberIds,
+        customSplits: input.custom_splits?.map(s => ({
+            memberId: s.member_id,
+            amount: s.amount,
+            shares: s.shares,
+            percentage: s.percentage,
+            adjustment: s.adjustment
+        })),
+        adjustmentBase: input.adjustment_base,
+        items: input.items,
+        charges: input.charges,
+        currency,
+        remainderPolicy: trip?.remainder_policy,
+        expenseId: expense_id,
+        // An edited expense's own drift is about to be replaced
+        roundingCarry: await getRoundingCarry(input.trip_id, currency, expense_id)
+    });
+
+    // Explicit split rows for every split type (Single Source of Truth)
+    const localSplits: LocalSplit[] = splits.map(split => {
+        const splitData: LocalSplit = {
+            id: generateUUID(),
+            expense_id,
+            trip_id: input.trip_id,
+            member_id: split.member_id,
+            amount: split.amount,
+        };
+        if (split.shares !== undefined) {
+            splitData.shares = split.shares;
+        }
+        if (split.percentage !== undefined) {
+            splitData.percentage = split.percentage;
+        }
+        if (split.base_amount !== undefined) {
+            splitData.base_amount = split.base_amount;
+            splitData.adjustment = split.adjustment;
+        }
+        if (split.rounding_drift !== undefined) {
+            splitData.rounding_drift = split.rounding_drift;
+        }
+        return splitData;
+    });
+
+    return { amount, currency, exchange_rate, localSplits };
+}
+
+/**
+ * Values of the edited fields before the edit, for field-level conflict checks.
+ */
+function getBase(existing: LocalExpense | undefined, changes: Record<string, unknown>) {
+    return Object.fromEntries(
+        Object.keys(changes).map(field => [field, (existing as Record<string, unknown> | undefined)?.[field] ?? null])
+    );
+}
+
+/**
+ * Builds the activity entry for a change made on this device.
+ * The actor defaults to the signed-in user.
+ */
+function newActivity(fields: Omit<ActivityEntry, 'id' | 'created_at' | 'actor_id'>, actorId?: string) {
+    return createActivity({ ...fields, actor_id: actorId || auth.currentUser?.uid || '' });
+}
+
+/**
+ * Adds an entry to the local activity log.
+ * Runs inside the mutation's local transaction, so both land or neither.
+ */
+async function logActivity(activity: ActivityEntry) {
+    await localDb.activity.put({
+        ...activity,
+        sync_status: SYNC_AUTHORITY_ENABLED ? 'pending' : 'synced'
+    });
+}
+
+function activityRef(activity: ActivityEntry) {
+    return doc(db, 'trips', activity.trip_id, 'activity', activity.id);
+}
+
+/**
+ * Members an expense concerns: the payer and everyone in its splits.
+ */
+function expenseMemberIds(paidBy: string | undefined, splits: { member_id: string }[]) {
+    const ids = splits.map(s => s.member_id);
+    return [...new Set(paidBy ? [paidBy, ...ids] : ids)];
+}
+
+/**
+ * Trash and restore are plain expense updates; the log tells them apart.
+ */
+function expenseUpdateType(updates: Record<string, unknown>): ActivityType {
+    if (!('deleted_at' in updates)) return 'expense_updated';
+    return updates.deleted_at ? 'expense_trashed' : 'expense_restored';
+}
+
+/**
+ * Writes trip fields locally and queues them as one 'trip' update.
+ * An activity entry, if given, is written in the same server batch.
+ */
+async function writeTripUpdate(tripId: string, changes: Partial<LocalTrip>, activity?: ActivityEntry) {
+    const isoNow = getISOString();
+    const mutation_id = generateUUID();
+
+    await localDb.transaction('rw', localDb.trips, localDb.activity, localDb.mutations, async () => {
+        await localDb.trips.update(tripId, {
+            ...changes,
+            updated_at: isoNow,
+            sync_status: SYNC_AUTHORITY_ENABLED ? 'pending' : 'synced'
+        });
+        if (activity) await logActivity(activity);
+
+        if (SYNC_AUTHORITY_ENABLED) {
+            await localDb.mutations.add({
+                mutation_id,
+                entity_type: 'trip',
+                entity_id: tripId,
+                action: 'update',
+                payload: activity ? { changes, activity } : { changes },
+                client_timestamp: isoNow,
+                client_sequence_number: getSequenceNumber(),
+                sync_status: 'pending'
+            });
+        }
+    });
+
+    if (!SYNC_AUTHORITY_ENABLED) {
+        const tripRef = doc(db, 'trips', tripId);
+        const batch = writeBatch(db);
+        batch.update(tripRef, {
+            ...changes,
+            updated_at: serverTimestamp()
+        });
+        if (activity) batch.set(activityRef(activity), activity);
+        await batch.commit();
+    } else {
+        syncService.trigger();
+    }
+}
+
+/**
+ * A validated payment, ready to be written together with other changes.
+ */
+interface PreparedPayment {
+    mutation_id: string;
+    data: LocalPayment;
+    activity: ActivityEntry;
+}
+
+/**
+ * Validates a payment and builds its local row and activity entry.
+ *
+ * @throws Error if the trip is closed, the parties are invalid, or the
+ *   amount rounds to nothing in the trip's currency
+ */
+async function preparePayment(input: CreatePaymentInput, userId: string): Promise<PreparedPayment> {
+    await assertTripOpen(input.trip_id);
+
+    if (input.from === input.to) {
+        throw new Error('A payment needs two different members');
+    }
+    await assertActiveMembers([input.from, input.to]);
+
+    const trip = await localDb.trips.get(input.trip_id);
+    const currency = trip?.currency || DEFAULT_CURRENCY;
+    const amount = roundToMinorUnit(Number(input.amount), currency);
+    if (!(amount > 0)) {
+        throw new Error('Payment amount must be greater than zero');
+    }
+
+    const isoNow = getISOString();
+    const mutation_id = generateUUID();
+    const payment_id = mutation_id; // Same idempotency rule as expenses
+    const data: LocalPayment = {
+        id: payment_id,
+        trip_id: input.trip_id,
+        from: input.from,
+        to: input.to,
+        amount,
+        payment_date: input.payment_date || isoNow.split('T')[0],
+        method: input.method || 'cash',
+        note: input.note?.trim() || null,
+        created_by: userId,
+        created_at: isoNow,
+        updated_at: isoNow,
+        sync_status: SYNC_AUTHORITY_ENABLED ? 'pending' : 'synced'
+    };
+
+    const activity = newActivity({
+        trip_id: input.trip_id,
+        type: 'payment_recorded',
+        entity_type: 'payment',
+        entity_id: payment_id,
+        summary: data.note || '',
+        member_ids: [input.from, input.to],
+        amount,
+        currency
+    }, userId);
+
+    return { mutation_id, data, activity };
+}
+
+/**
+ * Adds a prepared payment locally and queues it.
+ * Must run inside a transaction over payments, activity and mutations.
+ */
+async function stagePayment(payment: PreparedPayment) {
+    await localDb.payments.add(payment.data);
+    await logActivity(payment.activity);
+
+    if (SYNC_AUTHORITY_ENABLED) {
+        await localDb.mutations.add({
+            mutation_id: payment.mutation_id,
+            entity_type: 'payment',
+            entity_id: payment.data.id,
+            action: 'create',
+            payload: { payment: payment.data, activity: payment.activity },
+            client_timestamp: payment.data.created_at,
+            client_sequence_number: getSequenceNumber(),
+            sync_status: 'pending'
+        });
+    }
+}
+
+/**
+ * Adds a prepared payment to a direct server batch.
+ */
+function batchPayment(batch: WriteBatch, payment: PreparedPayment) {
+    batch.set(doc(db, 'trips', payment.data.trip_id, 'payments', payment.data.id), {
+        ...payment.data,
+        created_at: serverTimestamp(),
+        updated_at: serverTimestamp()
+    });
+    batch.set(activityRef(payment.activity), payment.activity);
+}
+
+/**
+ * Writes member fields locally and queues them as one 'member' update,
+ * logged as the given activity type. A payment, if given, is written in
+ * the same local transaction and server batch.
+ */
+async function writeMemberUpdate(tripId: string, memberId: string, changes: Partial<LocalMember>, type: ActivityType, payment?: PreparedPayment) {
+    const isoNow = getISOString();
+    const mutation_id = generateUUID();
+
+    let activity: ActivityEntry | undefined;
+
+    await localDb.transaction('rw', [localDb.members, localDb.payments, localDb.activity, localDb.mutations], async () => {
+        if (payment) await stagePayment(payment);
+
+        const existing = await localDb.members.get(memberId);
+        await localDb.members.update(memberId, {
+            ...changes,
+            updated_at: isoNow,
+            sync_status: SYNC_AUTHORITY_ENABLED ? 'pending' : 'synced'
+        });
+
+        activity = newActivity({
+            trip_id: tripId,
+            type,
+            entity_type: 'member',
+            entity_id: memberId,
+            summary: changes.display_name ?? existing?.display_name ?? '',
+            member_ids: [memberId],
+            ...(type === 'member_updated' && { changes: diffFields({ ...existing }, changes) })
+        });
+        await logActivity(activity);
+
+        if (SYNC_AUTHORITY_ENABLED) {
+            await localDb.mutations.add({
+                mutation_id,
+                entity_type: 'member',
+                entity_id: memberId,
+                action: 'update',
+                payload: { trip_id: tripId, changes, activity },
+                client_timestamp: isoNow,
+                client_sequence_number: getSequenceNumber(),
+                sync_status: 'pending'
+            });
+        }
+    });
+
+    if (!SYNC_AUTHORITY_ENABLED) {
+        const batch = writeBatch(db);
+        if (payment) batchPayment(batch, payment);
+        batch.update(doc(db, 'trips', tripId, 'members', memberId), {
+            ...changes,
+            updated_at: serverTimestamp()
+        });
+        if (activity) batch.set(activityRef(activity), activity);
+        await batch.commit();
+    } else {
+        syncService.trigger();
+    }
+}
+
+/**
+ * Departed members keep their history but can't take part in anything new.
+ *
+ * @throws Error if any of the members has left the trip
+ */
+async function assertActiveMembers(memberIds: string[]) {
+    const members = await localDb.members.bulkGet(memberIds);
+    const departed = members.find(m => m?.left_at);
+    if (departed) {
+        throw new Error(`${departed.display_name} has left the trip`);
+    }
+}
+
+/**
+ * Soft-deactivates a member who leaves or is removed.
+ * A member can only go with a zero balance: anything left is first handed
+ * to `transferTo` as a recorded payment (see planBalanceTransfer).
+ *
+ * @throws Error if the balance is not settled and no one takes it over,
+ *   or if the member is the trip's last admin
+ */
+async function deactivateMember(
+    tripId: string,
+    memberId: string,
+    userId: string,
+    type: 'member_left' | 'member_removed',
+    transferTo?: string
+) {
+    await assertTripOpen(tripId);
+
+    const [trip, members, expenses, payments] = await Promise.all([
+        localDb.trips.get(tripId),
+        localDb.members.where('trip_id').equals(tripId).toArray(),
+        localDb.expenses.where('trip_id').equals(tripId).toArray(),
+        localDb.payments.where('trip_id').equals(tripId).toArray(),
+    ]);
+    const member = members.find(m => m.id === memberId);
+    if (!member || member.left_at) throw new Error('Member not found');
+
+    const admins = members.filter(m => m.role === 'admin' && !m.left_at);
+    if (member.role === 'admin' && admins.length === 1) {
+        throw new Error('The last admin can\'t leave. Make someone else an admin first.');
+    }
+
+    const splits = await localDb.splits.where('expense_id').anyOf(expenses.map(e => e.id)).toArray();
+    const balances = calculateBalances(
+        expenses as unknown as Expense[],
+        members as unknown as TripMember[],
+        splits as ExpenseSplit[],
+        payments as Payment[]
+    );
+    const currency = trip?.currency || DEFAULT_CURRENCY;
+    const balance = roundToMinorUnit(balances[memberId] || 0, currency);
+
+    // The transfer payment and the deactivation land together or not at all
+    let payment: PreparedPayment | undefined;
+    if (toCents(balance, currency) !== 0) {
+        if (!transferTo || transferTo === memberId) {
+            throw new Error(`${member.display_name} still has a balance of ${balance} ${currency}. Settle up or transfer it to someone first.`);
+        }
+
+        const transfer = planBalanceTransfer(memberId, balance, transferTo, currency);
+        if (transfer) {
+            const recipient = members.find(m => m.id === transferTo);
+            payment = await preparePayment({
+                trip_id: tripId,
+                ...transfer,
+                method: 'other',
+                note: `Balance of ${member.display_name} transferred to ${recipient?.display_name ?? 'another member'}`
+            }, userId);
+        }
+    }
+
+    await writeMemberUpdate(tripId, memberId, {
+        left_at: getISOString(),
+        // Leaving yourself may only touch left_at (see the members rules)
+        ...(type === 'member_removed' && { removed_by: userId })
+    }, type, payment);
+}
+
 // ============================================
 // MUTATION DISPATCHER
 // ============================================
@@ -53,66 +511,100 @@ function mapCategory(raw: string | null): ExpenseCategory {
 export const mutationService = {
     /**
      * Creates a new trip and creator membership.
-     * NOTE: Trips/Members are OUT OF SCOPE for SyncMaster offline behavior per directive Section 1.
-     * They will still use direct Firestore writes for now.
+     * Both are written locally and queued as one 'trip' mutation, so a trip
+     * can be started without signal.
      */
     async createTrip(input: CreateTripInput, userId: string) {
         const code = Math.random().toString(36).substring(2, 8).toUpperCase();
         const tripId = `TRIP-${code}`;
-        const tripRef = doc(db, 'trips', tripId);
-        const memberRef = doc(collection(tripRef, 'members'));
-
-        const now = serverTimestamp();
+        const memberId = doc(collection(db, 'trips', tripId, 'members')).id;
         const isoNow = getISOString();
+        const mutation_id = generateUUID();
 
         const tripData = {
             id: tripId,
             code,
             name: input.name,
-            currency: 'INR',
+            currency: normalizeCurrency(input.currency),
+            exchange_rates: {},
+            remainder_policy: DEFAULT_REMAINDER_POLICY,
             status: 'active' as const,
-            created_at: now,
-            updated_at: now,
             created_by: userId,
         };
 
         const memberData = {
-            id: memberRef.id,
+            id: memberId,
             trip_id: tripId,
             user_id: userId,
             display_name: input.creatorDisplayName,
             role: 'admin' as const,
             is_ghost: false,
-            joined_at: now,
-            updated_at: now,
         };
 
-        const batch = writeBatch(db);
-        batch.set(tripRef, tripData);
-        batch.set(memberRef, memberData);
-        await batch.commit();
+        const sync_status = SYNC_AUTHORITY_ENABLED ? 'pending' : 'synced';
 
-        await localDb.trips.add({
-            ...tripData,
-            created_at: isoNow,
-            updated_at: isoNow
-        } as any);
-        await localDb.members.add({
-            ...memberData,
-            joined_at: isoNow,
-            created_at: isoNow,
-            updated_at: isoNow
-        } as any);
+        // 1. Local-First Write
+        await localDb.transaction('rw', localDb.trips, localDb.members, localDb.mutations, async () => {
+            await localDb.trips.add({ ...tripData, created_at: isoNow, updated_at: isoNow, sync_status });
+            await localDb.members.add({ ...memberData, joined_at: isoNow, created_at: isoNow, updated_at: isoNow, sync_status });
 
-        return { tripId, memberId: memberRef.id };
+            // 2. Queue Mutation
+            if (SYNC_AUTHORITY_ENABLED) {
+                await localDb.mutations.add({
+                    mutation_id,
+                    entity_type: 'trip',
+                    entity_id: tripId,
+                    action: 'create',
+                    payload: { trip: tripData, member: memberData },
+                    client_timestamp: isoNow,
+                    client_sequence_number: getSequenceNumber(),
+                    sync_status: 'pending'
+                });
+            }
+        });
+
+        // 3. Fallback/Direct
+        if (!SYNC_AUTHORITY_ENABLED) {
+            const tripRef = doc(db, 'trips', tripId);
+            const batch = writeBatch(db);
+            batch.set(tripRef, { ...tripData, created_at: serverTimestamp(), updated_at: serverTimestamp() });
+            batch.set(doc(tripRef, 'members', memberId), { ...memberData, joined_at: serverTimestamp(), updated_at: serverTimestamp() });
+            await batch.commit();
+        } else {
+            syncService.trigger();
+        }
+
+        return { tripId, memberId };
     },
 
     /**
      * Joins an existing trip.
+     * Offline, the join is queued by code and resolved by the sync engine
+     * once connectivity returns; tripId is then null and the member (with
+     * the given memberId) appears in the local DB when the join goes through.
      */
-    async joinTrip(input: JoinTripInput, userId: string) {
+    async joinTrip(input: JoinTripInput, userId: string): Promise<{ tripId: string | null; memberId: string }> {
+        const code = input.code.toUpperCase();
+        const isoNow = getISOString();
+        const mutation_id = generateUUID();
+
+        if (SYNC_AUTHORITY_ENABLED && !navigator.onLine) {
+            const memberId = generateUUID();
+            await localDb.mutations.add({
+                mutation_id,
+                entity_type: 'member',
+                entity_id: memberId,
+                action: 'create',
+                payload: { join: { code, user_id: userId, display_name: input.displayName } },
+                client_timestamp: isoNow,
+                client_sequence_number: getSequenceNumber(),
+                sync_status: 'pending'
+            });
+            return { tripId: null, memberId };
+        }
+
         const tripsRef = collection(db, 'trips');
-        const q = query(tripsRef, where('code', '==', input.code.toUpperCase()));
+        const q = query(tripsRef, where('code', '==', code));
         const snap = await getDocs(q);
 
         if (snap.empty) throw new Error('Trip not found');
@@ -120,8 +612,6 @@ export const mutationService = {
         const tripId = tripDoc.id;
 
         const memberRef = doc(collection(db, 'trips', tripId, 'members'));
-        const now = serverTimestamp();
-        const isoNow = getISOString();
 
         const memberData = {
             id: memberRef.id,
@@ -130,19 +620,63 @@ export const mutationService = {
             display_name: input.displayName,
             role: 'member' as const,
             is_ghost: false,
-            joined_at: now,
-            updated_at: now,
         };
 
-        await setDoc(memberRef, memberData);
+        const activity = newActivity({
+            trip_id: tripId,
+            type: 'member_joined',
+            entity_type: 'member',
+            entity_id: memberRef.id,
+            summary: input.displayName,
+            member_ids: [memberRef.id]
+        }, userId);
 
         // Local shadow
-        await localDb.members.add({
-            ...memberData,
-            joined_at: isoNow,
-            created_at: isoNow,
-            updated_at: isoNow
-        } as any);
+        const tripData = tripDoc.data();
+        await localDb.transaction('rw', localDb.trips, localDb.members, localDb.activity, localDb.mutations, async () => {
+            await localDb.trips.put({
+                id: tripId,
+                code: tripData.code,
+                name: tripData.name,
+                currency: tripData.currency || DEFAULT_CURRENCY,
+                exchange_rates: tripData.exchange_rates || {},
+                remainder_policy: tripData.remainder_policy || DEFAULT_REMAINDER_POLICY,
+                settlement_constraints: tripData.settlement_constraints,
+                status: tripData.status || 'active',
+                created_by: tripData.created_by,
+                created_at: isoNow,
+                updated_at: isoNow
+            });
+            await localDb.members.add({
+                ...memberData,
+                joined_at: isoNow,
+                created_at: isoNow,
+                updated_at: isoNow,
+                sync_status: SYNC_AUTHORITY_ENABLED ? 'pending' : 'synced'
+            });
+            await logActivity(activity);
+
+            if (SYNC_AUTHORITY_ENABLED) {
+                await localDb.mutations.add({
+                    mutation_id,
+                    entity_type: 'member',
+                    entity_id: memberRef.id,
+                    action: 'create',
+                    payload: { member: memberData, activity },
+                    client_timestamp: isoNow,
+                    client_sequence_number: getSequenceNumber(),
+                    sync_status: 'pending'
+                });
+            }
+        });
+
+        if (!SYNC_AUTHORITY_ENABLED) {
+            await setDoc(memberRef, { ...memberData, joined_at: serverTimestamp(), updated_at: serverTimestamp() });
+            // Separate write: the rules only see the membership once it exists
+            await setDoc(activityRef(activity), activity);
+        } else {
+            syncService.trigger();
+        }
 
         return { tripId, memberId: memberRef.id };
     },
@@ -151,30 +685,68 @@ export const mutationService = {
      * Adds a ghost member.
      */
     async addGhostMember(input: AddGhostMemberInput) {
-        const memberRef = doc(collection(db, 'trips', input.trip_id, 'members'));
-        const now = serverTimestamp();
+        await assertTripOpen(input.trip_id);
+
+        const memberId = doc(collection(db, 'trips', input.trip_id, 'members')).id;
         const isoNow = getISOString();
+        const mutation_id = generateUUID();
 
         const memberData = {
-            id: memberRef.id,
+            id: memberId,
             trip_id: input.trip_id,
             user_id: null,
             display_name: input.display_name,
             role: 'ghost' as const,
             is_ghost: true,
-            joined_at: now,
-            updated_at: now,
         };
 
-        await setDoc(memberRef, memberData);
-        await localDb.members.add({
-            ...memberData,
-            joined_at: isoNow,
-            created_at: isoNow,
-            updated_at: isoNow
-        } as any);
+        const activity = newActivity({
+            trip_id: input.trip_id,
+            type: 'member_added',
+            entity_type: 'member',
+            entity_id: memberId,
+            summary: input.display_name,
+            member_ids: [memberId]
+        });
+
+        await localDb.transaction('rw', localDb.members, localDb.activity, localDb.mutations, async () => {
+            await localDb.members.add({
+                ...memberData,
+                joined_at: isoNow,
+                created_at: isoNow,
+                updated_at: isoNow,
+                sync_status: SYNC_AUTHORITY_ENABLED ? 'pending' : 'synced'
+            });
+            await logActivity(activity);
+
+            if (SYNC_AUTHORITY_ENABLED) {
+                await localDb.mutations.add({
+                    mutation_id,
+                    entity_type: 'member',
+                    entity_id: memberId,
+                    action: 'create',
+                    payload: { member: memberData, activity },
+                    client_timestamp: isoNow,
+                    client_sequence_number: getSequenceNumber(),
+                    sync_status: 'pending'
+                });
+            }
+        });
+
+        if (!SYNC_AUTHORITY_ENABLED) {
+            const batch = writeBatch(db);
+            batch.set(doc(db, 'trips', input.trip_id, 'members', memberId), {
+                ...memberData,
+                joined_at: serverTimestamp(),
+                updated_at: serverTimestamp()
+            });
+            batch.set(activityRef(activity), activity);
+            await batch.commit();
+        } else {
+            syncService.trigger();
+        }
 
-        return memberRef.id;
+        return memberId;
     },
 
     /**
@@ -182,25 +754,22 @@ export const mutationService = {
      * Enforces Fix 1 (Idempotency) and Local-First behavior.
      */
     async createExpense(input: CreateExpenseInput, userId: string) {
-        const amount = Number(input.amount);
         const isoNow = getISOString();
         const mutation_id = generateUUID(); // Fix 1: mutation_id as potential doc ID
 
-        // 1. Validation
-        if (input.split_type === 'custom' || input.split_type === 'shares') {
-            const splitTotal = (input.custom_splits || []).reduce((sum, s) => sum + s.amount, 0);
-            if (Math.abs(splitTotal - amount) > 0.01) {
-                throw new Error(`Split total (₹${splitTotal.toFixed(2)}) must equal ₹${amount.toFixed(2)}`);
-            }
-        }
-
         const expense_id = mutation_id; // Fix 1: Use mutation_id as document ID
 
+        // 1. Validation
+        const { amount, currency, exchange_rate, localSplits } = await prepareExpense(input, expense_id);
+        await assertActiveMembers(expenseMemberIds(input.paid_by, localSplits));
+
         const expenseData = {
             id: expense_id,
             trip_id: input.trip_id,
             description: input.description,
             amount: amount,
+            currency,
+            exchange_rate,
             category: mapCategory(input.category),
             type: input.type,
             paid_by: input.paid_by,
@@ -208,33 +777,37 @@ export const mutationService = {
             expense_date: input.expense_date || isoNow.split('T')[0],
             receipt_url: input.receipt_url || null,
             ai_confirmed: input.ai_confirmed ?? true,
+            revision: 1,
             created_by: userId,
             created_at: isoNow,
             updated_at: isoNow,
             sync_status: (SYNC_AUTHORITY_ENABLED ? 'pending' : 'synced') as any
         };
 
+        // Keep the bill breakdown for review (Firestore rejects undefined fields)
+        if (input.split_type === 'itemized') {
+            Object.assign(expenseData, {
+                items: input.items,
+                charges: input.charges || { tax: 0, service: 0, tip: 0 }
+            });
+        }
+
+        const activity = newActivity({
+            trip_id: input.trip_id,
+            type: 'expense_created',
+            entity_type: 'expense',
+            entity_id: expense_id,
+            summary: input.description,
+            member_ids: expenseMemberIds(input.paid_by, localSplits),
+            amount,
+            currency
+        }, userId);
+
         // 2. Local-First Write (Section 2)
-        await localDb.transaction('rw', localDb.expenses, localDb.splits, localDb.mutations, async () => {
+        await localDb.transaction('rw', [localDb.expenses, localDb.splits, localDb.activity, localDb.mutations], async () => {
             await localDb.expenses.add(expenseData);
-
-            const localSplits: any[] = [];
-            if ((input.split_type === 'custom' || input.split_type === 'shares') && input.custom_splits) {
-                for (const split of input.custom_splits) {
-                    const split_id = generateUUID();
-                    const splitData: any = {
-                        id: split_id,
-                        expense_id,
-                        member_id: split.member_id,
-                        amount: split.amount,
-                    };
-                    if (split.shares !== undefined) {
-                        splitData.shares = split.shares;
-                    }
-                    await localDb.splits.add(splitData);
-                    localSplits.push(splitData);
-                }
-            }
+            await localDb.splits.bulkAdd(localSplits);
+            await logActivity(activity);
 
             // 3. Queue Mutation (Section 5)
             if (SYNC_AUTHORITY_ENABLED) {
@@ -243,7 +816,7 @@ export const mutationService = {
                     entity_type: 'expense',
                     entity_id: expense_id,
                     action: 'create',
-                    payload: { expense: expenseData, splits: localSplits },
+                    payload: { expense: expenseData, splits: localSplits, activity },
                     client_timestamp: isoNow,
                     client_sequence_number: getSequenceNumber(),
                     sync_status: 'pending'
@@ -256,13 +829,13 @@ export const mutationService = {
             const expenseRef = doc(db, 'trips', input.trip_id, 'expenses', expense_id);
             const batch = writeBatch(db);
             batch.set(expenseRef, { ...expenseData, created_at: serverTimestamp(), updated_at: serverTimestamp() });
-            // ... in direct mode splits would need a bit more work if we wanted exact parity, 
-            // but the directive says "turning flag off restores old behavior".
+            localSplits.forEach(s => {
+                batch.set(doc(collection(expenseRef, 'splits'), s.id), s);
+            });
+            batch.set(activityRef(activity), activity);
             await batch.commit();
         } else {
-            // Trigger background sync loop (to be implemented)
-            console.log('Background sync triggered for mutation:', mutation_id);
-            // syncService.trigger(); 
+            syncService.trigger();
         }
 
         return expense_id;
@@ -272,17 +845,41 @@ export const mutationService = {
      * Updates an expense.
      */
     async updateExpense(tripId: string, expenseId: string, updates: any) {
+        await assertTripOpen(tripId);
+
         const isoNow = getISOString();
         const mutation_id = generateUUID();
 
+        let activity: ActivityEntry | undefined;
+
         // 1. Local-First Write
-        await localDb.transaction('rw', localDb.expenses, localDb.mutations, async () => {
+        await localDb.transaction('rw', [localDb.expenses, localDb.splits, localDb.activity, localDb.mutations], async () => {
+            // Base version of the edited fields, for field-level conflict checks
+            const existing = await localDb.expenses.get(expenseId);
+            const base = getBase(existing, updates);
+            const base_revision = existing?.revision ?? 0;
+
+            // Raised right away, so a later queued write builds on this one
             await localDb.expenses.update(expenseId, {
                 ...updates,
+                revision: base_revision + 1,
                 updated_at: isoNow,
                 sync_status: SYNC_AUTHORITY_ENABLED ? 'pending' : 'synced'
             });
 
+            const type = expenseUpdateType(updates);
+            const splits = await localDb.splits.where('expense_id').equals(expenseId).toArray();
+            activity = newActivity({
+                trip_id: tripId,
+                type,
+                entity_type: 'expense',
+                entity_id: expenseId,
+                summary: updates.description ?? existing?.description ?? '',
+                member_ids: expenseMemberIds(updates.paid_by ?? existing?.paid_by, splits),
+                ...(type === 'expense_updated' && { changes: diffFields(base, updates) })
+            });
+            await logActivity(activity);
+
             // 2. Queue Mutation
             if (SYNC_AUTHORITY_ENABLED) {
                 await localDb.mutations.add({
@@ -290,7 +887,7 @@ export const mutationService = {
                     entity_type: 'expense',
                     entity_id: expenseId,
                     action: 'update',
-                    payload: updates,
+                    payload: { trip_id: tripId, changes: updates, base, base_revision, activity },
                     client_timestamp: isoNow,
                     client_sequence_number: getSequenceNumber(),
                     sync_status: 'pending'
@@ -301,25 +898,179 @@ export const mutationService = {
         // 3. Fallback/Direct
         if (!SYNC_AUTHORITY_ENABLED) {
             const expenseRef = doc(db, 'trips', tripId, 'expenses', expenseId);
-            await updateDoc(expenseRef, {
+            const batch = writeBatch(db);
+            batch.update(expenseRef, {
                 ...updates,
+                revision: increment(1),
                 updated_at: serverTimestamp()
             });
+            if (activity) batch.set(activityRef(activity), activity);
+            await batch.commit();
+        } else {
+            syncService.trigger();
         }
     },
 
     /**
-     * Deletes an expense.
+     * Full edit of an expense: payer, participants and split type included.
+     * Splits are recomputed from scratch and replace the old rows; the
+     * expense fields and split rows are queued as one mutation and land in
+     * one atomic write.
+     */
+    async editExpense(expenseId: string, input: CreateExpenseInput) {
+        const isoNow = getISOString();
+        const mutation_id = generateUUID();
+
+        const { amount, currency, exchange_rate, localSplits } = await prepareExpense(input, expenseId);
+        const isItemized = input.split_type === 'itemized';
+
+        // Someone who left can stay on an expense they were already on, but can't be added
+        const stored = await localDb.expenses.get(expenseId);
+        const storedSplits = await localDb.splits.where('expense_id').equals(expenseId).toArray();
+        const onExpense = new Set(expenseMemberIds(stored?.paid_by, storedSplits));
+        await assertActiveMembers(expenseMemberIds(input.paid_by, localSplits).filter(id => !onExpense.has(id)));
+
+        const changes: Record<string, unknown> = {
+            description: input.description,
+            amount,
+            currency,
+            exchange_rate,
+            category: mapCategory(input.category),
+            type: input.type,
+            paid_by: input.paid_by,
+            split_type: input.split_type,
+            // Cleared (not undefined, which Firestore rejects) when leaving itemized
+            items: isItemized ? input.items : null,
+            charges: isItemized ? (input.charges || { tax: 0, service: 0, tip: 0 }) : null,
+        };
+        if (input.expense_date) changes.expense_date = input.expense_date;
+        if (input.receipt_url) changes.receipt_url = input.receipt_url;
+        if (input.ai_confirmed !== undefined) changes.ai_confirmed = input.ai_confirmed;
+
+        let activity: ActivityEntry | undefined;
+
+        // 1. Local-First Write
+        await localDb.transaction('rw', [localDb.expenses, localDb.splits, localDb.activity, localDb.mutations], async () => {
+            const existing = await localDb.expenses.get(expenseId);
+            if (!existing) throw new Error('Expense not found');
+
+            const base = getBase(existing, changes);
+            const base_revision = existing.revision ?? 0;
+            const oldSplits = await localDb.splits.where('expense_id').equals(expenseId).toArray();
+
+            await localDb.expenses.update(expenseId, {
+                ...(changes as Partial<LocalExpense>),
+                revision: base_revision + 1,
+                updated_at: isoNow,
+                sync_status: SYNC_AUTHORITY_ENABLED ? 'pending' : 'synced'
+            });
+            await localDb.splits.where('expense_id').equals(expenseId).delete();
+            await localDb.splits.bulkAdd(localSplits);
+
+            // People dropped from the split are concerned too
+            activity = newActivity({
+                trip_id: input.trip_id,
+                type: 'expense_updated',
+                entity_type: 'expense',
+                entity_id: expenseId,
+                summary: input.description,
+                member_ids: [...new Set([
+                    ...expenseMemberIds(existing.paid_by, oldSplits),
+                    ...expenseMemberIds(input.paid_by, localSplits)
+                ])],
+                amount,
+                currency,
+                changes: diffFields(base, changes)
+            });
+            await logActivity(activity);
+
+            // 2. Queue Mutation
+            if (SYNC_AUTHORITY_ENABLED) {
+                await localDb.mutations.add({
+                    mutation_id,
+                    entity_type: 'expense',
+                    entity_id: expenseId,
+                    action: 'update',
+                    payload: { trip_id: input.trip_id, changes, base, base_revision, splits: localSplits, activity },
+                    client_timestamp: isoNow,
+                    client_sequence_number: getSequenceNumber(),
+                    sync_status: 'pending'
+                });
+            }
+        });
+
+        // 3. Fallback/Direct
+        if (!SYNC_AUTHORITY_ENABLED) {
+            const expenseRef = doc(db, 'trips', input.trip_id, 'expenses', expenseId);
+            const splitsSnap = await getDocs(collection(expenseRef, 'splits'));
+
+            const batch = writeBatch(db);
+            batch.update(expenseRef, {
+                ...changes,
+                revision: increment(1),
+                updated_at: serverTimestamp()
+            });
+            splitsSnap.docs.forEach(d => batch.delete(d.ref));
+            localSplits.forEach(s => {
+                batch.set(doc(collection(expenseRef, 'splits'), s.id), s);
+            });
+            if (activity) batch.set(activityRef(activity), activity);
+            await batch.commit();
+        } else {
+            syncService.trigger();
+        }
+    },
+
+    /**
+     * Moves an expense to the trip's trash (soft delete).
+     * The tombstone is an ordinary revisioned update, so it syncs and merges
+     * like any other edit and other devices hide the expense.
+     */
+    async trashExpense(tripId: string, expenseId: string, userId: string) {
+        await mutationService.updateExpense(tripId, expenseId, {
+            deleted_at: getISOString(),
+            deleted_by: userId
+        });
+    },
+
+    /**
+     * Brings a trashed expense back.
+     */
+    async restoreExpense(tripId: string, expenseId: string) {
+        await mutationService.updateExpense(tripId, expenseId, {
+            deleted_at: null,
+            deleted_by: null
+        });
+    },
+
+    /**
+     * Permanently deletes an expense and its splits.
      */
     async deleteExpense(tripId: string, expenseId: string) {
+        await assertTripOpen(tripId);
+
         const isoNow = getISOString();
         const mutation_id = generateUUID();
 
+        let activity: ActivityEntry | undefined;
+
         // 1. Local-First Write
-        await localDb.transaction('rw', localDb.expenses, localDb.splits, localDb.mutations, async () => {
+        await localDb.transaction('rw', [localDb.expenses, localDb.splits, localDb.activity, localDb.mutations], async () => {
+            const existing = await localDb.expenses.get(expenseId);
+            const splits = await localDb.splits.where('expense_id').equals(expenseId).toArray();
             await localDb.expenses.delete(expenseId);
             await localDb.splits.where('expense_id').equals(expenseId).delete();
 
+            activity = newActivity({
+                trip_id: tripId,
+                type: 'expense_deleted',
+                entity_type: 'expense',
+                entity_id: expenseId,
+                summary: existing?.description ?? '',
+                member_ids: expenseMemberIds(existing?.paid_by, splits)
+            });
+            await logActivity(activity);
+
             // 2. Queue Mutation
             if (SYNC_AUTHORITY_ENABLED) {
                 await localDb.mutations.add({
@@ -327,7 +1078,7 @@ export const mutationService = {
                     entity_type: 'expense',
                     entity_id: expenseId,
                     action: 'delete',
-                    payload: { expenseId },
+                    payload: { expenseId, trip_id: tripId, base_revision: existing?.revision ?? 0, activity },
                     client_timestamp: isoNow,
                     client_sequence_number: getSequenceNumber(),
                     sync_status: 'pending'
@@ -344,25 +1095,283 @@ export const mutationService = {
             const batch = writeBatch(db);
             splitsSnap.docs.forEach(d => batch.delete(d.ref));
             batch.delete(expenseRef);
+            if (activity) batch.set(activityRef(activity), activity);
             await batch.commit();
+        } else {
+            syncService.trigger();
         }
     },
 
+    /**
+     * Records a settlement payment ("Amit paid Neha 2,000").
+     * Amount is in the trip's base currency.
+     */
+    async recordPayment(input: CreatePaymentInput, userId: string) {
+        const payment = await preparePayment(input, userId);
+
+        // 1. Local-First Write + Queue
+        await localDb.transaction('rw', localDb.payments, localDb.activity, localDb.mutations, async () => {
+            await stagePayment(payment);
+        });
+
+        // 2. Fallback/Direct
+        if (!SYNC_AUTHORITY_ENABLED) {
+            const batch = writeBatch(db);
+            batchPayment(batch, payment);
+            await batch.commit();
+        } else {
+            syncService.trigger();
+        }
+
+        return payment.data.id;
+    },
+
+    /**
+     * Deletes a recorded payment (e.g. marked as paid by mistake).
+     */
+    async deletePayment(tripId: string, paymentId: string) {
+        await assertTripOpen(tripId);
+
+        const isoNow = getISOString();
+        const mutation_id = generateUUID();
+
+        // Payments are recorded in the trip's currency
+        const trip = await localDb.trips.get(tripId);
+        const currency = trip?.currency || DEFAULT_CURRENCY;
+
+        let activity: ActivityEntry | undefined;
+
+        await localDb.transaction('rw', localDb.payments, localDb.activity, localDb.mutations, async () => {
+            const existing = await localDb.payments.get(paymentId);
+            await localDb.payments.delete(paymentId);
+
+            activity = newActivity({
+                trip_id: tripId,
+                type: 'payment_deleted',
+                entity_type: 'payment',
+                entity_id: paymentId,
+                summary: existing?.note || '',
+                member_ids: existing ? [existing.from, existing.to] : [],
+                ...(existing && { amount: existing.amount, currency })
+            });
+            await logActivity(activity);
+
+            if (SYNC_AUTHORITY_ENABLED) {
+                await localDb.mutations.add({
+                    mutation_id,
+                    entity_type: 'payment',
+                    entity_id: paymentId,
+                    action: 'delete',
+                    payload: { trip_id: tripId, activity },
+                    client_timestamp: isoNow,
+                    client_sequence_number: getSequenceNumber(),
+                    sync_status: 'pending'
+                });
+            }
+        });
+
+        if (!SYNC_AUTHORITY_ENABLED) {
+            const batch = writeBatch(db);
+            batch.delete(doc(db, 'trips', tripId, 'payments', paymentId));
+            if (activity) batch.set(activityRef(activity), activity);
+            await batch.commit();
+        } else {
+            syncService.trigger();
+        }
+    },
+
+    /**
+     * Stores a finalised settle-up (see createSettlementSnapshot).
+     * Snapshots are append-only history; they never change balances.
+     */
+    async finalizeSettlement(snapshot: Omit<SettlementSnapshot, 'id' | 'generated_at'>) {
+        await assertTripOpen(snapshot.trip_id);
+
+        const isoNow = getISOString();
+        const mutation_id = generateUUID();
+
+        const settlementData: LocalSettlement = {
+            ...snapshot,
+            id: mutation_id,
+            generated_at: isoNow,
+            sync_status: SYNC_AUTHORITY_ENABLED ? 'pending' : 'synced'
+        };
+
+        const activity = newActivity({
+            trip_id: snapshot.trip_id,
+            type: 'settlement_finalized',
+            entity_type: 'settlement',
+            entity_id: settlementData.id,
+            summary: `${snapshot.transactions.length} payment${snapshot.transactions.length === 1 ? '' : 's'}`,
+            member_ids: [...new Set(snapshot.transactions.flatMap(t => [t.from, t.to]))],
+            amount: roundToMinorUnit(snapshot.transactions.reduce((sum, t) => sum + t.amount, 0), snapshot.currency),
+            currency: snapshot.currency
+        }, snapshot.generated_by);
+
+        await localDb.transaction('rw', localDb.settlements, localDb.activity, localDb.mutations, async () => {
+            await localDb.settlements.add(settlementData);
+            await logActivity(activity);
+
+            if (SYNC_AUTHORITY_ENABLED) {
+                await localDb.mutations.add({
+                    mutation_id,
+                    entity_type: 'settlement',
+                    entity_id: settlementData.id,
+                    action: 'create',
+                    payload: { settlement: settlementData, activity },
+                    client_timestamp: isoNow,
+                    client_sequence_number: getSequenceNumber(),
+                    sync_status: 'pending'
+                });
+            }
+        });
+
+        if (!SYNC_AUTHORITY_ENABLED) {
+            const batch = writeBatch(db);
+            batch.set(doc(db, 'trips', snapshot.trip_id, 'settlements', settlementData.id), settlementData);
+            batch.set(activityRef(activity), activity);
+            await batch.commit();
+        } else {
+            syncService.trigger();
+        }
+
+        return settlementData.id;
+    },
+
+    /**
+     * Updates trip settings (name, exchange rates, remainder policy,
+     * settlement constraints), logged with the fields that changed.
+     */
+    async updateTrip(tripId: string, updates: UpdateTripInput) {
+        await assertTripOpen(tripId);
+
+        const trip = await localDb.trips.get(tripId);
+        const changes = diffFields({ ...trip }, { ...updates });
+        await writeTripUpdate(tripId, updates, changes.length > 0 ? newActivity({
+            trip_id: tripId,
+            type: 'trip_updated',
+            entity_type: 'trip',
+            entity_id: tripId,
+            summary: updates.name ?? trip?.name ?? '',
+            member_ids: [],
+            changes
+        }) : undefined);
+    },
+
+    /**
+     * Closes a trip: it becomes read-only for everyone until reopened.
+     * Admins only (enforced by the Firestore rules).
+     */
+    async archiveTrip(tripId: string, userId: string) {
+        const trip = await localDb.trips.get(tripId);
+        await writeTripUpdate(
+            tripId,
+            { status: 'archived', archived_at: getISOString() },
+            newActivity({
+                trip_id: tripId,
+                type: 'trip_archived',
+                entity_type: 'trip',
+                entity_id: tripId,
+                summary: trip?.name ?? '',
+                member_ids: []
+            }, userId)
+        );
+    },
+
+    /**
+     * Reopens a closed trip.
+     */
+    async reopenTrip(tripId: string, userId: string) {
+        const trip = await localDb.trips.get(tripId);
+        await writeTripUpdate(
+            tripId,
+            { status: 'active', archived_at: null },
+            newActivity({
+                trip_id: tripId,
+                type: 'trip_reopened',
+                entity_type: 'trip',
+                entity_id: tripId,
+                summary: trip?.name ?? '',
+                member_ids: []
+            }, userId)
+        );
+    },
+
     /**
      * Updates member info.
      */
     async updateMember(tripId: string, memberId: string, updates: any) {
-        const memberRef = doc(db, 'trips', tripId, 'members', memberId);
-        const now = serverTimestamp();
+        await assertTripOpen(tripId);
+        await writeMemberUpdate(tripId, memberId, updates, 'member_updated');
+    },
 
-        await updateDoc(memberRef, {
-            ...updates,
-            updated_at: now
-        });
+    /**
+     * Removes a member from the trip (admins only, enforced by the rules).
+     * See deactivateMember for the balance rules.
+     */
+    async removeMember(tripId: string, memberId: string, userId: string, transferTo?: string) {
+        await deactivateMember(tripId, memberId, userId, 'member_removed', transferTo);
+    },
 
-        await localDb.members.update(memberId, {
-            ...updates,
-            updated_at: getISOString()
+    /**
+     * Leaves a trip. See deactivateMember for the balance rules.
+     */
+    async leaveTrip(tripId: string, memberId: string, userId: string, transferTo?: string) {
+        await deactivateMember(tripId, memberId, userId, 'member_left', transferTo);
+    },
+
+    /**
+     * Asks to take over a ghost's spot when joining a trip.
+     * Written straight to Firestore: the claimant isn't a member yet, so
+     * nothing of the trip is cached locally.
+     */
+    async requestGhostClaim(tripId: string, memberId: string, userId: string, displayName: string) {
+        const claim: GhostClaim = {
+            user_id: userId,
+            display_name: displayName,
+            requested_at: getISOString()
+        };
+        await updateDoc(doc(db, 'trips', tripId, 'members', memberId), {
+            claim,
+            updated_at: serverTimestamp()
         });
+    },
+
+    /**
+     * Links a ghost to the account that claimed it (admins only).
+     * The ghost keeps its id, so its expenses, splits and payments now
+     * belong to the claimant.
+     *
+     * @throws Error if there is no pending claim, or the claimant already
+     *   has their own membership in the trip
+     */
+    async approveGhostClaim(tripId: string, memberId: string) {
+        await assertTripOpen(tripId);
+
+        const ghost = await localDb.members.get(memberId);
+        const claim = ghost?.claim;
+        if (!ghost || !ghost.is_ghost || !claim) throw new Error('No pending claim for this member');
+
+        const existing = await localDb.members.where('user_id').equals(claim.user_id)
+            .filter(m => m.trip_id === tripId && !m.left_at)
+            .first();
+        if (existing) {
+            throw new Error(`${claim.display_name} is already a member of this trip`);
+        }
+
+        await writeMemberUpdate(tripId, memberId, {
+            user_id: claim.user_id,
+            is_ghost: false,
+            role: 'member',
+            claim: null
+        }, 'member_claimed');
+    },
+
+    /**
+     * Turns a claim down; the ghost can be claimed again.
+     */
+    async rejectGhostClaim(tripId: string, memberId: string) {
+        await assertTripOpen(tripId);
+        await writeMemberUpdate(tripId, memberId, { claim: null }, 'member_updated');
     }
 };
@@ -4,35 +4,177 @@
 import {
     onSnapshot,
     collection,
+    collectionGroup,
     doc,
     writeBatch,
+    setDoc,
+    getDoc,
+    getDocs,
     serverTimestamp,
+    runTransaction,
     query,
     orderBy,
-    limit
+    where,
+    limit,
+    Timestamp,
+    type DocumentData
 } from 'firebase/firestore';
 import { db } from '../config/firebase';
-import { localDb } from '../config/localDb';
+import { localDb, type LocalMutation, type LocalSplit } from '../config/localDb';
+import type { ActivityEntry } from '../types';
 import { SYNC_AUTHORITY_ENABLED } from '../config/flags';
+import { DEFAULT_REMAINDER_POLICY } from '../utils/remainder';
+import {
+    ConflictError,
+    applyConflictChoices,
+    planRevisionedUpdate,
+    assertDeleteRevision,
+    rebaseQueuedRevisions,
+    type ConflictChoice
+} from '../utils/conflictResolver';
+import { createActivity } from '../utils/activity';
+
+// Dexie table holding each entity type
+const ENTITY_TABLES: Record<LocalMutation['entity_type'], string> = {
+    expense: 'expenses',
+    split: 'splits',
+    trip: 'trips',
+    member: 'members',
+    payment: 'payments',
+    settlement: 'settlements',
+};
+
+// Firestore Timestamp, ISO string or missing → ISO string
+const toISO = (value: unknown): string => {
+    if (value instanceof Timestamp) return value.toDate().toISOString();
+    return typeof value === 'string' && value ? value : new Date().toISOString();
+};
+
+// Server split document → local row
+const toLocalSplit = (id: string, expenseId: string, data: DocumentData): LocalSplit => ({
+    id,
+    expense_id: expenseId,
+    ...(data.trip_id && { trip_id: data.trip_id }),
+    member_id: data.member_id || '',
+    amount: data.amount || 0,
+    shares: data.shares,
+    percentage: data.percentage,
+    base_amount: data.base_amount,
+    adjustment: data.adjustment,
+    rounding_drift: data.rounding_drift
+});
+
+const POLL_INTERVAL = 30000;
+// Most recent activity entries kept in sync per trip
+const ACTIVITY_LIMIT = 200;
+// Web Lock shared by every tab of the app, so only one pushes the queue at a time
+const QUEUE_LOCK_NAME = 'tripsplit-sync-queue';
+
+/**
+ * An edit's activity entry lists only the fields the server actually took,
+ * with their final values (see planRevisionedUpdate).
+ */
+function settleActivity(activity: ActivityEntry, changes: Record<string, unknown>): ActivityEntry {
+    if (!activity.changes) return activity;
+    return {
+        ...activity,
+        changes: activity.changes
+            .filter(c => c.field in changes)
+            .map(c => ({ ...c, after: changes[c.field] ?? null }))
+    };
+}
 
 class SyncService {
     private unsubscribes: Map<string, () => void> = new Map();
     private syncTimeout: ReturnType<typeof setTimeout> | null = null;
     private backoffDelay = 0;
     private isSyncing = false;
+    private loopActive = false;
+    private flushRequested = false;
+    private statusListeners: Set<() => void> = new Set();
+
+    /**
+     * True while the queue is being pushed to the server.
+     */
+    get syncing() {
+        return this.isSyncing;
+    }
+
+    /**
+     * Notifies the listener whenever `syncing` changes.
+     * Shaped for React's useSyncExternalStore.
+     */
+    subscribe(listener: () => void) {
+        this.statusListeners.add(listener);
+        return () => {
+            this.statusListeners.delete(listener);
+        };
+    }
+
+    private setSyncing(value: boolean) {
+        if (this.isSyncing === value) return;
+        this.isSyncing = value;
+        this.statusListeners.forEach(listener => listener());
+    }
 
     /**
-     * Starts the periodic background sync engine.
+     * Starts the background sync engine.
+     * The queue is flushed right away, after every local write (see trigger),
+     * when the browser comes back online and when the tab is shown or hidden.
+     * In between it polls; while offline it is paused.
      */
     startSyncLoop() {
         if (!SYNC_AUTHORITY_ENABLED) return;
-        if (this.syncTimeout) return;
+        if (this.loopActive) return;
 
         console.log('[SyncMaster] Starting sync loop...');
+        this.loopActive = true;
+        window.addEventListener('online', this.handleOnline);
+        window.addEventListener('offline', this.handleOffline);
+        document.addEventListener('visibilitychange', this.handleVisibilityChange);
         this.scheduleNextSync(0);
     }
 
     stopSyncLoop() {
+        this.loopActive = false;
+        window.removeEventListener('online', this.handleOnline);
+        window.removeEventListener('offline', this.handleOffline);
+        document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+        this.clearScheduledSync();
+    }
+
+    /**
+     * Requests an immediate flush, e.g. after a local write.
+     * A flush requested mid-run starts again as soon as the run finishes,
+     * so writes made while syncing are not left waiting for the next poll.
+     */
+    trigger() {
+        if (!SYNC_AUTHORITY_ENABLED) return;
+
+        if (this.isSyncing) {
+            this.flushRequested = true;
+            return;
+        }
+        this.scheduleNextSync(0);
+    }
+
+    private handleOnline = () => {
+        console.log('[SyncMaster] Back online, resuming sync');
+        this.backoffDelay = 0;
+        this.trigger();
+    };
+
+    private handleOffline = () => {
+        console.log('[SyncMaster] Offline, pausing sync');
+        this.clearScheduledSync();
+    };
+
+    // Flush when the user comes back, and before the tab is backgrounded or closed
+    private handleVisibilityChange = () => {
+        this.trigger();
+    };
+
+    private clearScheduledSync() {
         if (this.syncTimeout) {
             clearTimeout(this.syncTimeout);
             this.syncTimeout = null;
@@ -40,13 +182,26 @@ class SyncService {
     }
 
     private scheduleNextSync(delay: number) {
-        if (this.syncTimeout) clearTimeout(this.syncTimeout);
+        this.clearScheduledSync();
+
+        // Paused while offline; the 'online' event picks it back up
+        if (!navigator.onLine) return;
 
         this.syncTimeout = setTimeout(() => {
+            this.syncTimeout = null;
             this.processQueue();
         }, delay);
     }
 
+    /**
+     * Runs the task while holding the cross-tab queue lock, waiting for any
+     * other tab to finish first. Without Web Locks it runs unguarded.
+     */
+    private async withQueueLock<T>(task: () => Promise<T>): Promise<T> {
+        if (!navigator.locks) return task();
+        return await navigator.locks.request(QUEUE_LOCK_NAME, task);
+    }
+
     /**
      * Initializes hydration listeners for a trip.
      * Implements Fix 2: Local-Wins Hydration.
@@ -65,7 +220,12 @@ class SyncService {
             q = query(expensesRef, orderBy('created_at', 'desc'), limit(limitCount));
         }
 
+        // Resolves once the trip-wide splits listener (below) has its first result
+        let splitsLoaded: () => void = () => {};
+        const splitsReady = new Promise<void>(resolve => { splitsLoaded = resolve; });
+
         const unsubExpenses = onSnapshot(q, async (snapshot) => {
+            await splitsReady;
             for (const change of snapshot.docChanges()) {
                 const data = change.doc.data();
                 const expenseId = change.doc.id;
@@ -79,29 +239,450 @@ class SyncService {
                 } else {
                     const pending = await localDb.mutations.where('entity_id').equals(expenseId).first();
                     if (!pending) {
-                        await localDb.expenses.put({
-                            id: expenseId,
-                            trip_id: tripId,
-                            description: data.description || '',
-                            amount: data.amount || 0,
-                            category: data.category || 'other',
-                            type: data.type || 'daily',
-                            paid_by: data.paid_by || '',
-                            split_type: data.split_type || 'equal',
-                            expense_date: data.expense_date || '',
-                            receipt_url: data.receipt_url || null,
-                            ai_confirmed: data.ai_confirmed ?? true,
-                            created_by: data.created_by || '',
-                            created_at: data.created_at?.toDate?.()?.toISOString() || data.created_at || new Date().toISOString(),
-                            updated_at: data.updated_at?.toDate?.()?.toISOString() || data.updated_at || new Date().toISOString(),
-                            sync_status: 'synced'
-                        } as any);
+                        await this.putExpense(tripId, expenseId, data);
+                        // Older splits carry no trip_id; fetch those per expense
+                        if (await localDb.splits.where('expense_id').equals(expenseId).count() === 0) {
+                            await this.hydrateSplits(tripId, expenseId);
+                        }
                     }
                 }
             }
         });
 
-        this.unsubscribes.set(tripId, unsubExpenses);
+        // 1b. Listen to Splits of every expense in the trip with one query
+        // (same local-wins rule, keyed by their expense)
+        const splitsQuery = query(collectionGroup(db, 'splits'), where('trip_id', '==', tripId));
+        const unsubSplits = onSnapshot(splitsQuery, async (snapshot) => {
+            for (const change of snapshot.docChanges()) {
+                const expenseId = change.doc.ref.parent.parent?.id;
+                if (!expenseId) continue;
+
+                const pending = await localDb.mutations.where('entity_id').equals(expenseId).first();
+                if (pending) continue;
+
+                if (change.type === 'removed') {
+                    await localDb.splits.delete(change.doc.id);
+                } else {
+                    await localDb.splits.put(toLocalSplit(change.doc.id, expenseId, change.doc.data()));
+                }
+            }
+            splitsLoaded();
+        }, (err) => {
+            // Without it, expenses fall back to fetching their splits one by one
+            console.warn('[SyncMaster] Splits listener failed:', err);
+            splitsLoaded();
+        });
+
+        // 2. Listen to Payments (same local-wins rule)
+        const unsubPayments = onSnapshot(collection(db, 'trips', tripId, 'payments'), async (snapshot) => {
+            for (const change of snapshot.docChanges()) {
+                const data = change.doc.data();
+                const paymentId = change.doc.id;
+
+                const pending = await localDb.mutations.where('entity_id').equals(paymentId).first();
+                if (pending) continue;
+
+                if (change.type === 'removed') {
+                    await localDb.payments.delete(paymentId);
+                } else {
+                    await localDb.payments.put({
+                        id: paymentId,
+                        trip_id: tripId,
+                        from: data.from || '',
+                        to: data.to || '',
+                        amount: data.amount || 0,
+                        payment_date: data.payment_date || '',
+                        method: data.method || 'other',
+                        note: data.note || null,
+                        created_by: data.created_by || '',
+                        created_at: toISO(data.created_at),
+                        updated_at: toISO(data.updated_at),
+                        sync_status: 'synced'
+                    });
+                }
+            }
+        });
+
+        // 3. Listen to Settlement Snapshots (append-only history)
+        const unsubSettlements = onSnapshot(collection(db, 'trips', tripId, 'settlements'), async (snapshot) => {
+            for (const change of snapshot.docChanges()) {
+                const data = change.doc.data();
+                const settlementId = change.doc.id;
+
+                if (change.type === 'removed') {
+                    await localDb.settlements.delete(settlementId);
+                } else {
+                    await localDb.settlements.put({
+                        id: settlementId,
+                        trip_id: tripId,
+                        filter_type: data.filter_type || 'all',
+                        generated_at: data.generated_at || new Date().toISOString(),
+                        generated_by: data.generated_by || '',
+                        transactions: data.transactions || [],
+                        balances: data.balances || {},
+                        currency: data.currency || 'INR',
+                        algorithm_version: data.algorithm_version || '1.0',
+                        sync_status: 'synced'
+                    });
+                }
+            }
+        });
+
+        // 4. Listen to Members (same local-wins rule)
+        const unsubMembers = onSnapshot(collection(db, 'trips', tripId, 'members'), async (snapshot) => {
+            for (const change of snapshot.docChanges()) {
+                const data = change.doc.data();
+                const memberId = change.doc.id;
+
+                const pending = await localDb.mutations.where('entity_id').equals(memberId).first();
+                if (pending) continue;
+
+                if (change.type === 'removed') {
+                    await localDb.members.delete(memberId);
+                } else {
+                    await this.putMember(tripId, memberId, data);
+                }
+            }
+        });
+
+        // 5. Listen to Trip metadata (same local-wins rule)
+        const unsubTrip = onSnapshot(doc(db, 'trips', tripId), async (snapshot) => {
+            if (!snapshot.exists()) return;
+
+            const pending = await localDb.mutations.where('entity_id').equals(tripId).first();
+            if (pending) return;
+
+            await this.putTrip(tripId, snapshot.data());
+        });
+
+        // 6. Listen to the Activity log (append-only, newest first)
+        const activityQuery = query(
+            collection(db, 'trips', tripId, 'activity'),
+            orderBy('created_at', 'desc'),
+            limit(ACTIVITY_LIMIT)
+        );
+        const unsubActivity = onSnapshot(activityQuery, async (snapshot) => {
+            for (const change of snapshot.docChanges()) {
+                // Entries are never deleted; 'removed' means older than the window
+                if (change.type === 'removed') continue;
+
+                const data = change.doc.data();
+                await localDb.activity.put({
+                    id: change.doc.id,
+                    trip_id: tripId,
+                    type: data.type,
+                    entity_type: data.entity_type,
+                    entity_id: data.entity_id || '',
+                    summary: data.summary || '',
+                    member_ids: data.member_ids || [],
+                    ...(data.amount !== undefined && { amount: data.amount, currency: data.currency }),
+                    ...(data.changes && { changes: data.changes }),
+                    actor_id: data.actor_id || '',
+                    created_at: toISO(data.created_at),
+                    sync_status: 'synced'
+                });
+            }
+        });
+
+        this.unsubscribes.set(tripId, () => {
+            unsubExpenses();
+            unsubSplits();
+            unsubPayments();
+            unsubSettlements();
+            unsubMembers();
+            unsubTrip();
+            unsubActivity();
+        });
+    }
+
+    /**
+     * Pulls every trip the user belongs to into the local DB, so the trip
+     * list also shows trips joined on other devices. Only the trip and the
+     * user's own membership are fetched; the rest hydrates when the trip is
+     * opened.
+     */
+    async syncMyTrips(userId: string) {
+        if (!SYNC_AUTHORITY_ENABLED) return;
+
+        const snapshot = await getDocs(query(collectionGroup(db, 'members'), where('user_id', '==', userId)));
+
+        for (const memberDoc of snapshot.docs) {
+            const tripRef = memberDoc.ref.parent.parent;
+            if (!tripRef) continue;
+
+            const tripSnap = await getDoc(tripRef);
+            if (!tripSnap.exists()) continue;
+
+            // Same local-wins rule as hydration
+            if (!(await localDb.mutations.where('entity_id').equals(tripRef.id).first())) {
+                await this.putTrip(tripRef.id, tripSnap.data());
+            }
+            if (!(await localDb.mutations.where('entity_id').equals(memberDoc.id).first())) {
+                await this.putMember(tripRef.id, memberDoc.id, memberDoc.data());
+            }
+        }
+    }
+
+    /**
+     * Writes a server trip document to the local DB.
+     */
+    private async putTrip(tripId: string, data: DocumentData) {
+        await localDb.trips.put({
+            id: tripId,
+            name: data.name || '',
+            code: data.code || '',
+            currency: data.currency || 'INR',
+            exchange_rates: data.exchange_rates || {},
+            remainder_policy: data.remainder_policy || DEFAULT_REMAINDER_POLICY,
+            settlement_constraints: data.settlement_constraints,
+            status: data.status || 'active',
+            archived_at: data.archived_at || null,
+            created_by: data.created_by || '',
+            created_at: toISO(data.created_at),
+            updated_at: toISO(data.updated_at),
+            sync_status: 'synced'
+        });
+    }
+
+    /**
+     * Writes a server member document to the local DB.
+     */
+    private async putMember(tripId: string, memberId: string, data: DocumentData) {
+        await localDb.members.put({
+            id: memberId,
+            trip_id: tripId,
+            display_name: data.display_name || '',
+            user_id: data.user_id || null,
+            role: data.role || 'member',
+            is_ghost: data.is_ghost ?? false,
+            joined_at: toISO(data.joined_at),
+            left_at: data.left_at || null,
+            removed_by: data.removed_by || null,
+            claim: data.claim || null,
+            created_at: toISO(data.created_at || data.joined_at),
+            updated_at: toISO(data.updated_at),
+            sync_status: 'synced'
+        });
+    }
+
+    /**
+     * Writes a server expense document to the local DB.
+     */
+    private async putExpense(tripId: string, expenseId: string, data: DocumentData) {
+        await localDb.expenses.put({
+            id: expenseId,
+            trip_id: tripId,
+            description: data.description || '',
+            amount: data.amount || 0,
+            currency: data.currency || 'INR',
+            exchange_rate: data.exchange_rate ?? 1,
+            category: data.category || 'other',
+            type: data.type || 'daily',
+            paid_by: data.paid_by || '',
+            split_type: data.split_type || 'equal',
+            items: data.items,
+            charges: data.charges,
+            expense_date: data.expense_date || '',
+            receipt_url: data.receipt_url || null,
+            ai_confirmed: data.ai_confirmed ?? true,
+            revision: data.revision ?? 0,
+            deleted_at: data.deleted_at || null,
+            deleted_by: data.deleted_by || null,
+            created_by: data.created_by || '',
+            created_at: toISO(data.created_at),
+            updated_at: toISO(data.updated_at),
+            sync_status: 'synced'
+        });
+    }
+
+    /**
+     * Replaces the local splits of an expense with the server copy.
+     * Hydration keeps splits current through one trip-wide listener; this is
+     * for restoring a single expense, and for splits written before trip_id
+     * was stamped on them (which that listener can't see).
+     */
+    private async hydrateSplits(tripId: string, expenseId: string) {
+        const snapshot = await getDocs(collection(db, 'trips', tripId, 'expenses', expenseId, 'splits'));
+
+        const splits = snapshot.docs.map(splitDoc => toLocalSplit(splitDoc.id, expenseId, splitDoc.data()));
+
+        // A local write may have started while the fetch was in flight
+        const pending = await localDb.mutations.where('entity_id').equals(expenseId).first();
+        if (pending) return;
+
+        await localDb.transaction('rw', localDb.splits, async () => {
+            await localDb.splits.where('expense_id').equals(expenseId).delete();
+            await localDb.splits.bulkPut(splits);
+        });
+    }
+
+    /**
+     * Moves this device's later queued writes to an expense onto the revision
+     * the server just stored, and shows it on the local copy
+     * (see rebaseQueuedRevisions). Matters when the server merged the write
+     * over someone else's.
+     */
+    private async rebaseQueued(mut: LocalMutation, revision: number) {
+        await localDb.transaction('rw', localDb.expenses, localDb.mutations, async () => {
+            const later = (await localDb.mutations.where('entity_id').equals(mut.entity_id).sortBy('client_sequence_number'))
+                .filter(m => m.mutation_id !== mut.mutation_id && m.sync_status === 'pending');
+
+            const { bases, local } = rebaseQueuedRevisions(revision, later.map(m => m.action));
+            for (const [i, queued] of later.entries()) {
+                await localDb.mutations.update(queued.mutation_id, {
+                    payload: { ...queued.payload, base_revision: bases[i] }
+                });
+            }
+            await localDb.expenses.update(mut.entity_id, { revision: local });
+        });
+    }
+
+    /**
+     * Updates the sync status of the local entity a mutation belongs to.
+     */
+    private async markEntity(mut: LocalMutation, sync_status: 'synced' | 'pending' | 'conflicted') {
+        await localDb.table(ENTITY_TABLES[mut.entity_type]).update(mut.entity_id, { sync_status });
+    }
+
+    /**
+     * Requeues a conflicted update with the user's choice per field.
+     * Fields resolved to 'remote' take the server value locally as well;
+     * if nothing of the local change is kept, the mutation is dropped.
+     */
+    async resolveConflict(mutationId: string, choices: Record<string, ConflictChoice>) {
+        const mut = await localDb.mutations.get(mutationId);
+        if (!mut?.conflict?.remote) return;
+
+        const { changes, base } = applyConflictChoices(
+            mut.payload.changes,
+            mut.conflict.remote,
+            mut.conflict.fields,
+            choices
+        );
+        const remoteValues = Object.fromEntries(
+            mut.conflict.fields
+                .filter(c => choices[c.field] !== 'local')
+                .map(c => [c.field, c.remote])
+        );
+        const table = localDb.table(ENTITY_TABLES[mut.entity_type]);
+
+        await localDb.transaction('rw', localDb.mutations, table, async () => {
+            if (Object.keys(changes).length === 0) {
+                await localDb.mutations.delete(mutationId);
+                await table.update(mut.entity_id, { ...remoteValues, sync_status: 'synced' });
+            } else {
+                await localDb.mutations.update(mutationId, {
+                    payload: {
+                        ...mut.payload,
+                        changes,
+                        base,
+                        base_revision: mut.conflict?.remote?.revision ?? mut.payload.base_revision
+                    },
+                    sync_status: 'pending',
+                    error: undefined,
+                    conflict: undefined
+                });
+                await table.update(mut.entity_id, { ...remoteValues, sync_status: 'pending' });
+            }
+        });
+
+        this.trigger();
+    }
+
+    /**
+     * Retries a conflicted mutation (e.g. after permissions were fixed).
+     * If the server copy is known, the retry is based on its revision:
+     * the user has seen it and chose to apply their change anyway.
+     */
+    async requeueMutation(mutationId: string) {
+        const mut = await localDb.mutations.get(mutationId);
+        if (!mut) return;
+
+        const remoteRevision = mut.conflict?.remote?.revision;
+        await localDb.mutations.update(mutationId, {
+            payload: remoteRevision === undefined ? mut.payload : { ...mut.payload, base_revision: remoteRevision },
+            sync_status: 'pending',
+            error: undefined,
+            conflict: undefined
+        });
+        await this.markEntity(mut, 'pending');
+        this.trigger();
+    }
+
+    /**
+     * Drops a queued (or conflicted) mutation and brings the local copy back
+     * in line with the server as far as we know it.
+     */
+    async discardMutation(mutationId: string) {
+        const mut = await localDb.mutations.get(mutationId);
+        if (!mut) return;
+
+        const table = localDb.table(ENTITY_TABLES[mut.entity_type]);
+        const remote = mut.conflict?.remote;
+
+        await localDb.transaction('rw', [localDb.mutations, table, localDb.splits, localDb.members, localDb.activity], async () => {
+            await localDb.mutations.delete(mutationId);
+            // The change never happened, so neither did its log entry
+            if (mut.payload?.activity) {
+                await localDb.activity.delete(mut.payload.activity.id);
+            }
+
+            if (mut.action === 'create' || remote === null) {
+                // Never reached the server, or no longer exists there
+                await table.delete(mut.entity_id);
+                if (mut.entity_type === 'expense') {
+                    await localDb.splits.where('expense_id').equals(mut.entity_id).delete();
+                }
+                if (mut.entity_type === 'trip') {
+                    await localDb.members.where('trip_id').equals(mut.entity_id).delete();
+                }
+            } else if (mut.action === 'update') {
+                await table.update(mut.entity_id, { ...(remote || mut.payload.base), sync_status: 'synced' });
+            }
+        });
+
+        // A discarded delete brings the server copy back
+        if (mut.action === 'delete' && mut.entity_type === 'expense' && mut.payload?.trip_id) {
+            const tripId = mut.payload.trip_id;
+            try {
+                const remoteSnap = await getDoc(doc(db, 'trips', tripId, 'expenses', mut.entity_id));
+                if (remoteSnap.exists()) {
+                    await this.putExpense(tripId, mut.entity_id, remoteSnap.data());
+                    await this.hydrateSplits(tripId, mut.entity_id);
+                }
+            } catch (err) {
+                // Offline: hydration restores it on the next remote change
+                console.warn('[SyncMaster] Could not restore discarded delete:', err);
+            }
+        }
+
+        // A discarded full edit also brings back the server's split rows
+        if (mut.action === 'update' && mut.entity_type === 'expense' && mut.payload?.splits) {
+            try {
+                await this.hydrateSplits(mut.payload.trip_id, mut.entity_id);
+            } catch (err) {
+                console.warn('[SyncMaster] Could not restore discarded splits:', err);
+            }
+        }
+
+        // Trip and member edits carry no base, so take the server copy
+        if (mut.action === 'update' && !remote && (mut.entity_type === 'trip' || mut.entity_type === 'member')) {
+            const tripId = mut.entity_type === 'trip' ? mut.entity_id : mut.payload.trip_id;
+            const ref = mut.entity_type === 'trip'
+                ? doc(db, 'trips', tripId)
+                : doc(db, 'trips', tripId, 'members', mut.entity_id);
+            try {
+                const remoteSnap = await getDoc(ref);
+                if (!remoteSnap.exists()) return;
+                if (mut.entity_type === 'trip') {
+                    await this.putTrip(tripId, remoteSnap.data());
+                } else {
+                    await this.putMember(tripId, mut.entity_id, remoteSnap.data());
+                }
+            } catch (err) {
+                console.warn('[SyncMaster] Could not restore discarded edit:', err);
+            }
+        }
     }
 
     stopHydration(tripId: string) {
@@ -118,82 +699,117 @@ class SyncService {
      */
     async processQueue() {
         if (!SYNC_AUTHORITY_ENABLED) return;
-        if (this.isSyncing) return;
+        if (this.isSyncing) {
+            this.flushRequested = true;
+            return;
+        }
+        if (!navigator.onLine) return;
 
-        this.isSyncing = true;
+        this.setSyncing(true);
+        this.flushRequested = false;
 
+        let retryIn: number | null;
         try {
-            const mutations = await localDb.mutations.orderBy('client_sequence_number').toArray();
+            retryIn = await this.withQueueLock(() => this.drainQueue());
+        } catch (err) {
+            console.error('[SyncMaster] Fatal sync error:', err);
+            retryIn = POLL_INTERVAL; // Retry later
+        }
 
-            if (mutations.length === 0) {
-                // Nothing to sync, sleep for standard interval
-                this.backoffDelay = 0;
-                this.isSyncing = false;
-                this.scheduleNextSync(30000);
-                return;
-            }
+        this.setSyncing(false);
+
+        if (retryIn !== null) {
+            this.scheduleNextSync(retryIn);
+        } else if (this.flushRequested) {
+            // Written to while we were syncing
+            this.scheduleNextSync(0);
+        } else if (this.loopActive) {
+            this.scheduleNextSync(POLL_INTERVAL); // Standard poll
+        }
+    }
 
-            console.log(`[SyncMaster] Processing ${mutations.length} mutations...`);
+    /**
+     * Pushes pending mutations in order.
+     *
+     * @returns Backoff delay after a transient failure, or null once the queue is drained
+     */
+    private async drainQueue(): Promise<number | null> {
+        const queue = await localDb.mutations.orderBy('client_sequence_number').toArray();
+
+        // Conflicted mutations wait for the user, and later writes to the
+        // same entity wait behind them
+        const blockedEntities = new Set(
+            queue.filter(m => m.sync_status === 'conflicted').map(m => m.entity_id)
+        );
+        const mutations = queue.filter(m => m.sync_status === 'pending');
+
+        if (mutations.length === 0) {
+            // Nothing to sync, sleep for standard interval
+            this.backoffDelay = 0;
+            return null;
+        }
 
-            for (const mut of mutations) {
-                try {
-                    // Support Partial Success (Fix 3)
-                    await this.applyMutation(mut);
+        console.log(`[SyncMaster] Processing ${mutations.length} mutations...`);
 
-                    // ACK (Success)
-                    await localDb.mutations.delete(mut.mutation_id);
-                    // Mark entity as synced
-                    await localDb.expenses.update(mut.entity_id, { sync_status: 'synced' });
+        for (const mut of mutations) {
+            if (blockedEntities.has(mut.entity_id)) continue;
 
-                    console.log(`[SyncMaster] ACKed mutation: ${mut.mutation_id}`);
+            try {
+                // Support Partial Success (Fix 3)
+                await this.applyMutation(mut);
 
-                    // Reset backoff on success
-                    this.backoffDelay = 0;
+                // ACK (Success)
+                await localDb.mutations.delete(mut.mutation_id);
+                // Mark entity as synced
+                await this.markEntity(mut, 'synced');
+                if (mut.payload?.activity) {
+                    await localDb.activity.update(mut.payload.activity.id, { sync_status: 'synced' });
+                }
 
-                } catch (err: any) {
-                    console.error(`[SyncMaster] Failed mutation ${mut.mutation_id}:`, err);
+                console.log(`[SyncMaster] ACKed mutation: ${mut.mutation_id}`);
 
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    const e = err as any;
+                // Reset backoff on success
+                this.backoffDelay = 0;
 
-                    if (e.code === 'permission-denied' || e.status === 409) {
-                        // CONFLICT (Fix 3)
-                        await localDb.mutations.update(mut.mutation_id, {
-                            sync_status: 'conflicted',
-                            error: e.message
-                        });
-                        await localDb.expenses.update(mut.entity_id, { sync_status: 'conflicted' });
-                        // Continue to next mutation
-                        continue;
-                    } else {
-                        // TRANSIENT FAILURE (Fix 3) - Backoff
-                        // Calculate next backoff: 2s -> 4s -> 8s -> ... -> 60s
-                        this.backoffDelay = Math.min(60000, Math.max(2000, this.backoffDelay * 2));
-                        console.log(`[SyncMaster] Transient failure. Backing off for ${this.backoffDelay}ms`);
-
-                        this.isSyncing = false;
-                        this.scheduleNextSync(this.backoffDelay);
-                        return; // Stop processing queue for now
-                    }
-                }
-            }
+            } catch (err: any) {
+                console.error(`[SyncMaster] Failed mutation ${mut.mutation_id}:`, err);
 
-            // Queue drained successfully
-            this.isSyncing = false;
-            this.scheduleNextSync(30000); // Standard poll
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                const e = err as any;
 
-        } catch (err) {
-            console.error('[SyncMaster] Fatal sync error:', err);
-            this.isSyncing = false;
-            this.scheduleNextSync(30000); // Retry later
+                if (e.code === 'permission-denied' || e.status === 409) {
+                    // CONFLICT (Fix 3)
+                    await localDb.mutations.update(mut.mutation_id, {
+                        sync_status: 'conflicted',
+                        error: e.message,
+                        conflict: e instanceof ConflictError
+                            ? { fields: e.conflicts, remote: e.remote, detected_at: new Date().toISOString() }
+                            : { fields: [], detected_at: new Date().toISOString() }
+                    });
+                    await this.markEntity(mut, 'conflicted');
+                    blockedEntities.add(mut.entity_id);
+                    // Continue to next mutation
+                    continue;
+                } else {
+                    // TRANSIENT FAILURE (Fix 3) - Backoff
+                    // Calculate next backoff: 2s -> 4s -> 8s -> ... -> 60s
+                    this.backoffDelay = Math.min(60000, Math.max(2000, this.backoffDelay * 2));
+                    console.log(`[SyncMaster] Transient failure. Backing off for ${this.backoffDelay}ms`);
+
+                    return this.backoffDelay; // Stop processing queue for now
+                }
+            }
         }
+
+        // Queue drained successfully
+        return null;
     }
 
     private async applyMutation(mut: any) {
         const { action, entity_type, entity_id, payload } = mut;
 
         if (entity_type === 'expense') {
-            const expenseRef = doc(db, 'trips', payload.expense.trip_id, 'expenses', entity_id);
+            const expenseRef = doc(db, 'trips', payload.trip_id ?? payload.expense?.trip_id, 'expenses', entity_id);
 
             if (action === 'create') {
                 const batch = writeBatch(db);
@@ -211,18 +827,187 @@ class SyncService {
                         batch.set(sRef, s);
                     });
                 }
+                if (payload.activity) {
+                    batch.set(doc(db, 'trips', payload.activity.trip_id, 'activity', payload.activity.id), payload.activity);
+                }
                 await batch.commit();
             } else if (action === 'update') {
-                await writeBatch(db).update(expenseRef, {
-                    ...payload,
-                    updated_at: serverTimestamp()
-                }).commit();
+                // A full edit replaces the split rows. Transactions can't run
+                // queries, so the old rows are listed first; the revision check
+                // below guarantees nobody rewrote them in between.
+                const oldSplits = payload.splits ? await getDocs(collection(expenseRef, 'splits')) : null;
+
+                // Revision check and write in one transaction (see Expense.revision)
+                const revision = await runTransaction(db, async (transaction) => {
+                    const remoteSnap = await transaction.get(expenseRef);
+                    if (!remoteSnap.exists()) {
+                        throw new ConflictError('Expense was deleted on another device');
+                    }
+
+                    const { changes, revision } = planRevisionedUpdate(payload, remoteSnap.data());
+                    transaction.update(expenseRef, {
+                        ...changes,
+                        revision,
+                        updated_at: serverTimestamp()
+                    });
+
+                    if (oldSplits) {
+                        oldSplits.docs.forEach(d => transaction.delete(d.ref));
+                        payload.splits.forEach((s: LocalSplit) => {
+                            transaction.set(doc(collection(expenseRef, 'splits'), s.id), s);
+                        });
+                    }
+                    if (payload.activity) {
+                        const activity = settleActivity(payload.activity, changes);
+                        transaction.set(doc(db, 'trips', activity.trip_id, 'activity', activity.id), activity);
+                    }
+                    return revision;
+                });
+
+                // The echo from the listener is skipped while this mutation is queued
+                await this.rebaseQueued(mut, revision);
+            } else if (action === 'delete') {
+                // Split rows go with the expense (listed first, as for full edits)
+                const splitsSnap = await getDocs(collection(expenseRef, 'splits'));
+
+                await runTransaction(db, async (transaction) => {
+                    const remoteSnap = await transaction.get(expenseRef);
+                    if (!remoteSnap.exists()) return; // Already gone
+
+                    assertDeleteRevision(payload.base_revision, remoteSnap.data());
+                    splitsSnap.docs.forEach(d => transaction.delete(d.ref));
+                    transaction.delete(expenseRef);
+                    if (payload.activity) {
+                        transaction.set(doc(db, 'trips', payload.activity.trip_id, 'activity', payload.activity.id), payload.activity);
+                    }
+                });
+            }
+        } else if (entity_type === 'payment') {
+            const batch = writeBatch(db);
+            if (action === 'create') {
+                const paymentRef = doc(db, 'trips', payload.payment.trip_id, 'payments', entity_id);
+                batch.set(paymentRef, {
+                    ...payload.payment,
+                    created_at: serverTimestamp(),
+                    updated_at: serverTimestamp(),
+                });
             } else if (action === 'delete') {
-                // Delete logic: In v1 we do a basic delete as per addendum.
-                await writeBatch(db).delete(expenseRef).commit();
+                batch.delete(doc(db, 'trips', payload.trip_id, 'payments', entity_id));
+            }
+            if (payload.activity) {
+                batch.set(doc(db, 'trips', payload.activity.trip_id, 'activity', payload.activity.id), payload.activity);
+            }
+            await batch.commit();
+        } else if (entity_type === 'settlement') {
+            if (action === 'create') {
+                const batch = writeBatch(db);
+                batch.set(doc(db, 'trips', payload.settlement.trip_id, 'settlements', entity_id), payload.settlement);
+                if (payload.activity) {
+                    batch.set(doc(db, 'trips', payload.activity.trip_id, 'activity', payload.activity.id), payload.activity);
+                }
+                await batch.commit();
+            }
+        } else if (entity_type === 'trip') {
+            const tripRef = doc(db, 'trips', entity_id);
+
+            if (action === 'create') {
+                // Trip and creator membership land together
+                const batch = writeBatch(db);
+                batch.set(tripRef, {
+                    ...payload.trip,
+                    created_at: serverTimestamp(),
+                    updated_at: serverTimestamp(),
+                });
+                batch.set(doc(tripRef, 'members', payload.member.id), {
+                    ...payload.member,
+                    joined_at: serverTimestamp(),
+                    updated_at: serverTimestamp(),
+                });
+                await batch.commit();
+
+                await localDb.members.update(payload.member.id, { sync_status: 'synced' });
+            } else if (action === 'update') {
+                // Settings edits, archive and reopen carry their audit entry; both land together
+                const batch = writeBatch(db);
+                batch.update(tripRef, {
+                    ...payload.changes,
+                    updated_at: serverTimestamp(),
+                });
+                if (payload.activity) {
+                    batch.set(doc(tripRef, 'activity', payload.activity.id), payload.activity);
+                }
+                await batch.commit();
+            }
+        } else if (entity_type === 'member') {
+            if (action === 'create' && payload.join) {
+                await this.applyJoin(entity_id, payload.join);
+            } else if (action === 'create') {
+                const memberRef = doc(db, 'trips', payload.member.trip_id, 'members', entity_id);
+                await setDoc(memberRef, {
+                    ...payload.member,
+                    joined_at: serverTimestamp(),
+                    updated_at: serverTimestamp(),
+                });
+                // Separate write: the rules only see a new joiner's membership once it exists
+                if (payload.activity) {
+                    await setDoc(doc(db, 'trips', payload.activity.trip_id, 'activity', payload.activity.id), payload.activity);
+                }
+            } else if (action === 'update') {
+                const batch = writeBatch(db);
+                batch.update(doc(db, 'trips', payload.trip_id, 'members', entity_id), {
+                    ...payload.changes,
+                    updated_at: serverTimestamp(),
+                });
+                if (payload.activity) {
+                    batch.set(doc(db, 'trips', payload.trip_id, 'activity', payload.activity.id), payload.activity);
+                }
+                await batch.commit();
             }
         }
     }
+
+    /**
+     * Completes a join-by-code that was queued offline: looks the trip up,
+     * creates the membership and brings the trip into the local DB.
+     */
+    private async applyJoin(memberId: string, join: { code: string; user_id: string; display_name: string }) {
+        const snap = await getDocs(query(collection(db, 'trips'), where('code', '==', join.code)));
+        if (snap.empty) {
+            throw new ConflictError(`No trip found with code ${join.code}`, [], null);
+        }
+
+        const tripDoc = snap.docs[0];
+        const memberData = {
+            id: memberId,
+            trip_id: tripDoc.id,
+            user_id: join.user_id,
+            display_name: join.display_name,
+            role: 'member' as const,
+            is_ghost: false,
+        };
+
+        await setDoc(doc(db, 'trips', tripDoc.id, 'members', memberId), {
+            ...memberData,
+            joined_at: serverTimestamp(),
+            updated_at: serverTimestamp(),
+        });
+
+        // The trip wasn't known when the join was queued, so its log entry is made here
+        const activity = createActivity({
+            trip_id: tripDoc.id,
+            type: 'member_joined',
+            entity_type: 'member',
+            entity_id: memberId,
+            summary: join.display_name,
+            member_ids: [memberId],
+            actor_id: join.user_id,
+        });
+        await setDoc(doc(db, 'trips', tripDoc.id, 'activity', activity.id), activity);
+
+        await this.putTrip(tripDoc.id, tripDoc.data());
+        await this.putMember(tripDoc.id, memberId, memberData);
+        await localDb.activity.put({ ...activity, sync_status: 'synced' });
+    }
 }
 
 export const syncService = new SyncService();
@@ -26,6 +26,7 @@ import {
 } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import type { Trip, TripMember, CreateTripInput, JoinTripInput, AddGhostMemberInput } from '../types';
+import { DEFAULT_REMAINDER_POLICY } from '../utils/remainder';
 
 // Collection references
 const tripsCollection = collection(db, 'trips');
@@ -62,10 +63,14 @@ export async function createTrip(
     const tripId = `TRIP-${code}`;
     const tripRef = doc(db, 'trips', tripId);
 
+    const currency = (input.currency || 'INR').toUpperCase();
+
     const tripData = {
         code,
         name: input.name || `${input.creatorDisplayName}'s Trip`,
-        currency: 'INR',
+        currency,
+        exchange_rates: {},
+        remainder_policy: DEFAULT_REMAINDER_POLICY,
         status: 'active',
         created_at: serverTimestamp(),
         updated_at: serverTimestamp(),
@@ -91,7 +96,9 @@ export async function createTrip(
         id: tripId,
         code,
         name: tripData.name,
-        currency: 'INR',
+        currency,
+        exchange_rates: {},
+        remainder_policy: DEFAULT_REMAINDER_POLICY,
         status: 'active',
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
@@ -149,6 +156,8 @@ export async function joinTrip(
                 code: tripData.code,
                 name: tripData.name,
                 currency: tripData.currency || 'INR',
+                exchange_rates: tripData.exchange_rates || {},
+                remainder_policy: tripData.remainder_policy || DEFAULT_REMAINDER_POLICY,
                 status: tripData.status || 'active',
                 created_at: toISOString(tripData.created_at),
                 updated_at: toISOString(tripData.updated_at),
@@ -187,6 +196,8 @@ export async function joinTrip(
             code: tripData.code,
             name: tripData.name,
             currency: tripData.currency || 'INR',
+            exchange_rates: tripData.exchange_rates || {},
+            remainder_policy: tripData.remainder_policy || DEFAULT_REMAINDER_POLICY,
             status: tripData.status || 'active',
             created_at: toISOString(tripData.created_at),
             updated_at: toISOString(tripData.updated_at),
@@ -255,6 +266,9 @@ export async function getTrip(tripId: string): Promise<Trip | null> {
         code: data.code,
         name: data.name,
         currency: data.currency || 'INR',
+        exchange_rates: data.exchange_rates || {},
+        remainder_policy: data.remainder_policy || DEFAULT_REMAINDER_POLICY,
+        settlement_constraints: data.settlement_constraints,
         status: data.status || 'active',
         created_at: toISOString(data.created_at),
         updated_at: toISOString(data.updated_at),
@@ -285,6 +299,47 @@ export async function getTripMembers(tripId: string): Promise<TripMember[]> {
     });
 }
 
+/**
+ * Looks a trip up by code and lists the ghosts nobody has claimed yet,
+ * so someone joining can take over their spot (see GhostClaim).
+ */
+export async function getClaimableGhosts(
+    code: string
+): Promise<{ tripId: string; ghosts: TripMember[] }> {
+    const tripQuery = query(tripsCollection, where('code', '==', code.toUpperCase()));
+    const tripSnapshot = await getDocs(tripQuery);
+
+    if (tripSnapshot.empty) {
+        throw new Error('Trip not found');
+    }
+
+    const tripId = tripSnapshot.docs[0].id;
+    const ghostQuery = query(
+        collection(db, 'trips', tripId, 'members'),
+        where('role', '==', 'ghost'),
+        where('user_id', '==', null)
+    );
+    const snapshot = await getDocs(ghostQuery);
+
+    const ghosts = snapshot.docs
+        .filter(doc => !doc.data().claim && !doc.data().left_at)
+        .map(doc => {
+            const data = doc.data();
+            return {
+                id: doc.id,
+                trip_id: tripId,
+                user_id: null,
+                display_name: data.display_name,
+                role: data.role,
+                joined_at: toISOString(data.joined_at),
+                updated_at: toISOString(data.updated_at),
+                is_ghost: true,
+            };
+        });
+
+    return { tripId, ghosts };
+}
+
 /**
  * Gets the current user's membership for a trip.
  */
@@ -350,6 +405,9 @@ export function subscribeToTrip(
                 code: data.code,
                 name: data.name,
                 currency: data.currency || 'INR',
+                exchange_rates: data.exchange_rates || {},
+                remainder_policy: data.remainder_policy || DEFAULT_REMAINDER_POLICY,
+                settlement_constraints: data.settlement_constraints,
                 status: data.status || 'active',
                 created_at: toISOString(data.created_at),
                 updated_at: toISOString(data.updated_at),
@@ -0,0 +1,177 @@
+/**
+ * TripSplit - Activity Log Tests
+ *
+ * Before/after diffs of edits, the Activity tab filters, and the entries
+ * mutationService writes (local database in memory via fake-indexeddb).
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createActivity, diffFields, filterActivity } from '../utils/activity';
+import { localDb } from '../config/localDb';
+import { mutationService } from '../services/mutationService';
+import type { ActivityEntry } from '../types';
+
+vi.mock('../config/firebase', () => ({ auth: { currentUser: { uid: 'user-alice' } }, db: {} }));
+vi.mock('../services/syncService', () => ({ syncService: { trigger: vi.fn() } }));
+
+const entry = (overrides: Partial<ActivityEntry>): ActivityEntry => ({
+    id: 'a1',
+    trip_id: 'TRIP-ABC123',
+    type: 'expense_created',
+    entity_type: 'expense',
+    entity_id: 'e1',
+    summary: 'Dinner',
+    member_ids: [],
+    actor_id: 'user-alice',
+    created_at: '2026-01-10T10:00:00.000Z',
+    ...overrides,
+});
+
+describe('Activity Log', () => {
+    it('records only fields whose value changed', () => {
+        const changes = diffFields(
+            { amount: 1200, description: 'Dinner', category: 'food' },
+            { amount: 1500, description: 'Dinner', category: 'stay' }
+        );
+
+        expect(changes).toEqual([
+            { field: 'amount', before: 1200, after: 1500 },
+            { field: 'category', before: 'food', after: 'stay' },
+        ]);
+    });
+
+    it('compares nested values by content and skips bookkeeping', () => {
+        const changes = diffFields(
+            { charges: { tax: 50, tip: 0 }, revision: 2 },
+            { charges: { tip: 0, tax: 50 }, revision: 3, updated_at: 'now' }
+        );
+        expect(changes).toEqual([]);
+    });
+
+    it('shows cleared fields as null', () => {
+        expect(diffFields({ deleted_at: '2026-01-10' }, { deleted_at: null })).toEqual([
+            { field: 'deleted_at', before: '2026-01-10', after: null },
+        ]);
+        expect(diffFields({}, { note: 'Cab' })).toEqual([
+            { field: 'note', before: null, after: 'Cab' },
+        ]);
+    });
+
+    it('stamps new entries', () => {
+        const created = createActivity({
+            trip_id: 'TRIP-ABC123',
+            type: 'payment_recorded',
+            entity_type: 'payment',
+            entity_id: 'p1',
+            summary: '',
+            member_ids: ['bob', 'alice'],
+            actor_id: 'user-bob',
+        });
+
+        expect(created.id).toMatch(/^[0-9a-f-]{36}$/);
+        expect(Date.parse(created.created_at)).not.toBeNaN();
+    });
+
+    describe('Filters', () => {
+        const entries = [
+            entry({ id: 'a1', member_ids: ['alice', 'bob'] }),
+            entry({ id: 'a2', type: 'payment_recorded', entity_type: 'payment', member_ids: ['bob', 'charlie'], actor_id: 'user-bob' }),
+            entry({ id: 'a3', type: 'member_added', entity_type: 'member', member_ids: ['ghost'] }),
+        ];
+        const ids = (list: ActivityEntry[]) => list.map(e => e.id);
+
+        it('filters by entity type', () => {
+            expect(ids(filterActivity(entries, { entityType: 'payment' }))).toEqual(['a2']);
+            expect(ids(filterActivity(entries, {}))).toEqual(['a1', 'a2', 'a3']);
+        });
+
+        it('matches what a member did and what concerns them', () => {
+            // Alice added the ghost herself and shares the dinner
+            expect(ids(filterActivity(entries, { memberId: 'alice', userId: 'user-alice' }))).toEqual(['a1', 'a3']);
+            expect(ids(filterActivity(entries, { memberId: 'charlie', userId: 'user-charlie' }))).toEqual(['a2']);
+        });
+
+        it('matches ghost members by involvement only', () => {
+            expect(ids(filterActivity(entries, { memberId: 'ghost', userId: null }))).toEqual(['a3']);
+            expect(ids(filterActivity(entries, { memberId: 'bob', userId: 'user-bob', entityType: 'expense' }))).toEqual(['a1']);
+        });
+    });
+
+    describe('Mutations', () => {
+        const NOW = '2026-01-10T10:00:00.000Z';
+
+        beforeEach(async () => {
+            await Promise.all(localDb.tables.map(table => table.clear()));
+            await localDb.trips.add({
+                id: 'TRIP-ABC123', name: 'Goa', code: 'ABC123', currency: 'INR',
+                exchange_rates: { EUR: 90 }, remainder_policy: 'largest_remainder', status: 'active',
+                created_by: 'user-alice', created_at: NOW, updated_at: NOW,
+            });
+        });
+
+        it('logs a finalized settle-up with its parties and total', async () => {
+            const id = await mutationService.finalizeSettlement({
+                trip_id: 'TRIP-ABC123',
+                filter_type: 'all',
+                generated_by: 'user-alice',
+                transactions: [
+                    { from: 'bob', fromName: 'Bob', to: 'alice', toName: 'Alice', amount: 1200.5 },
+                    { from: 'charlie', fromName: 'Charlie', to: 'alice', toName: 'Alice', amount: 300 },
+                ],
+                balances: { alice: 1500.5, bob: -1200.5, charlie: -300 },
+                currency: 'INR',
+                algorithm_version: '2.0',
+            });
+
+            const [logged] = await localDb.activity.toArray();
+            expect(logged).toMatchObject({
+                type: 'settlement_finalized',
+                entity_type: 'settlement',
+                entity_id: id,
+                member_ids: ['bob', 'alice', 'charlie'],
+                amount: 1500.5,
+                currency: 'INR',
+                actor_id: 'user-alice',
+            });
+
+            // Travels with the queued write, so the server stores both together
+            const queued = await localDb.mutations.get(id);
+            expect(queued?.payload.activity.id).toBe(logged.id);
+        });
+
+        it('logs a deleted payment like the recorded one', async () => {
+            const id = await mutationService.recordPayment(
+                { trip_id: 'TRIP-ABC123', from: 'bob', to: 'alice', amount: 450 },
+                'user-alice'
+            );
+            await mutationService.deletePayment('TRIP-ABC123', id);
+
+            const logged = await localDb.activity.toArray();
+            const shape = { entity_type: 'payment', entity_id: id, member_ids: ['bob', 'alice'], amount: 450, currency: 'INR' };
+            expect(logged.find(e => e.type === 'payment_recorded')).toMatchObject(shape);
+            expect(logged.find(e => e.type === 'payment_deleted')).toMatchObject(shape);
+        });
+
+        it('logs trip setting changes with before and after', async () => {
+            const constraints = { forbidden_pairs: [{ member_a: 'alice', member_b: 'bob' }], preferred_pairs: [], groups: [] };
+            await mutationService.updateTrip('TRIP-ABC123', {
+                exchange_rates: { EUR: 91 },
+                remainder_policy: 'largest_remainder',
+                settlement_constraints: constraints,
+            });
+
+            const [logged] = await localDb.activity.toArray();
+            expect(logged).toMatchObject({ type: 'trip_updated', entity_type: 'trip', entity_id: 'TRIP-ABC123' });
+            expect(logged.changes).toEqual([
+                { field: 'exchange_rates', before: { EUR: 90 }, after: { EUR: 91 } },
+                { field: 'settlement_constraints', before: null, after: constraints },
+            ]);
+        });
+
+        it('skips the entry when nothing changed', async () => {
+            await mutationService.updateTrip('TRIP-ABC123', { remainder_policy: 'largest_remainder' });
+            expect(await localDb.activity.count()).toBe(0);
+        });
+    });
+});
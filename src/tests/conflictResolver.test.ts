@@ -0,0 +1,188 @@
+/**
+ * TripSplit - Conflict Resolution Tests
+ *
+ * Three-way field merge between the local base, the local change and the
+ * remote document, and turning user choices into a requeued change.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    mergeFields,
+    applyConflictChoices,
+    isSameValue,
+    withoutBookkeeping,
+    planRevisionedUpdate,
+    assertDeleteRevision,
+    rebaseQueuedRevisions,
+    ConflictError
+} from '../utils/conflictResolver';
+
+describe('Conflict Resolution', () => {
+    const base = { description: 'Dinner', amount: 1200, category: 'food', paid_by: 'm1' };
+
+    it('applies local edits the server has not touched', () => {
+        const result = mergeFields(
+            { amount: 1200 },
+            { amount: 1500 },
+            { ...base }
+        );
+
+        expect(result.conflicts).toHaveLength(0);
+        expect(result.merged).toEqual({ amount: 1500 });
+    });
+
+    it('merges non-overlapping edits from both sides', () => {
+        // We changed the amount, they changed the description
+        const result = mergeFields(
+            { amount: 1200 },
+            { amount: 1500 },
+            { ...base, description: 'Team dinner' }
+        );
+
+        expect(result.conflicts).toHaveLength(0);
+        expect(result.merged).toEqual({ amount: 1500 });
+    });
+
+    it('reports fields both sides changed differently', () => {
+        const result = mergeFields(
+            { amount: 1200, description: 'Dinner' },
+            { amount: 1500, description: 'Dinner at Toit' },
+            { ...base, amount: 1800 }
+        );
+
+        expect(result.merged).toEqual({ description: 'Dinner at Toit' });
+        expect(result.conflicts).toEqual([
+            { field: 'amount', base: 1200, local: 1500, remote: 1800 }
+        ]);
+    });
+
+    it('treats identical edits on both sides as merged', () => {
+        const result = mergeFields({ amount: 1200 }, { amount: 1500 }, { ...base, amount: 1500 });
+
+        expect(result.conflicts).toHaveLength(0);
+        expect(result.merged).toEqual({});
+    });
+
+    it('compares nested values by content', () => {
+        const charges = { tax: 50, service: 0, tip: 20 };
+        expect(isSameValue(charges, { tip: 20, tax: 50, service: 0 })).toBe(true);
+        expect(isSameValue([1, 2], [2, 1])).toBe(false);
+        expect(isSameValue(undefined, null)).toBe(true);
+
+        const result = mergeFields(
+            { charges },
+            { charges: { ...charges, tip: 40 } },
+            { ...base, charges: { tip: 20, tax: 50, service: 0 } }
+        );
+        expect(result.conflicts).toHaveLength(0);
+    });
+
+    it('never conflicts on bookkeeping fields', () => {
+        const result = mergeFields(
+            { updated_at: 'a' },
+            { updated_at: 'b' },
+            { updated_at: 'c' }
+        );
+
+        expect(result).toEqual({ merged: {}, conflicts: [] });
+        expect(withoutBookkeeping({ amount: 1, created_at: 'x', updated_at: 'y' })).toEqual({ amount: 1 });
+    });
+
+    it('builds the requeued change from the user choices', () => {
+        const local = { amount: 1500, description: 'Dinner at Toit', category: 'fun' };
+        const remote = { ...base, amount: 1800, category: 'stay' };
+        const { conflicts } = mergeFields(
+            { amount: 1200, description: 'Dinner', category: 'food' },
+            local,
+            remote
+        );
+        expect(conflicts.map(c => c.field)).toEqual(['amount', 'category']);
+
+        // Keep our amount, take their category
+        const { changes, base: newBase } = applyConflictChoices(local, remote, conflicts, {
+            amount: 'local',
+            category: 'remote'
+        });
+
+        expect(changes).toEqual({ amount: 1500, description: 'Dinner at Toit' });
+        expect(newBase).toEqual({ amount: 1800, description: 'Dinner' });
+
+        // Against the same remote, the requeued change now merges cleanly
+        expect(mergeFields(newBase, changes, remote).conflicts).toHaveLength(0);
+    });
+
+    it('exposes conflicts on a 409 error', () => {
+        const err = new ConflictError('changed', [{ field: 'amount', base: 1, local: 2, remote: 3 }], { amount: 3 });
+
+        expect(err).toBeInstanceOf(Error);
+        expect(err.status).toBe(409);
+        expect(err.conflicts).toHaveLength(1);
+        expect(err.remote).toEqual({ amount: 3 });
+    });
+
+    describe('Revisions', () => {
+        const remote = { ...base, revision: 3 };
+
+        it('applies an update based on the current revision as-is', () => {
+            const plan = planRevisionedUpdate(
+                { changes: { amount: 1500 }, base: { amount: 1200 }, base_revision: 3 },
+                remote
+            );
+            expect(plan).toEqual({ changes: { amount: 1500 }, revision: 4 });
+        });
+
+        it('rejects a stale update that overlaps a newer edit', () => {
+            const stale = () => planRevisionedUpdate(
+                { changes: { amount: 1500 }, base: { amount: 1000 }, base_revision: 2 },
+                remote
+            );
+            expect(stale).toThrow(ConflictError);
+
+            try {
+                stale();
+            } catch (err) {
+                expect((err as ConflictError).conflicts[0]).toMatchObject({ field: 'amount', local: 1500, remote: 1200 });
+                expect((err as ConflictError).remote?.revision).toBe(3);
+            }
+        });
+
+        it('lets a stale update through when the fields do not overlap', () => {
+            // Revision 3 changed something else; our amount edit is still based on 1200
+            const plan = planRevisionedUpdate(
+                { changes: { amount: 1500 }, base: { amount: 1200 }, base_revision: 2 },
+                remote
+            );
+            expect(plan).toEqual({ changes: { amount: 1500 }, revision: 4 });
+        });
+
+        it('never merges a stale edit that replaces the splits', () => {
+            const update = {
+                changes: { amount: 1500 },
+                base: { amount: 1200 },
+                base_revision: 2,
+                splits: [{ id: 's1', member_id: 'm1', amount: 1500 }]
+            };
+
+            // Same edit would merge field-wise, but the splits belong to the old state
+            expect(() => planRevisionedUpdate(update, remote)).toThrow(ConflictError);
+            expect(planRevisionedUpdate({ ...update, base_revision: 3 }, remote).revision).toBe(4);
+        });
+
+        it('treats documents without a revision as revision 0', () => {
+            expect(planRevisionedUpdate({ changes: { amount: 1 } }, { amount: 2 }).revision).toBe(1);
+            expect(() => assertDeleteRevision(undefined, { amount: 2 })).not.toThrow();
+        });
+
+        it('rejects a delete of a changed document', () => {
+            expect(() => assertDeleteRevision(3, remote)).not.toThrow();
+            expect(() => assertDeleteRevision(2, remote)).toThrow('changed on another device before it was deleted');
+        });
+
+        it('moves writes queued behind a confirmed one onto its revision', () => {
+            // Stored as 5 (merged over someone else's 4) instead of the expected 4
+            expect(rebaseQueuedRevisions(5, ['update', 'update', 'delete'])).toEqual({ bases: [5, 6, 7], local: 7 });
+            expect(rebaseQueuedRevisions(5, ['delete'])).toEqual({ bases: [5], local: 5 });
+            expect(rebaseQueuedRevisions(5, [])).toEqual({ bases: [], local: 5 });
+        });
+    });
+});
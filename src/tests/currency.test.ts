@@ -0,0 +1,89 @@
+/**
+ * TripSplit - Currency Utility Tests
+ *
+ * Verifies minor-unit conversion and distribution per ISO 4217 exponent:
+ * - 0 decimals (JPY, KRW, VND)
+ * - 2 decimals (INR, EUR - the default)
+ * - 3 decimals (KWD, BHD, OMR)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    getMinorUnitExponent,
+    toCents,
+    fromCents,
+    distributeAmount,
+    validateTotal,
+    safeAdd,
+    roundToMinorUnit
+} from '../utils/currency';
+
+describe('Currency', () => {
+    describe('getMinorUnitExponent', () => {
+        it('knows zero-decimal currencies', () => {
+            expect(getMinorUnitExponent('JPY')).toBe(0);
+            expect(getMinorUnitExponent('KRW')).toBe(0);
+            expect(getMinorUnitExponent('VND')).toBe(0);
+        });
+
+        it('knows three-decimal currencies', () => {
+            expect(getMinorUnitExponent('KWD')).toBe(3);
+            expect(getMinorUnitExponent('BHD')).toBe(3);
+            expect(getMinorUnitExponent('OMR')).toBe(3);
+        });
+
+        it('defaults to two decimals', () => {
+            expect(getMinorUnitExponent()).toBe(2);
+            expect(getMinorUnitExponent('INR')).toBe(2);
+            expect(getMinorUnitExponent('eur')).toBe(2);
+            expect(getMinorUnitExponent('XYZ')).toBe(2);
+        });
+    });
+
+    describe('Exponent 0 (JPY)', () => {
+        it('converts without a multiplier', () => {
+            expect(toCents(1500, 'JPY')).toBe(1500);
+            expect(toCents(1500.4, 'JPY')).toBe(1500);
+            expect(fromCents(1500, 'JPY')).toBe(1500);
+        });
+
+        it('distributes whole yen only', () => {
+            const shares = distributeAmount(1000, 3, 'JPY');
+            expect(shares).toEqual([334, 333, 333]);
+            expect(validateTotal(1000, shares, 'JPY')).toBe(true);
+        });
+    });
+
+    describe('Exponent 2 (INR)', () => {
+        it('converts to paise', () => {
+            expect(toCents(10.5)).toBe(1050);
+            expect(fromCents(1050)).toBe(10.5);
+            expect(safeAdd(0.1, 0.2)).toBe(0.3);
+        });
+
+        it('distributes paise', () => {
+            const shares = distributeAmount(100, 3, 'INR');
+            expect(shares).toEqual([33.34, 33.33, 33.33]);
+            expect(validateTotal(100, shares, 'INR')).toBe(true);
+        });
+    });
+
+    describe('Exponent 3 (KWD)', () => {
+        it('converts to fils', () => {
+            expect(toCents(1.234, 'KWD')).toBe(1234);
+            expect(fromCents(1234, 'KWD')).toBe(1.234);
+            expect(roundToMinorUnit(1.23456, 'KWD')).toBe(1.235);
+        });
+
+        it('distributes fils', () => {
+            const shares = distributeAmount(10, 3, 'KWD');
+            expect(shares).toEqual([3.334, 3.333, 3.333]);
+            expect(validateTotal(10, shares, 'KWD')).toBe(true);
+        });
+
+        it('detects a one-fil mismatch that two-decimal rounding would hide', () => {
+            expect(validateTotal(10, [5, 4.999], 'KWD')).toBe(false);
+            expect(validateTotal(10, [5, 4.999], 'INR')).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,46 @@
+/**
+ * TripSplit - Exchange Rate Tests
+ *
+ * Verifies the manual rate provider and conversion helpers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    createManualRateProvider,
+    resolveExchangeRate,
+    convertAmount
+} from '../utils/exchangeRates';
+
+describe('Exchange Rates', () => {
+    const provider = createManualRateProvider('INR', { EUR: 90, CHF: 100, GBP: 105 });
+
+    it('returns 1 for the base currency', async () => {
+        expect(await resolveExchangeRate(provider, 'INR', 'INR')).toBe(1);
+        expect(await resolveExchangeRate(provider, 'inr', 'INR')).toBe(1);
+    });
+
+    it('resolves rates from the manual table', async () => {
+        expect(await resolveExchangeRate(provider, 'EUR', 'INR')).toBe(90);
+        expect(await resolveExchangeRate(provider, 'GBP', 'INR')).toBe(105);
+    });
+
+    it('derives cross rates via the base currency', async () => {
+        expect(await resolveExchangeRate(provider, 'CHF', 'EUR')).toBeCloseTo(100 / 90, 10);
+    });
+
+    it('throws when no rate is available', async () => {
+        await expect(resolveExchangeRate(provider, 'JPY', 'INR')).rejects.toThrow(/No exchange rate/);
+    });
+
+    it('ignores invalid rates in the table', async () => {
+        const broken = createManualRateProvider('EUR', { USD: 0, GBP: -1 });
+        expect(await broken.getRate('USD', 'EUR')).toBeNull();
+        expect(await broken.getRate('GBP', 'EUR')).toBeNull();
+    });
+
+    it('converts amounts with a rate snapshot', () => {
+        expect(convertAmount(100, 90)).toBe(9000);
+        // Legacy expenses without a snapshot are treated as base currency
+        expect(convertAmount(100, undefined)).toBe(100);
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * TripSplit - Local Database Migration Tests
+ *
+ * Upgrades of the IndexedDB cache (in-memory via fake-indexeddb): ordered
+ * schema versions, data backfills, and rebuilding when a migration fails.
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Dexie from 'dexie';
+import { TripSplitDatabase, openLocalDb, type LocalMutation } from '../config/localDb';
+import { LOCAL_MIGRATIONS, LOCAL_DB_VERSION, defineMigrations, type LocalMigration } from '../config/localMigrations';
+
+const opened: TripSplitDatabase[] = [];
+let dbCount = 0;
+
+// Each test gets its own database, optionally stopped at an older version
+const createDb = (name: string, migrations: LocalMigration[] = LOCAL_MIGRATIONS) => {
+    const db = new TripSplitDatabase(name, migrations);
+    opened.push(db);
+    return db;
+};
+
+const migrationsUpTo = (version: number) => LOCAL_MIGRATIONS.filter(m => m.version <= version);
+
+const queuedMutation: LocalMutation = {
+    mutation_id: 'mut-1',
+    entity_type: 'expense',
+    entity_id: 'exp-1',
+    action: 'create',
+    payload: { trip_id: 'TRIP-ABC123' },
+    client_timestamp: '2026-01-10T10:00:00.000Z',
+    client_sequence_number: 1,
+    sync_status: 'pending'
+};
+
+describe('Local Database Migrations', () => {
+    let name = '';
+
+    beforeEach(() => {
+        name = `TripSplitTest-${++dbCount}`;
+    });
+
+    afterEach(async () => {
+        opened.splice(0).forEach(db => db.close());
+        await Dexie.delete(name);
+    });
+
+    it('creates a fresh database at the latest version', async () => {
+        const db = createDb(name);
+        expect(await openLocalDb(db)).toBe('opened');
+
+        expect(db.verno).toBe(LOCAL_DB_VERSION);
+        expect(db.tables.map(t => t.name).sort()).toEqual(
+            ['activity', 'expenses', 'members', 'mutations', 'payments', 'settlements', 'splits', 'trips']
+        );
+    });
+
+    it('rejects migrations declared out of order', () => {
+        const [first, second] = LOCAL_MIGRATIONS;
+        expect(() => defineMigrations(new Dexie(name), [second, first])).toThrow('must come after');
+    });
+
+    it('backfills rows cached by an older version', async () => {
+        const old = createDb(name, migrationsUpTo(4));
+        await old.open();
+        await old.trips.add({
+            id: 'TRIP-ABC123', name: 'Goa', code: 'ABC123', currency: 'EUR',
+            created_by: 'u1', created_at: '', updated_at: ''
+        });
+        // Written before currency, revisions and sync status existed
+        await old.table('expenses').add({ id: 'exp-1', trip_id: 'TRIP-ABC123', description: 'Dinner', amount: 90 });
+        await old.table('expenses').add({
+            id: 'exp-2', trip_id: 'TRIP-ABC123', description: 'Taxi', amount: 1500,
+            currency: 'INR', exchange_rate: 0.011, revision: 3, sync_status: 'pending'
+        });
+        old.close();
+
+        const db = createDb(name);
+        expect(await openLocalDb(db)).toBe('opened');
+
+        const trip = await db.trips.get('TRIP-ABC123');
+        expect(trip).toMatchObject({ status: 'active', sync_status: 'synced', currency: 'EUR' });
+
+        const legacy = await db.expenses.get('exp-1');
+        expect(legacy).toMatchObject({ currency: 'EUR', exchange_rate: 1, revision: 0, sync_status: 'synced' });
+
+        // Values a row already had are left alone
+        const current = await db.expenses.get('exp-2');
+        expect(current).toMatchObject({ currency: 'INR', exchange_rate: 0.011, revision: 3, sync_status: 'pending' });
+    });
+
+    it('rebuilds the database when a migration fails, keeping the queue', async () => {
+        const old = createDb(name, migrationsUpTo(4));
+        await old.open();
+        await old.trips.add({
+            id: 'TRIP-ABC123', name: 'Goa', code: 'ABC123', currency: 'INR',
+            created_by: 'u1', created_at: '', updated_at: ''
+        });
+        await old.mutations.add(queuedMutation);
+        old.close();
+
+        const broken: LocalMigration = {
+            version: LOCAL_DB_VERSION + 1,
+            description: 'Always fails',
+            stores: {},
+            upgrade: async () => {
+                throw new Error('bad backfill');
+            }
+        };
+        const db = createDb(name, [...LOCAL_MIGRATIONS, broken]);
+        expect(await openLocalDb(db)).toBe('rebuilt');
+
+        expect(db.verno).toBe(broken.version);
+        // Cached data is gone (hydration refills it), queued changes survive
+        expect(await db.trips.count()).toBe(0);
+        expect(await db.mutations.toArray()).toEqual([queuedMutation]);
+    });
+});
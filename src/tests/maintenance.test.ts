@@ -0,0 +1,130 @@
+/**
+ * TripSplit - Maintenance Tests
+ *
+ * Orphaned split cleanup against the Firestore emulator, with security rules.
+ * Run with: firebase emulators:exec --only auth,firestore "npx vitest run maintenance"
+ * Skipped when no emulator is configured.
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { signInAnonymously, signOut } from 'firebase/auth';
+import { collection, collectionGroup, deleteDoc, doc, getDocs, setDoc, writeBatch } from 'firebase/firestore';
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, type Firestore } from 'firebase-admin/firestore';
+import { auth, db } from '../config/firebase';
+import { findOrphanedSplits, cleanOrphanedSplits } from '../services/maintenanceService';
+import { findAllOrphanedSplits, cleanAllOrphanedSplits } from '../../scripts/orphanedSplits';
+
+// A demo project wired to the emulators (set by `firebase emulators:exec`)
+vi.mock('../config/firebase', async () => {
+    const { initializeApp } = await import('firebase/app');
+    const { getAuth, connectAuthEmulator } = await import('firebase/auth');
+    const { getFirestore, connectFirestoreEmulator } = await import('firebase/firestore');
+
+    const app = initializeApp({ projectId: 'demo-tripsplit', apiKey: 'demo-key' }, 'maintenance-test');
+    const auth = getAuth(app);
+    const db = getFirestore(app);
+
+    const firestoreHost = import.meta.env.FIRESTORE_EMULATOR_HOST;
+    if (firestoreHost) {
+        const [host, port] = firestoreHost.split(':');
+        connectFirestoreEmulator(db, host, Number(port));
+        connectAuthEmulator(auth, `http://${import.meta.env.FIREBASE_AUTH_EMULATOR_HOST || 'localhost:9099'}`);
+    }
+    return { app, auth, db };
+});
+
+describe.skipIf(!import.meta.env.FIRESTORE_EMULATOR_HOST)('Orphaned Split Cleanup', () => {
+    const tripId = `TRIP-${Date.now().toString(36).toUpperCase()}`;
+    let uid = '';
+    // Picks up FIRESTORE_EMULATOR_HOST by itself, and isn't bound by the rules
+    let adminDb: Firestore;
+
+    // The rules look members up by auth uid, so the seeded admin uses it as member ID
+    const createTrip = async (id: string) => {
+        await setDoc(doc(db, 'trips', id), { code: id.slice(-6), name: id, created_by: uid });
+        await setDoc(doc(db, 'trips', id, 'members', uid), { user_id: uid, display_name: 'Admin', role: 'admin' });
+    };
+
+    // Legacy splits were written without trip_id
+    const addExpense = async (id: string, expenseId: string, splitCount: number, legacy = false) => {
+        const expenseRef = doc(db, 'trips', id, 'expenses', expenseId);
+        await setDoc(expenseRef, { description: expenseId, amount: 300, created_by: uid, revision: 1 });
+
+        const batch = writeBatch(db);
+        for (let i = 0; i < splitCount; i++) {
+            batch.set(doc(expenseRef, 'splits', `${expenseId}-${i}`), {
+                ...(!legacy && { trip_id: id }),
+                member_id: uid,
+                amount: 300 / splitCount
+            });
+        }
+        await batch.commit();
+        return expenseRef;
+    };
+
+    beforeAll(async () => {
+        adminDb = getFirestore(initializeApp({ projectId: 'demo-tripsplit' }, 'maintenance-admin'));
+        uid = (await signInAnonymously(auth)).user.uid;
+        await createTrip(tripId);
+
+        await addExpense(tripId, 'dinner', 2);
+        // Older clients deleted only the expense document
+        await deleteDoc(await addExpense(tripId, 'taxi', 3));
+        await addExpense(tripId, 'lunch', 2, true);
+        await deleteDoc(await addExpense(tripId, 'ferry', 2, true));
+    });
+
+    it('finds splits whose expense was deleted', async () => {
+        const orphans = await findOrphanedSplits(tripId);
+        expect(orphans.map(ref => ref.id).sort()).toEqual(['taxi-0', 'taxi-1', 'taxi-2']);
+    });
+
+    it('reaches legacy splits without trip_id through the expense paths', async () => {
+        const orphans = await findAllOrphanedSplits(adminDb, tripId);
+        expect(orphans.map(ref => ref.id).sort()).toEqual(['ferry-0', 'ferry-1', 'taxi-0', 'taxi-1', 'taxi-2']);
+    });
+
+    it('stays within the trip', async () => {
+        // Same ID prefix, so a path-based filter would mix the two up
+        const otherTripId = `${tripId}X`;
+        await createTrip(otherTripId);
+        await deleteDoc(await addExpense(otherTripId, 'hotel', 2));
+
+        const orphans = await findOrphanedSplits(tripId);
+        expect(orphans.every(ref => ref.path.startsWith(`trips/${tripId}/`))).toBe(true);
+        expect(await findOrphanedSplits(otherTripId)).toHaveLength(2);
+    });
+
+    it('deletes orphans and leaves live splits alone', async () => {
+        expect(await cleanOrphanedSplits(tripId)).toBe(3);
+        expect(await findOrphanedSplits(tripId)).toEqual([]);
+
+        const live = await getDocs(collection(db, 'trips', tripId, 'expenses', 'dinner', 'splits'));
+        expect(live.size).toBe(2);
+    });
+
+    it('deletes legacy orphans with the admin cleanup', async () => {
+        expect(await cleanAllOrphanedSplits(adminDb, tripId)).toBe(2);
+        expect(await findAllOrphanedSplits(adminDb, tripId)).toEqual([]);
+
+        const live = await getDocs(collection(db, 'trips', tripId, 'expenses', 'lunch', 'splits'));
+        expect(live.size).toBe(2);
+    });
+
+    it('refuses to list splits across trips, or for non-members', async () => {
+        await expect(getDocs(collectionGroup(db, 'splits'))).rejects.toThrow(/permission/i);
+        // A split can't be slipped into another trip's listing
+        await expect(setDoc(doc(db, 'trips', tripId, 'expenses', 'dinner', 'splits', 'stray'), {
+            trip_id: `${tripId}X`, member_id: uid, amount: 0
+        })).rejects.toThrow(/permission/i);
+
+        // A different user, not a member of the trip
+        await signOut(auth);
+        await signInAnonymously(auth);
+        await expect(findOrphanedSplits(tripId)).rejects.toThrow(/permission/i);
+        await expect(cleanOrphanedSplits(tripId)).rejects.toThrow(/permission/i);
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * TripSplit - Member Departure Tests
+ *
+ * Leaving with a balance against the local database (in-memory via
+ * fake-indexeddb): transfers down to a single minor unit, written together
+ * with the deactivation.
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { localDb, type LocalMember } from '../config/localDb';
+import { mutationService } from '../services/mutationService';
+
+vi.mock('../config/firebase', () => ({ auth: { currentUser: null }, db: {} }));
+vi.mock('../services/syncService', () => ({ syncService: { trigger: vi.fn() } }));
+
+const TRIP_ID = 'TRIP-ABC123';
+const NOW = '2026-01-10T10:00:00.000Z';
+
+const member = (id: string, role: LocalMember['role'] = 'member'): LocalMember => ({
+    id,
+    trip_id: TRIP_ID,
+    display_name: id,
+    user_id: `user-${id}`,
+    role,
+    is_ghost: false,
+    joined_at: NOW,
+    created_at: NOW,
+    updated_at: NOW,
+});
+
+// Alice paid Bob back `amount` too much: Bob now owes her exactly that
+const seedTrip = async (currency: string, amount: number) => {
+    await localDb.trips.add({ id: TRIP_ID, name: 'Goa', code: 'ABC123', currency, status: 'active', created_by: 'user-alice', created_at: NOW, updated_at: NOW });
+    await localDb.members.bulkAdd([member('alice', 'admin'), member('bob'), member('charlie')]);
+    await localDb.payments.add({
+        id: 'p1', trip_id: TRIP_ID, from: 'alice', to: 'bob', amount,
+        payment_date: '2026-01-10', method: 'cash', note: null,
+        created_by: 'user-alice', created_at: NOW, updated_at: NOW,
+    });
+};
+
+describe('Member Departure', () => {
+    beforeEach(async () => {
+        await Promise.all(localDb.tables.map(table => table.clear()));
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it.each([
+        ['INR', 0.01],
+        ['KWD', 0.001],
+        ['KWD', 0.005],
+    ])('blocks leaving with %s %s outstanding', async (currency, amount) => {
+        await seedTrip(currency, amount);
+
+        await expect(mutationService.leaveTrip(TRIP_ID, 'bob', 'user-bob')).rejects.toThrow('still has a balance');
+        expect((await localDb.members.get('bob'))?.left_at).toBeFalsy();
+    });
+
+    it.each([
+        ['INR', 0.01],
+        ['KWD', 0.001],
+    ])('transfers a single minor unit (%s %s) before leaving', async (currency, amount) => {
+        await seedTrip(currency, amount);
+
+        await mutationService.leaveTrip(TRIP_ID, 'bob', 'user-bob', 'charlie');
+
+        expect((await localDb.members.get('bob'))?.left_at).toBeTruthy();
+        const transfer = await localDb.payments.where('from').equals('bob').first();
+        expect(transfer).toMatchObject({ to: 'charlie', amount });
+
+        const queued = await localDb.mutations.orderBy('client_sequence_number').toArray();
+        expect(queued.map(m => `${m.entity_type}:${m.action}`)).toEqual(['payment:create', 'member:update']);
+    });
+
+    it('leaves members of a closed trip as they are', async () => {
+        await seedTrip('INR', 0);
+        await localDb.trips.update(TRIP_ID, { status: 'archived' });
+
+        await expect(mutationService.leaveTrip(TRIP_ID, 'charlie', 'user-charlie')).rejects.toThrow('This trip is closed');
+        await expect(mutationService.updateMember(TRIP_ID, 'charlie', { display_name: 'Chuck' })).rejects.toThrow('This trip is closed');
+
+        expect(await localDb.members.get('charlie')).toMatchObject({ display_name: 'charlie' });
+        expect(await localDb.mutations.count()).toBe(0);
+    });
+
+    it('writes neither the transfer nor the departure if one fails', async () => {
+        await seedTrip('KWD', 0.001);
+        vi.spyOn(localDb.members, 'update').mockRejectedValueOnce(new Error('Quota exceeded'));
+
+        await expect(mutationService.leaveTrip(TRIP_ID, 'bob', 'user-bob', 'charlie')).rejects.toThrow('Quota exceeded');
+
+        expect(await localDb.payments.count()).toBe(1);
+        expect(await localDb.mutations.count()).toBe(0);
+        expect(await localDb.activity.count()).toBe(0);
+        expect((await localDb.members.get('bob'))?.left_at).toBeFalsy();
+    });
+});
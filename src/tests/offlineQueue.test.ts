@@ -0,0 +1,140 @@
+/**
+ * TripSplit - Offline Queue Tests
+ *
+ * Several writes to one expense queued while offline, against the local
+ * database (in-memory via fake-indexeddb). Each builds on the revision the
+ * previous one produces, so the server applies them in order without
+ * reporting them as conflicting with each other. Full edits also keep
+ * people who left on an expense they were on, but never add them.
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { localDb, type LocalExpense, type LocalMember } from '../config/localDb';
+import { mutationService } from '../services/mutationService';
+import { planRevisionedUpdate, assertDeleteRevision, type FieldRecord } from '../utils/conflictResolver';
+import type { CreateExpenseInput } from '../types';
+
+vi.mock('../config/firebase', () => ({ auth: { currentUser: null }, db: {} }));
+vi.mock('../services/syncService', () => ({ syncService: { trigger: vi.fn() } }));
+
+const TRIP_ID = 'TRIP-ABC123';
+const NOW = '2026-01-10T10:00:00.000Z';
+
+const member = (id: string, left_at?: string): LocalMember => ({
+    id,
+    trip_id: TRIP_ID,
+    display_name: id,
+    user_id: `user-${id}`,
+    role: 'member',
+    is_ghost: false,
+    joined_at: NOW,
+    ...(left_at && { left_at }),
+    created_at: NOW,
+    updated_at: NOW,
+});
+
+const expense: LocalExpense = {
+    id: 'e1',
+    trip_id: TRIP_ID,
+    description: 'Dinner',
+    amount: 1200,
+    currency: 'INR',
+    exchange_rate: 1,
+    category: 'food',
+    type: 'daily',
+    paid_by: 'alice',
+    split_type: 'equal',
+    expense_date: '2026-01-10',
+    receipt_url: null,
+    ai_confirmed: false,
+    revision: 3,
+    created_by: 'user-alice',
+    created_at: NOW,
+    updated_at: NOW,
+    sync_status: 'synced',
+};
+
+// What the sync service does with each queued write, in queue order
+const replay = async (remote: FieldRecord | null) => {
+    const queued = await localDb.mutations.orderBy('client_sequence_number').toArray();
+    for (const mut of queued) {
+        if (!remote) throw new Error('Expense is gone');
+        if (mut.action === 'delete') {
+            assertDeleteRevision(mut.payload.base_revision, remote);
+            remote = null;
+        } else {
+            const { changes, revision } = planRevisionedUpdate(mut.payload, remote);
+            remote = { ...remote, ...changes, revision };
+        }
+    }
+    return remote;
+};
+
+describe('Offline Queue', () => {
+    beforeEach(async () => {
+        await Promise.all(localDb.tables.map(table => table.clear()));
+        await localDb.trips.add({ id: TRIP_ID, name: 'Goa', code: 'ABC123', currency: 'INR', status: 'active', created_by: 'user-alice', created_at: NOW, updated_at: NOW });
+        // Charlie was on the dinner before leaving
+        await localDb.members.bulkAdd([member('alice'), member('bob'), member('charlie', NOW), member('dave', NOW)]);
+        await localDb.expenses.add(expense);
+        await localDb.splits.bulkAdd([
+            { id: 's1', expense_id: 'e1', trip_id: TRIP_ID, member_id: 'alice', amount: 600 },
+            { id: 's2', expense_id: 'e1', trip_id: TRIP_ID, member_id: 'charlie', amount: 600 },
+        ]);
+    });
+
+    const edit = (amount: number, involved_member_ids: string[]): CreateExpenseInput => ({
+        trip_id: TRIP_ID,
+        description: 'Dinner',
+        amount,
+        category: 'food',
+        type: 'daily',
+        paid_by: 'alice',
+        split_type: 'equal',
+        involved_member_ids,
+    });
+
+    it('applies two queued edits of the same fields in order', async () => {
+        await mutationService.updateExpense(TRIP_ID, 'e1', { amount: 1500 });
+        await mutationService.updateExpense(TRIP_ID, 'e1', { amount: 1800, description: 'Team dinner' });
+
+        const queued = await localDb.mutations.orderBy('client_sequence_number').toArray();
+        expect(queued.map(m => m.payload.base_revision)).toEqual([3, 4]);
+        expect((await localDb.expenses.get('e1'))?.revision).toBe(5);
+
+        const remote = await replay({ ...expense });
+        expect(remote).toMatchObject({ amount: 1800, description: 'Team dinner', revision: 5 });
+    });
+
+    it('applies two queued full edits in order', async () => {
+        await mutationService.editExpense('e1', edit(1500, ['alice', 'charlie']));
+        await mutationService.editExpense('e1', edit(1800, ['alice', 'bob', 'charlie']));
+
+        const queued = await localDb.mutations.orderBy('client_sequence_number').toArray();
+        expect(queued.map(m => m.payload.base_revision)).toEqual([3, 4]);
+
+        // Stale full edits never merge, so this would throw if the second were based on 3
+        expect(await replay({ ...expense })).toMatchObject({ amount: 1800, revision: 5 });
+    });
+
+    it('keeps people who left on an edited expense but does not add them', async () => {
+        await expect(mutationService.editExpense('e1', edit(1500, ['alice', 'charlie', 'dave'])))
+            .rejects.toThrow('dave has left the trip');
+        expect(await localDb.mutations.count()).toBe(0);
+
+        await mutationService.editExpense('e1', edit(1500, ['alice', 'charlie']));
+        const splits = await localDb.splits.where('expense_id').equals('e1').toArray();
+        expect(splits.map(s => s.member_id).sort()).toEqual(['alice', 'charlie']);
+    });
+
+    it('purges an expense trashed while offline', async () => {
+        await mutationService.trashExpense(TRIP_ID, 'e1', 'user-alice');
+        await mutationService.deleteExpense(TRIP_ID, 'e1');
+
+        const queued = await localDb.mutations.orderBy('client_sequence_number').toArray();
+        expect(queued.map(m => `${m.action}:${m.payload.base_revision}`)).toEqual(['update:3', 'delete:4']);
+
+        expect(await replay({ ...expense })).toBeNull();
+    });
+});
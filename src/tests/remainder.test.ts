@@ -0,0 +1,145 @@
+/**
+ * TripSplit - Remainder Policy Tests
+ *
+ * Verifies who receives leftover minor units under each policy, and that
+ * the carried drift keeps every member within one minor unit over a trip.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { allocateMinorUnits } from '../utils/remainder';
+import { distributeAmount } from '../utils/currency';
+import { calculateSplits, type SplitEngineInput } from '../utils/splitEngine';
+import type { RemainderPolicy } from '../types';
+
+// Deterministic pseudo-random sequence so failures are reproducible
+function createRandom(seed: number) {
+    let state = seed;
+    return () => {
+        state = (state * 1103515245 + 12345) % 2147483648;
+        return state / 2147483648;
+    };
+}
+
+/**
+ * Runs a 200-expense trip through the split engine, feeding the recorded
+ * drift back in like mutationService does. Returns the largest absolute
+ * drift any member reached at any point, and the final drift per member.
+ */
+function simulateTrip(policy: RemainderPolicy, members: string[], useCarry = true) {
+    const random = createRandom(42);
+    const carry: Record<string, number> = {};
+    let maxDrift = 0;
+    const splitTypes: SplitEngineInput['splitType'][] = ['equal', 'shares', 'percentage'];
+
+    for (let i = 0; i < 200; i++) {
+        const splitType = splitTypes[i % splitTypes.length];
+        const { splits } = calculateSplits({
+            totalAmount: Math.round(random() * 500000 + 100) / 100,
+            payerId: members[i % members.length],
+            splitType,
+            involvedMemberIds: members,
+            customSplits: splitType === 'shares'
+                ? members.map((m, j) => ({ memberId: m, shares: j + 1 }))
+                : splitType === 'percentage'
+                    ? members.map((m, j) => ({ memberId: m, percentage: j === 0 ? 100 - 20 * (members.length - 1) : 20 }))
+                    : undefined,
+            remainderPolicy: policy,
+            expenseId: `expense-${i}`,
+            roundingCarry: useCarry ? { ...carry } : {}
+        });
+
+        splits.forEach(s => {
+            carry[s.member_id] = (carry[s.member_id] || 0) + (s.rounding_drift || 0);
+            maxDrift = Math.max(maxDrift, Math.abs(carry[s.member_id]));
+        });
+    }
+
+    return { maxDrift, final: carry };
+}
+
+describe('Remainder Policies', () => {
+    it('gives leftover units to the largest fractional parts', () => {
+        // Exact shares 1.5 / 2.5 / 6: equal fractions, ties keep list order
+        const { amounts } = allocateMinorUnits(10, [3, 5, 12], { policy: 'largest_remainder' });
+        expect(amounts).toEqual([2, 2, 6]);
+        expect(amounts.reduce((a, b) => a + b, 0)).toBe(10);
+
+        // 7 units by 1:2:4 = 1 / 2 / 4 exactly, no leftover
+        expect(allocateMinorUnits(7, [1, 2, 4]).amounts).toEqual([1, 2, 4]);
+
+        // 10 units by 1:1:3 = 2 / 2 / 6 exactly; 11 units puts the extra on the largest fraction
+        expect(allocateMinorUnits(11, [1, 1, 3]).amounts).toEqual([2, 2, 7]);
+    });
+
+    it('lets the payer absorb every leftover unit', () => {
+        const { amounts } = allocateMinorUnits(1001, [1, 1, 1, 1, 1], { policy: 'payer', payerIndex: 3 });
+        expect(amounts).toEqual([200, 200, 200, 201, 200]);
+
+        expect(distributeAmount(100, 3, 'INR', { policy: 'payer', payerIndex: 2 }))
+            .toEqual([33.33, 33.33, 33.34]);
+    });
+
+    it('falls back to largest remainder when the payer is not involved', () => {
+        const { amounts } = allocateMinorUnits(10, [1, 1, 1], { policy: 'payer', payerIndex: -1 });
+        expect(amounts).toEqual([4, 3, 3]);
+    });
+
+    it('rotates tie-breaks by expense id', () => {
+        const winners = new Set<number>();
+        for (let i = 0; i < 30; i++) {
+            const { amounts } = allocateMinorUnits(10, [1, 1, 1], { policy: 'rotating', seed: `expense-${i}` });
+            winners.add(amounts.indexOf(4));
+        }
+        expect(winners.size).toBe(3);
+
+        // Same seed, same answer
+        const a = allocateMinorUnits(10, [1, 1, 1], { policy: 'rotating', seed: 'abc' });
+        const b = allocateMinorUnits(10, [1, 1, 1], { policy: 'rotating', seed: 'abc' });
+        expect(a.amounts).toEqual(b.amounts);
+    });
+
+    it('never gives units to zero-weight participants', () => {
+        const { amounts } = allocateMinorUnits(5, [0, 1, 1], { carry: [-0.9, 0, 0] });
+        expect(amounts).toEqual([0, 3, 2]);
+    });
+
+    it('uses the carry to repay earlier rounding', () => {
+        // Member 0 got the extra unit last time (drift +0.67), so not again
+        const first = allocateMinorUnits(10, [1, 1, 1]);
+        expect(first.amounts).toEqual([4, 3, 3]);
+
+        const second = allocateMinorUnits(10, [1, 1, 1], { carry: first.drift });
+        expect(second.amounts).toEqual([3, 4, 3]);
+    });
+
+    it('records rounding drift on split rows', () => {
+        const { splits } = calculateSplits({
+            totalAmount: 100,
+            payerId: 'u1',
+            splitType: 'equal',
+            involvedMemberIds: ['u1', 'u2', 'u3']
+        });
+
+        expect(splits[0].rounding_drift).toBeCloseTo(2 / 3, 6);
+        expect(splits[1].rounding_drift).toBeCloseTo(-1 / 3, 6);
+    });
+
+    describe.each(['largest_remainder', 'rotating'] as RemainderPolicy[])('Trip drift (%s)', (policy) => {
+        it('keeps every member within one minor unit over 200 expenses', () => {
+            const { maxDrift, final } = simulateTrip(policy, ['u1', 'u2', 'u3', 'u4']);
+
+            expect(maxDrift).toBeLessThanOrEqual(1);
+            expect(Object.values(final).reduce((a, b) => a + b, 0)).toBeCloseTo(0, 6);
+        });
+
+        it('keeps drift bounded for odd group sizes', () => {
+            const { maxDrift } = simulateTrip(policy, ['a', 'b', 'c']);
+            expect(maxDrift).toBeLessThanOrEqual(1);
+        });
+    });
+
+    it('drifts without the carry (why the ledger exists)', () => {
+        const { maxDrift } = simulateTrip('largest_remainder', ['u1', 'u2', 'u3', 'u4'], false);
+        expect(maxDrift).toBeGreaterThan(1);
+    });
+});
@@ -1,7 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { calculateSettlements } from '../utils/settlement';
-import { calculateBalances } from '../utils/balanceCalculator';
-import type { TripMember, Expense, ExpenseSplit } from '../types';
+import {
+  calculateSettlements,
+  createSettlementSnapshot,
+  diffSnapshotBalances,
+  EXACT_SOLVER_MAX_MEMBERS
+} from '../utils/settlement';
+import { calculateBalances, calculateSummary, planBalanceTransfer } from '../utils/balanceCalculator';
+import type { TripMember, Expense, ExpenseSplit, Payment, Balance, SettlementTransaction } from '../types';
 
 // Helper to create mock members
 const createMember = (id: string, name: string): TripMember => ({
@@ -26,6 +31,8 @@ const createExpense = (
   trip_id: 'trip-1',
   description: 'Test Expense',
   amount,
+  currency: 'INR',
+  exchange_rate: 1,
   category: 'food',
   type: 'daily',
   expense_date: new Date().toISOString(),
@@ -38,6 +45,21 @@ const createExpense = (
   updated_at: new Date().toISOString(),
 });
 
+// Helper to create mock payment
+const createPayment = (id: string, from: string, to: string, amount: number): Payment => ({
+  id,
+  trip_id: 'trip-1',
+  from,
+  to,
+  amount,
+  payment_date: new Date().toISOString().split('T')[0],
+  method: 'cash',
+  note: null,
+  created_by: 'user-1',
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+});
+
 describe('Settlement Logic', () => {
   const alice = createMember('alice', 'Alice');
   const bob = createMember('bob', 'Bob');
@@ -144,6 +166,35 @@ describe('Settlement Logic', () => {
     expect(settlements[1].amount).toBe(10);
   });
 
+  it('should convert foreign currency expenses into the base currency', () => {
+    // Alice pays EUR 100 at 90 INR/EUR, split equally with Bob.
+    // Bob pays INR 1000 for himself only.
+    const eurExpense: Expense = {
+      ...createExpense('e1', 100, alice.id, 'custom'),
+      currency: 'EUR',
+      exchange_rate: 90,
+    };
+    const inrExpense = createExpense('e2', 1000, bob.id, 'custom');
+
+    const splits: ExpenseSplit[] = [
+      { id: 's1', expense_id: 'e1', member_id: alice.id, amount: 50 },
+      { id: 's2', expense_id: 'e1', member_id: bob.id, amount: 50 },
+      { id: 's3', expense_id: 'e2', member_id: bob.id, amount: 1000 },
+    ];
+
+    const twoMembers = [alice, bob];
+    const balances = calculateBalances([eurExpense, inrExpense], twoMembers, splits);
+
+    // Alice: +9000 - 4500 = +4500 (INR)
+    // Bob: +1000 - 4500 - 1000 = -4500 (INR)
+    expect(balances[alice.id]).toBe(4500);
+    expect(balances[bob.id]).toBe(-4500);
+
+    const settlements = calculateSettlements(balances, twoMembers);
+    expect(settlements).toHaveLength(1);
+    expect(settlements[0].amount).toBe(4500);
+  });
+
   it('should handle floating point precision', () => {
     // 3 people, 100 total. Alice pays.
     // Split: 33.3333 each.
@@ -163,4 +214,333 @@ describe('Settlement Logic', () => {
     expect(settlements[0].amount).toBeCloseTo(33.33, 2);
     expect(settlements[1].amount).toBeCloseTo(33.33, 2);
   });
+
+  it('should reach zero once suggested payments are recorded', () => {
+    const expenses = [createExpense('e1', 300, alice.id)];
+    const balances = calculateBalances(expenses, members, []);
+    const settlements = calculateSettlements(balances, members);
+
+    const payments = settlements.map((tx, i) => createPayment(`p${i}`, tx.from, tx.to, tx.amount));
+    const settled = calculateBalances(expenses, members, [], payments);
+
+    expect(settled[alice.id]).toBe(0);
+    expect(settled[bob.id]).toBe(0);
+    expect(settled[charlie.id]).toBe(0);
+    expect(calculateSettlements(settled, members)).toHaveLength(0);
+  });
+
+  it('should apply partial payments to the overall balance only', () => {
+    const expenses = [createExpense('e1', 100, alice.id)];
+    const twoMembers = [alice, bob];
+    const payments = [createPayment('p1', bob.id, alice.id, 20)];
+
+    const summary = calculateSummary(expenses, twoMembers, [], payments);
+
+    expect(summary.globalBalance[bob.id]).toBe(-30);
+    expect(summary.globalBalance[alice.id]).toBe(30);
+    // Type breakdowns and spending ignore payments
+    expect(summary.dailyBalance[bob.id]).toBe(-50);
+    expect(summary.totalSpent).toBe(100);
+  });
+
+  it('should ignore trashed expenses and their splits', () => {
+    const twoMembers = [alice, bob];
+    const trashed: Expense = {
+      ...createExpense('e2', 500, bob.id, 'custom'),
+      deleted_at: new Date().toISOString(),
+      deleted_by: 'user-bob',
+    };
+    const expenses = [createExpense('e1', 100, alice.id), trashed];
+    const splits: ExpenseSplit[] = [
+      { id: 's1', expense_id: 'e2', member_id: alice.id, amount: 500 },
+    ];
+
+    const summary = calculateSummary(expenses, twoMembers, splits);
+
+    expect(summary.globalBalance[alice.id]).toBe(50);
+    expect(summary.globalBalance[bob.id]).toBe(-50);
+    expect(summary.dailyBalance[alice.id]).toBe(50);
+    expect(summary.totalSpent).toBe(100);
+
+    // Restoring brings it back
+    const restored = calculateBalances([expenses[0], { ...trashed, deleted_at: null }], twoMembers, splits);
+    expect(restored[alice.id]).toBe(-450);
+  });
+
+  it('should hand a departing member\'s balance to someone else', () => {
+    // Alice paid 300 for all three: Bob and Charlie owe 100 each
+    const expenses = [createExpense('e1', 300, alice.id)];
+    const balances = calculateBalances(expenses, members, []);
+
+    // Bob leaves and Charlie takes over his debt
+    const debt = planBalanceTransfer(bob.id, balances[bob.id], charlie.id)!;
+    expect(debt).toEqual({ from: bob.id, to: charlie.id, amount: 100 });
+
+    const afterBob = calculateBalances(expenses, members, [], [createPayment('p1', debt.from, debt.to, debt.amount)]);
+    expect(afterBob[bob.id]).toBe(0);
+    expect(afterBob[charlie.id]).toBe(-200);
+    expect(afterBob[alice.id]).toBe(200);
+
+    // Then Alice leaves; Charlie now owes her 200 to Bob instead
+    const credit = planBalanceTransfer(alice.id, afterBob[alice.id], bob.id)!;
+    expect(credit).toEqual({ from: bob.id, to: alice.id, amount: 200 });
+  });
+
+  it('should not plan a transfer for a settled member', () => {
+    expect(planBalanceTransfer(alice.id, 0, bob.id)).toBeNull();
+    expect(planBalanceTransfer(alice.id, 0.004, bob.id)).toBeNull();
+    expect(planBalanceTransfer(alice.id, 0.0004, bob.id, 'KWD')).toBeNull();
+  });
+
+  it('should transfer a balance of a single minor unit', () => {
+    // Two-decimal currency: one paisa is still owed
+    expect(planBalanceTransfer(alice.id, -0.01, bob.id, 'INR')).toEqual({ from: alice.id, to: bob.id, amount: 0.01 });
+    expect(planBalanceTransfer(alice.id, 0.01, bob.id, 'INR')).toEqual({ from: bob.id, to: alice.id, amount: 0.01 });
+
+    // Three-decimal currency: one fils, and half a cent that a 2-decimal check would round away
+    expect(planBalanceTransfer(alice.id, 0.001, bob.id, 'KWD')).toEqual({ from: bob.id, to: alice.id, amount: 0.001 });
+    expect(planBalanceTransfer(alice.id, -0.005, bob.id, 'KWD')).toEqual({ from: alice.id, to: bob.id, amount: 0.005 });
+    expect(planBalanceTransfer(alice.id, 0.01, bob.id, 'KWD')).toEqual({ from: bob.id, to: alice.id, amount: 0.01 });
+  });
+
+  it('should snapshot a settle-up with its balances and algorithm version', () => {
+    const expenses = [createExpense('e1', 300, alice.id)];
+    const balances = calculateBalances(expenses, members, []);
+    const settlements = calculateSettlements(balances, members);
+
+    const snapshot = createSettlementSnapshot('trip-1', 'all', settlements, 'user-1', balances, 'INR');
+
+    expect(snapshot.filter_type).toBe('all');
+    expect(snapshot.algorithm_version).toBe('2.0');
+    expect(snapshot.transactions).toHaveLength(2);
+    expect(snapshot.balances).toEqual(balances);
+    expect(snapshot.balances).not.toBe(balances);
+  });
+
+  it('should diff a snapshot against the current balances', () => {
+    const expenses = [createExpense('e1', 300, alice.id)];
+    const before = calculateBalances(expenses, members, []);
+    const snapshot = createSettlementSnapshot('trip-1', 'all', [], 'user-1', before);
+
+    // Nothing changed yet
+    expect(diffSnapshotBalances(snapshot, before)).toHaveLength(0);
+
+    // Bob pays Alice back 60
+    const after = calculateBalances(expenses, members, [], [createPayment('p1', bob.id, alice.id, 60)]);
+    const diffs = diffSnapshotBalances(snapshot, after);
+
+    expect(diffs).toHaveLength(2);
+    expect(diffs.find(d => d.memberId === bob.id)).toEqual({ memberId: bob.id, before: -100, after: -40, change: 60 });
+    expect(diffs.find(d => d.memberId === alice.id)?.change).toBe(-60);
+    expect(diffs.find(d => d.memberId === charlie.id)).toBeUndefined();
+  });
+});
+
+describe('Minimal Settlement Solver', () => {
+  // Builds balances and members from a list of amounts (m0, m1, ...)
+  const setup = (amounts: number[]) => {
+    const balances: Balance = {};
+    amounts.forEach((amount, i) => { balances[`m${i}`] = amount; });
+    const members = amounts.map((_, i) => createMember(`m${i}`, `Member ${i}`));
+    return { balances, members };
+  };
+
+  // Every balance must reach zero once the transfers are paid
+  const expectSettled = (balances: Balance, transactions: SettlementTransaction[]) => {
+    const remaining = { ...balances };
+    transactions.forEach(tx => {
+      remaining[tx.from] += tx.amount;
+      remaining[tx.to] -= tx.amount;
+    });
+    Object.values(remaining).forEach(value => expect(Math.abs(value)).toBeLessThan(0.01));
+  };
+
+  const countBoth = (amounts: number[]) => {
+    const { balances, members } = setup(amounts);
+    const greedy = calculateSettlements(balances, members, { algorithmVersion: '1.0' });
+    const minimal = calculateSettlements(balances, members, { algorithmVersion: '2.0' });
+    expectSettled(balances, greedy);
+    expectSettled(balances, minimal);
+    return { greedy: greedy.length, minimal: minimal.length };
+  };
+
+  it('finds a pair hidden behind a larger debt', () => {
+    // {+5, -5} settles alone; greedy splits the 5 across two creditors
+    expect(countBoth([10, 5, -7, -5, -3])).toEqual({ greedy: 4, minimal: 3 });
+  });
+
+  it('finds several zero-sum subgroups', () => {
+    // {+6, -4, -2}, {+5, -5}, {+7, -3, -4}: 8 people, 3 groups, 5 transfers
+    const counts = countBoth([6, 5, 7, -4, -2, -5, -3, -4]);
+    expect(counts.minimal).toBe(5);
+    expect(counts.greedy).toBeGreaterThan(counts.minimal);
+  });
+
+  it('settles a group of 20 exactly', () => {
+    // Ten groups of {+(a + b), -a, -b} would need 20 transfers at most
+    const amounts: number[] = [];
+    for (let k = 1; amounts.length + 3 <= EXACT_SOLVER_MAX_MEMBERS; k++) {
+      amounts.push(k * 7 + 3, -(k * 4), -(k * 3 + 3));
+    }
+    amounts.push(11, -11);
+
+    const counts = countBoth(amounts);
+    expect(amounts).toHaveLength(EXACT_SOLVER_MAX_MEMBERS);
+    expect(counts.minimal).toBe(amounts.length - 7);
+    expect(counts.minimal).toBeLessThanOrEqual(counts.greedy);
+  });
+
+  it('falls back to greedy above the member limit', () => {
+    const amounts: number[] = [];
+    for (let k = 1; amounts.length < EXACT_SOLVER_MAX_MEMBERS + 2; k++) {
+      amounts.push(k * 10, -(k * 10));
+    }
+    const { balances, members } = setup(amounts);
+
+    expect(calculateSettlements(balances, members, { algorithmVersion: '2.0' }))
+      .toEqual(calculateSettlements(balances, members, { algorithmVersion: '1.0' }));
+  });
+
+  it('never needs more transfers than greedy', () => {
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+
+    for (let run = 0; run < 50; run++) {
+      const amounts = Array.from({ length: 7 }, () => Math.round(random() * 200 - 100));
+      amounts.push(-amounts.reduce((a, b) => a + b, 0));
+
+      const counts = countBoth(amounts);
+      expect(counts.minimal).toBeLessThanOrEqual(counts.greedy);
+    }
+  });
+
+  it('absorbs the rounding residue of converted multi-currency balances', () => {
+    // EUR: m0 pays 10 for m2 (7) and m4 (3); USD: m1 pays 5 for m3.
+    // Converted and rounded to paise, the balances are one paisa off zero.
+    const { members } = setup([0, 0, 0, 0, 0]);
+    const eur: Expense = { ...createExpense('e1', 10, 'm0', 'custom'), currency: 'EUR', exchange_rate: 91.0551 };
+    const usd: Expense = { ...createExpense('e2', 5, 'm1', 'custom'), currency: 'USD', exchange_rate: 82.7777 };
+    const splits: ExpenseSplit[] = [
+      { id: 's1', expense_id: 'e1', member_id: 'm2', amount: 7 },
+      { id: 's2', expense_id: 'e1', member_id: 'm4', amount: 3 },
+      { id: 's3', expense_id: 'e2', member_id: 'm3', amount: 5 },
+    ];
+    const balances = calculateBalances([eur, usd], members, splits);
+    const paise = Object.values(balances).reduce((sum, b) => sum + Math.round(b * 100), 0);
+    expect(paise).not.toBe(0);
+
+    const greedy = calculateSettlements(balances, members, { currency: 'INR', algorithmVersion: '1.0' });
+    const minimal = calculateSettlements(balances, members, { currency: 'INR', algorithmVersion: '2.0' });
+
+    // m1 and m3 settle on their own, so the exact solver still wins
+    expect(greedy).toHaveLength(4);
+    expect(minimal).toHaveLength(3);
+    expect(minimal).toContainEqual(expect.objectContaining({ from: 'm3', to: 'm1', amount: 413.89 }));
+    expectSettled(balances, minimal);
+  });
+
+  it('works in minor units of the base currency', () => {
+    const { balances, members } = setup([33.34, -33.33, 66.66, -66.67]);
+    const transactions = calculateSettlements(balances, members, { currency: 'INR' });
+
+    expectSettled(balances, transactions);
+    expect(transactions.reduce((sum, tx) => sum + tx.amount, 0)).toBeCloseTo(100, 2);
+  });
+});
+
+describe('Settlement Constraints', () => {
+  const setup = (amounts: Record<string, number>) => {
+    const balances: Balance = { ...amounts };
+    const members = Object.keys(amounts).map(id => createMember(id, id.toUpperCase()));
+    return { balances, members };
+  };
+
+  const expectSettled = (balances: Balance, transactions: SettlementTransaction[]) => {
+    const remaining = { ...balances };
+    transactions.forEach(tx => {
+      remaining[tx.from] += tx.amount;
+      remaining[tx.to] -= tx.amount;
+    });
+    Object.values(remaining).forEach(value => expect(Math.abs(value)).toBeLessThan(0.01));
+  };
+
+  const noConstraints = { forbidden_pairs: [], preferred_pairs: [], groups: [] };
+
+  it('never pairs members who cannot pay each other', () => {
+    const { balances, members } = setup({ a: -60, b: -40, c: 70, d: 30 });
+    const transactions = calculateSettlements(balances, members, {
+      constraints: { ...noConstraints, forbidden_pairs: [{ member_a: 'c', member_b: 'a' }] }
+    });
+
+    expect(transactions.some(tx => tx.from === 'a' && tx.to === 'c')).toBe(false);
+    expectSettled(balances, transactions);
+  });
+
+  it('routes through someone else when no direct payment is allowed', () => {
+    const { balances, members } = setup({ a: -50, b: 50, c: 0 });
+    const transactions = calculateSettlements(balances, members, {
+      constraints: { ...noConstraints, forbidden_pairs: [{ member_a: 'a', member_b: 'b' }] }
+    });
+
+    expect(transactions.map(tx => `${tx.from}->${tx.to}`).sort()).toEqual(['a->c', 'c->b']);
+    expectSettled(balances, transactions);
+  });
+
+  it('throws when the rules leave no way to settle', () => {
+    const { balances, members } = setup({ a: -50, b: 50 });
+    expect(() => calculateSettlements(balances, members, {
+      constraints: { ...noConstraints, forbidden_pairs: [{ member_a: 'a', member_b: 'b' }] }
+    })).toThrow('no way to settle');
+  });
+
+  it('settles preferred pairs with each other', () => {
+    const { balances, members } = setup({ a: -50, b: -50, c: 50, d: 50 });
+    const transactions = calculateSettlements(balances, members, {
+      constraints: { ...noConstraints, preferred_pairs: [{ member_a: 'd', member_b: 'a' }] }
+    });
+
+    expect(transactions).toContainEqual(expect.objectContaining({ from: 'a', to: 'd', amount: 50 }));
+    expect(transactions).toHaveLength(2);
+    expectSettled(balances, transactions);
+  });
+
+  it('settles a group with everyone else as one unit', () => {
+    // The couple x + y is owed 100 together; z pays it in one transfer
+    const { balances, members } = setup({ x: 30, y: 70, z: -100 });
+    const transactions = calculateSettlements(balances, members, {
+      constraints: { ...noConstraints, groups: [{ id: 'g1', name: 'X & Y', member_ids: ['x', 'y'] }] }
+    });
+
+    const external = transactions.filter(tx => tx.from === 'z');
+    expect(external).toEqual([expect.objectContaining({ to: 'y', amount: 100 })]);
+    // The couple squares up between themselves
+    expect(transactions).toContainEqual(expect.objectContaining({ from: 'y', to: 'x', amount: 30 }));
+    expectSettled(balances, transactions);
+  });
+
+  it('clears every balance with all constraints combined', () => {
+    const { balances, members } = setup({ a: -120.5, b: -79.5, c: 45.25, d: 54.75, e: 60, f: 40 });
+    const transactions = calculateSettlements(balances, members, {
+      constraints: {
+        forbidden_pairs: [{ member_a: 'a', member_b: 'e' }, { member_a: 'b', member_b: 'f' }],
+        preferred_pairs: [{ member_a: 'b', member_b: 'c' }],
+        groups: [{ id: 'g1', name: 'C & D', member_ids: ['c', 'd'] }]
+      }
+    });
+
+    transactions.forEach(tx => {
+      expect([tx.from, tx.to].sort().join()).not.toBe('a,e');
+      expect([tx.from, tx.to].sort().join()).not.toBe('b,f');
+    });
+    expectSettled(balances, transactions);
+  });
+
+  it('matches the unconstrained result when no rules are set', () => {
+    const { balances, members } = setup({ a: -60, b: -40, c: 70, d: 30 });
+    expect(calculateSettlements(balances, members, { constraints: noConstraints }))
+      .toEqual(calculateSettlements(balances, members));
+  });
 });
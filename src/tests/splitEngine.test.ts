@@ -9,7 +9,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { calculateSplits } from '../utils/splitEngine';
+import { calculateSplits, calculateItemizedTotal } from '../utils/splitEngine';
 
 describe('SplitEngine', () => {
     // ==========================================
@@ -152,6 +152,335 @@ describe('SplitEngine', () => {
         });
     });
 
+    // ==========================================
+    // Percentage Splits
+    // ==========================================
+    describe('Percentage Splits', () => {
+        it('splits by percentage', () => {
+            const result = calculateSplits({
+                totalAmount: 1000,
+                payerId: 'u1',
+                splitType: 'percentage',
+                involvedMemberIds: ['u1', 'u2', 'u3', 'u4'],
+                customSplits: [
+                    { memberId: 'u1', amount: 0, percentage: 40 },
+                    { memberId: 'u2', amount: 0, percentage: 20 },
+                    { memberId: 'u3', amount: 0, percentage: 20 },
+                    { memberId: 'u4', amount: 0, percentage: 20 }
+                ]
+            });
+
+            expect(result.splits.map(s => s.amount)).toEqual([400, 200, 200, 200]);
+            expect(result.splits[0].percentage).toBe(40);
+        });
+
+        it('accepts fractional percentages and keeps the total exact', () => {
+            const result = calculateSplits({
+                totalAmount: 100.01,
+                payerId: 'u1',
+                splitType: 'percentage',
+                involvedMemberIds: ['u1', 'u2', 'u3'],
+                customSplits: [
+                    { memberId: 'u1', amount: 0, percentage: 33.33 },
+                    { memberId: 'u2', amount: 0, percentage: 33.33 },
+                    { memberId: 'u3', amount: 0, percentage: 33.34 }
+                ]
+            });
+
+            const total = result.splits.reduce((sum, s) => sum + Math.round(s.amount * 100), 0);
+            expect(total).toBe(10001);
+        });
+
+        it('throws when percentages do not total 100', () => {
+            expect(() => calculateSplits({
+                totalAmount: 100,
+                payerId: 'u1',
+                splitType: 'percentage',
+                involvedMemberIds: ['u1', 'u2'],
+                customSplits: [
+                    { memberId: 'u1', amount: 0, percentage: 50 },
+                    { memberId: 'u2', amount: 0, percentage: 49.5 }
+                ]
+            })).toThrow(/must total 100%/);
+        });
+
+        it('throws on negative percentages', () => {
+            expect(() => calculateSplits({
+                totalAmount: 100,
+                payerId: 'u1',
+                splitType: 'percentage',
+                involvedMemberIds: ['u1', 'u2'],
+                customSplits: [
+                    { memberId: 'u1', amount: 0, percentage: 120 },
+                    { memberId: 'u2', amount: 0, percentage: -20 }
+                ]
+            })).toThrow(/cannot be negative/);
+        });
+    });
+
+    // ==========================================
+    // Itemized Splits
+    // ==========================================
+    describe('Itemized Splits', () => {
+        const items = [
+            { id: 'i1', name: 'Pizza', price: 600, quantity: 1, member_ids: ['u1', 'u2'] },
+            { id: 'i2', name: 'Beer', price: 150, quantity: 2, member_ids: ['u2'] },
+            { id: 'i3', name: 'Salad', price: 100, quantity: 1, member_ids: ['u3'] }
+        ];
+
+        it('splits each item among the members who shared it', () => {
+            const result = calculateSplits({
+                totalAmount: 1000,
+                payerId: 'u1',
+                splitType: 'itemized',
+                involvedMemberIds: ['u1', 'u2', 'u3'],
+                items
+            });
+
+            expect(result.splits).toEqual([
+                { member_id: 'u1', amount: 300, shares: undefined },
+                { member_id: 'u2', amount: 600, shares: undefined },
+                { member_id: 'u3', amount: 100, shares: undefined }
+            ]);
+        });
+
+        it('spreads tax, service and tip in proportion to item subtotals', () => {
+            const charges = { tax: 50, service: 100, tip: 50 };
+            const result = calculateSplits({
+                totalAmount: calculateItemizedTotal(items, charges),
+                payerId: 'u1',
+                splitType: 'itemized',
+                involvedMemberIds: ['u1', 'u2', 'u3'],
+                items,
+                charges
+            });
+
+            // Subtotals 300/600/100 carry 30%/60%/10% of the 200 in charges
+            expect(result.splits.map(s => s.amount)).toEqual([360, 720, 120]);
+        });
+
+        it('keeps the total exact when shares do not divide evenly', () => {
+            const charges = { tax: 0.05, service: 0, tip: 0 };
+            const oddItems = [
+                { id: 'i1', name: 'Nachos', price: 10, quantity: 1, member_ids: ['u1', 'u2', 'u3'] }
+            ];
+            const result = calculateSplits({
+                totalAmount: 10.05,
+                payerId: 'u1',
+                splitType: 'itemized',
+                involvedMemberIds: ['u1', 'u2', 'u3'],
+                items: oddItems,
+                charges
+            });
+
+            const total = result.splits.reduce((sum, s) => sum + Math.round(s.amount * 100), 0);
+            expect(total).toBe(1005);
+        });
+
+        it('throws when items and charges do not add up to the amount', () => {
+            expect(() => calculateSplits({
+                totalAmount: 1200,
+                payerId: 'u1',
+                splitType: 'itemized',
+                involvedMemberIds: ['u1', 'u2', 'u3'],
+                items
+            })).toThrow(/does not equal total amount/);
+        });
+
+        it('throws on an item nobody shared', () => {
+            expect(() => calculateSplits({
+                totalAmount: 100,
+                payerId: 'u1',
+                splitType: 'itemized',
+                involvedMemberIds: ['u1'],
+                items: [{ id: 'i1', name: 'Water', price: 100, quantity: 1, member_ids: [] }]
+            })).toThrow(/at least one member/);
+        });
+    });
+
+    // ==========================================
+    // Adjustment Splits
+    // ==========================================
+    describe('Adjustment Splits', () => {
+        it('adds per-person extras on top of an equal base', () => {
+            const result = calculateSplits({
+                totalAmount: 1200,
+                payerId: 'u1',
+                splitType: 'adjustment',
+                involvedMemberIds: ['u1', 'u2', 'u3'],
+                customSplits: [{ memberId: 'u2', adjustment: 300 }]
+            });
+
+            expect(result.splits.map(s => s.amount)).toEqual([300, 600, 300]);
+            expect(result.splits[1]).toMatchObject({ base_amount: 300, adjustment: 300 });
+            expect(result.splits[0]).toMatchObject({ base_amount: 300, adjustment: 0 });
+        });
+
+        it('supports negative adjustments and a shares base', () => {
+            const result = calculateSplits({
+                totalAmount: 1000,
+                payerId: 'u1',
+                splitType: 'adjustment',
+                involvedMemberIds: ['u1', 'u2'],
+                customSplits: [
+                    { memberId: 'u1', shares: 1, adjustment: -100 },
+                    { memberId: 'u2', shares: 3, adjustment: 100 }
+                ],
+                adjustmentBase: 'shares'
+            });
+
+            // Base 1000 split 1:3 = 250/750, then -100/+100
+            expect(result.splits.map(s => s.amount)).toEqual([150, 850]);
+            expect(result.splits[1]).toMatchObject({ shares: 3, base_amount: 750, adjustment: 100 });
+        });
+
+        it('keeps the total exact with uneven remainders', () => {
+            const result = calculateSplits({
+                totalAmount: 100,
+                payerId: 'u1',
+                splitType: 'adjustment',
+                involvedMemberIds: ['u1', 'u2', 'u3'],
+                customSplits: [{ memberId: 'u3', adjustment: 0.01 }]
+            });
+
+            const total = result.splits.reduce((sum, s) => sum + Math.round(s.amount * 100), 0);
+            expect(total).toBe(10000);
+        });
+
+        it('throws when adjustments exceed the total', () => {
+            expect(() => calculateSplits({
+                totalAmount: 100,
+                payerId: 'u1',
+                splitType: 'adjustment',
+                involvedMemberIds: ['u1', 'u2'],
+                customSplits: [{ memberId: 'u1', adjustment: 150 }]
+            })).toThrow(/exceed total amount/);
+        });
+
+        it('throws when an adjustment makes a share negative', () => {
+            expect(() => calculateSplits({
+                totalAmount: 100,
+                payerId: 'u1',
+                splitType: 'adjustment',
+                involvedMemberIds: ['u1', 'u2'],
+                customSplits: [
+                    { memberId: 'u1', adjustment: -80 },
+                    { memberId: 'u2', adjustment: 40 }
+                ]
+            })).toThrow(/negative share/);
+        });
+    });
+
+    // ==========================================
+    // Currency Exponents (ISO 4217)
+    // ==========================================
+    describe('Currency Exponents', () => {
+        it('splits zero-decimal currencies in whole units (JPY)', () => {
+            const result = calculateSplits({
+                totalAmount: 10000,
+                payerId: 'u1',
+                splitType: 'equal',
+                involvedMemberIds: ['u1', 'u2', 'u3'],
+                currency: 'JPY'
+            });
+
+            const amounts = result.splits.map(s => s.amount);
+            expect(amounts).toEqual([3334, 3333, 3333]);
+            amounts.forEach(a => expect(Number.isInteger(a)).toBe(true));
+        });
+
+        it('splits shares in whole units (KRW)', () => {
+            const result = calculateSplits({
+                totalAmount: 10001,
+                payerId: 'u1',
+                splitType: 'shares',
+                involvedMemberIds: ['u1', 'u2'],
+                customSplits: [
+                    { memberId: 'u1', shares: 1 },
+                    { memberId: 'u2', shares: 1 }
+                ],
+                currency: 'KRW'
+            });
+
+            const amounts = result.splits.map(s => s.amount);
+            expect(amounts).toEqual([5001, 5000]);
+        });
+
+        it('splits three-decimal currencies to the fil (KWD)', () => {
+            const result = calculateSplits({
+                totalAmount: 1,
+                payerId: 'u1',
+                splitType: 'equal',
+                involvedMemberIds: ['u1', 'u2', 'u3'],
+                currency: 'KWD'
+            });
+
+            const amounts = result.splits.map(s => s.amount);
+            expect(amounts).toEqual([0.334, 0.333, 0.333]);
+        });
+
+        it('splits shares to the fil (OMR)', () => {
+            const result = calculateSplits({
+                totalAmount: 10,
+                payerId: 'u1',
+                splitType: 'shares',
+                involvedMemberIds: ['u1', 'u2', 'u3'],
+                customSplits: [
+                    { memberId: 'u1', shares: 1 },
+                    { memberId: 'u2', shares: 1 },
+                    { memberId: 'u3', shares: 1 }
+                ],
+                currency: 'OMR'
+            });
+
+            const amounts = result.splits.map(s => s.amount);
+            expect(amounts).toEqual([3.334, 3.333, 3.333]);
+        });
+
+        it('validates custom splits at the currency precision (BHD)', () => {
+            expect(() => calculateSplits({
+                totalAmount: 10,
+                payerId: 'u1',
+                splitType: 'custom',
+                involvedMemberIds: ['u1', 'u2'],
+                customSplits: [
+                    { memberId: 'u1', amount: 5 },
+                    { memberId: 'u2', amount: 4.999 }
+                ],
+                currency: 'BHD'
+            })).toThrow(/do not equal total amount/);
+
+            const result = calculateSplits({
+                totalAmount: 10,
+                payerId: 'u1',
+                splitType: 'custom',
+                involvedMemberIds: ['u1', 'u2'],
+                customSplits: [
+                    { memberId: 'u1', amount: 5.001 },
+                    { memberId: 'u2', amount: 4.999 }
+                ],
+                currency: 'BHD'
+            });
+            expect(result.splits.map(s => s.amount)).toEqual([5.001, 4.999]);
+        });
+
+        it('normalizes custom amounts to whole units (VND)', () => {
+            const result = calculateSplits({
+                totalAmount: 100000,
+                payerId: 'u1',
+                splitType: 'custom',
+                involvedMemberIds: ['u1', 'u2'],
+                customSplits: [
+                    { memberId: 'u1', amount: 33333.4 },
+                    { memberId: 'u2', amount: 66666.6 }
+                ],
+                currency: 'VND'
+            });
+
+            expect(result.splits.map(s => s.amount)).toEqual([33333, 66667]);
+        });
+    });
+
     // ==========================================
     // Edge Cases
     // ==========================================
@@ -0,0 +1,30 @@
+/**
+ * TripSplit - Sync Status Tests
+ *
+ * The single state shown by the header sync indicator.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getSyncStatus } from '../utils/syncUtils';
+
+describe('Sync Status', () => {
+    const idle = { online: true, syncing: false, pending: 0, conflicted: 0 };
+
+    it('is synced when online with an empty queue', () => {
+        expect(getSyncStatus(idle)).toEqual({ state: 'synced', pending: 0, conflicted: 0 });
+    });
+
+    it('reports pending writes while waiting to sync', () => {
+        expect(getSyncStatus({ ...idle, pending: 3 }).state).toBe('pending');
+        expect(getSyncStatus({ ...idle, pending: 3, syncing: true }).state).toBe('syncing');
+    });
+
+    it('shows offline before syncing or pending', () => {
+        expect(getSyncStatus({ ...idle, online: false, syncing: true, pending: 2 }).state).toBe('offline');
+    });
+
+    it('puts conflicts ahead of everything else', () => {
+        const status = getSyncStatus({ online: false, syncing: true, pending: 2, conflicted: 1 });
+        expect(status).toEqual({ state: 'conflicted', pending: 2, conflicted: 1 });
+    });
+});
@@ -21,7 +21,21 @@ export interface Trip {
     id: string;
     code: string;          // 6-char unique join code
     name: string;
-    currency: string;      // Default: 'INR'
+    currency: string;      // Base currency (ISO 4217), default: 'INR'
+    /**
+     * Manual exchange rate table entered by trip admins.
+     * Rates are expressed in base currency per 1 unit of the keyed currency.
+     */
+    exchange_rates?: ExchangeRateTable;
+    /**
+     * How leftover minor units are assigned in every split on this trip.
+     * Defaults to 'largest_remainder'.
+     */
+    remainder_policy?: RemainderPolicy;
+    /**
+     * Who may pay whom when settling up. Edited by trip admins.
+     */
+    settlement_constraints?: SettlementConstraints;
     status: 'active' | 'archived';
     created_at: string;    // ISO timestamp
     updated_at: string;    // ISO timestamp, auto-updated
@@ -37,14 +51,43 @@ export interface TripMember {
     role: MemberRole;
     is_ghost: boolean;     // True if member has no associated auth user
     joined_at: string;     // ISO timestamp
+    /**
+     * Set when the member left or was removed. Departed members are kept
+     * (soft deactivation) so their past expenses and splits still resolve.
+     */
+    left_at?: string | null;
+    removed_by?: string | null;   // Admin's auth.users.id; null if they left themselves
+    claim?: GhostClaim | null;    // Ghosts only: pending request to take this spot over
     updated_at: string;    // ISO timestamp
 }
 
+/**
+ * Someone who joined with the trip code and says they are this ghost.
+ * Once an admin approves, the ghost gets their user_id and keeps its id,
+ * so everything it paid or shared stays attached.
+ */
+export interface GhostClaim {
+    user_id: string;       // auth.users.id of the person claiming
+    display_name: string;  // Name they joined with
+    requested_at: string;  // ISO timestamp
+}
+
 export interface Expense {
     id: string;
     trip_id: string;       // References trips.id
     description: string;
     amount: number;        // Stored as DECIMAL(12,2), always > 0
+    /**
+     * Currency the expense was paid in (ISO 4217).
+     * `amount` and all split amounts are denominated in this currency.
+     */
+    currency: string;
+    /**
+     * Snapshot of the rate used to convert into the trip's base currency
+     * (base units per 1 unit of `currency`). Frozen at creation time so that
+     * later rate table edits never rewrite history.
+     */
+    exchange_rate: number;
     category: ExpenseCategory;
     type: ExpenseType;
     expense_date: string;  // ISO date (YYYY-MM-DD)
@@ -54,7 +97,14 @@ export interface Expense {
      * This allows both real users and ghost members to be payers.
      */
     paid_by: string;
-    split_type: 'equal' | 'custom' | 'shares';
+    split_type: SplitType;
+    /**
+     * Line items of an itemized bill (split_type 'itemized' only).
+     * Kept with the expense so the breakdown can be reviewed later;
+     * the split rows remain the source of truth for balances.
+     */
+    items?: ExpenseItem[];
+    charges?: ExpenseCharges; // Bill-level extras for itemized expenses
     receipt_url: string | null;
     /**
      * Indicates if AI-extracted data was reviewed and confirmed by user.
@@ -62,6 +112,18 @@ export interface Expense {
      * Set to FALSE when auto-filled by AI, then TRUE after user confirms.
      */
     ai_confirmed: boolean;
+    /**
+     * Incremented by every server write. Queued updates and deletes carry the
+     * revision they were based on so stale writes are rejected, not applied.
+     * Missing on older documents (treated as 0).
+     */
+    revision?: number;
+    /**
+     * Soft delete tombstone. A trashed expense keeps its document and splits
+     * so it can be restored; balances and lists ignore it.
+     */
+    deleted_at?: string | null;   // ISO timestamp
+    deleted_by?: string | null;   // References auth.users.id
     created_at: string;    // ISO timestamp
     updated_at: string;    // ISO timestamp
 }
@@ -69,6 +131,7 @@ export interface Expense {
 export interface ExpenseSplit {
     id: string;
     expense_id: string;    // References expenses.id
+    trip_id?: string;      // Stamped on new splits, so a trip's splits can be listed together
     /**
      * IMPORTANT: References trip_members.id, NOT auth.users.id
      * Consistent with expenses.paid_by reference.
@@ -76,6 +139,59 @@ export interface ExpenseSplit {
     member_id: string;
     amount: number;        // Stored as DECIMAL(12,2), >= 0
     shares?: number;       // Optional: stored if split_type is 'shares'
+    percentage?: number;   // Optional: stored if split_type is 'percentage'
+    /**
+     * Optional: stored if split_type is 'adjustment'.
+     * `amount` = `base_amount` (the equal/shares part) + `adjustment` (signed extra).
+     */
+    base_amount?: number;
+    adjustment?: number;
+    /**
+     * Rounding drift of this row in minor units (amount - exact share).
+     * Summed per member to keep remainders fair across the whole trip.
+     */
+    rounding_drift?: number;
+}
+
+/**
+ * A single line on an itemized bill.
+ * The line total (price x quantity) is split equally among `member_ids`.
+ */
+export interface ExpenseItem {
+    id: string;
+    name: string;
+    price: number;         // Unit price in the expense currency
+    quantity: number;      // > 0
+    member_ids: string[];  // trip_members.id of everyone who shared the item
+}
+
+/**
+ * Bill-level charges on an itemized expense, as absolute amounts.
+ * Spread across members in proportion to their item subtotals.
+ */
+export interface ExpenseCharges {
+    tax: number;
+    service: number;
+    tip: number;
+}
+
+/**
+ * A real transfer between two members ("Amit paid Neha 2,000").
+ * Recorded when a suggested settlement is marked as paid; it moves both
+ * balances toward zero without being counted as trip spending.
+ */
+export interface Payment {
+    id: string;
+    trip_id: string;       // References trips.id
+    from: string;          // trip_members.id of the member who paid
+    to: string;            // trip_members.id of the member who received
+    amount: number;        // In the trip's base currency, always > 0
+    payment_date: string;  // ISO date (YYYY-MM-DD)
+    method: PaymentMethod;
+    note: string | null;
+    created_by: string;    // References auth.users.id (who recorded it)
+    created_at: string;    // ISO timestamp
+    updated_at: string;    // ISO timestamp
 }
 
 export interface SettlementSnapshot {
@@ -83,11 +199,46 @@ export interface SettlementSnapshot {
     trip_id: string;
     filter_type: SettlementFilterType;
     generated_at: string;
-    generated_by: string;
+    generated_by: string;  // References auth.users.id (who finalised)
     transactions: SettlementTransaction[];
+    /**
+     * Balances the transactions were computed from (base currency).
+     * Kept so later views can show what changed since the settle-up.
+     */
+    balances: Balance;
+    currency: string;      // Trip base currency at the time
     algorithm_version: string;
 }
 
+/**
+ * Append-only audit record of something that happened on a trip.
+ * Written together with the change it describes and never edited.
+ */
+export interface ActivityEntry {
+    id: string;
+    trip_id: string;       // References trips.id
+    type: ActivityType;
+    entity_type: ActivityEntityType;
+    entity_id: string;     // Expense, member, payment, settlement or trip ID
+    summary: string;       // Label at the time (expense description, member name)
+    /**
+     * trip_members.id of everyone the change concerns (payer, split
+     * participants, payment parties, the member itself).
+     */
+    member_ids: string[];
+    amount?: number;       // Expenses, payments and settle-ups (total paid)
+    currency?: string;     // Currency of amount
+    changes?: ActivityChange[];   // Edits only: before/after per field
+    actor_id: string;      // References auth.users.id (who made the change)
+    created_at: string;    // ISO timestamp
+}
+
+export interface ActivityChange {
+    field: string;
+    before: unknown;
+    after: unknown;
+}
+
 // ============================================
 // ENUM TYPES
 // ============================================
@@ -96,12 +247,51 @@ export type ExpenseCategory = 'travel' | 'food' | 'stay' | 'fun' | 'other';
 
 export type ExpenseType = 'major' | 'daily';
 
+export type SplitType = 'equal' | 'custom' | 'shares' | 'percentage' | 'itemized' | 'adjustment';
+
+/** Who receives the leftover minor units when an amount does not divide evenly. */
+export type RemainderPolicy = 'payer' | 'largest_remainder' | 'rotating';
+
+/** How the non-adjusted part of an 'adjustment' split is divided. */
+export type AdjustmentBase = 'equal' | 'shares';
+
 export type MemberRole = 'admin' | 'member' | 'ghost';
 
 export type TripStatus = 'active' | 'archived';
 
+export type ActivityType =
+    | 'expense_created'
+    | 'expense_updated'
+    | 'expense_trashed'
+    | 'expense_restored'
+    | 'expense_deleted'
+    | 'member_joined'
+    | 'member_added'
+    | 'member_updated'
+    | 'member_left'
+    | 'member_removed'
+    | 'member_claimed'
+    | 'payment_recorded'
+    | 'payment_deleted'
+    | 'settlement_finalized'
+    | 'trip_updated'
+    | 'trip_archived'
+    | 'trip_reopened';
+
+export type ActivityEntityType = 'expense' | 'member' | 'payment' | 'settlement' | 'trip';
+
 export type SettlementFilterType = 'all' | 'major' | 'daily';
 
+export type PaymentMethod = 'cash' | 'upi' | 'bank_transfer' | 'card' | 'other';
+
+/**
+ * Exchange rates keyed by ISO 4217 currency code.
+ * Value = how many base currency units one unit of the currency buys.
+ */
+export interface ExchangeRateTable {
+    [currency: string]: number;
+}
+
 // ============================================
 // ALGORITHM TYPES
 // ============================================
@@ -129,9 +319,46 @@ export interface SettlementTransaction {
     amount: number;      // Rounded to 2 decimal places for display
 }
 
+/**
+ * Two members, in either direction (stored as a map: Firestore has no nested arrays).
+ */
+export interface MemberPair {
+    member_a: string;    // trip_members.id
+    member_b: string;    // trip_members.id
+}
+
+/**
+ * Members who settle with everyone else as a single unit (e.g. a couple).
+ */
+export interface SettlementGroup {
+    id: string;
+    name: string;
+    member_ids: string[];  // trip_members.id
+}
+
+/**
+ * Per-trip rules applied by calculateSettlements.
+ */
+export interface SettlementConstraints {
+    forbidden_pairs: MemberPair[];   // Never pay each other directly
+    preferred_pairs: MemberPair[];   // Settle with each other first
+    groups: SettlementGroup[];
+}
+
+/**
+ * Change in one member's balance between a snapshot and now.
+ */
+export interface BalanceDiff {
+    memberId: string;
+    before: number;      // Balance in the snapshot
+    after: number;       // Current balance
+    change: number;      // after - before
+}
+
 /**
  * Aggregated balance summary.
  * Calculated separately for global, major-only, and daily-only expenses.
+ * All values are in the trip's base currency.
  */
 export interface Summary {
     globalBalance: Balance;
@@ -176,8 +403,11 @@ export interface ValidatedReceiptData {
 export interface CreateTripInput {
     name: string;
     creatorDisplayName: string;
+    currency?: string;     // Base currency, defaults to 'INR'
 }
 
+export type UpdateTripInput = Partial<Pick<Trip, 'name' | 'exchange_rates' | 'remainder_policy' | 'settlement_constraints'>>;
+
 export interface JoinTripInput {
     code: string;
     displayName: string;
@@ -190,18 +420,60 @@ export interface CreateExpenseInput {
     category: ExpenseCategory;
     type: ExpenseType;
     paid_by: string;       // trip_members.id
-    split_type: 'equal' | 'custom' | 'shares';
+    split_type: SplitType;
+    /**
+     * Currency the expense was paid in. Defaults to the trip's base currency.
+     */
+    currency?: string;
+    /**
+     * Rate snapshot into the trip's base currency. Required when `currency`
+     * differs from the base currency; defaults to 1 otherwise.
+     */
+    exchange_rate?: number;
     /**
      * For 'equal' splits: List of member IDs participating in the split.
      * If omitted, defaults to ALL trip members (legacy behavior).
      */
     involved_member_ids?: string[];
-    custom_splits?: { member_id: string; amount: number; shares?: number }[];
+    /**
+     * Per-member inputs for non-equal splits:
+     * - 'custom': `amount`
+     * - 'shares': `shares` (amount is recalculated)
+     * - 'percentage': `percentage`, must total 100 (amount is recalculated)
+     * - 'adjustment': signed `adjustment`, plus `shares` for a shares base
+     */
+    custom_splits?: {
+        member_id: string;
+        amount: number;
+        shares?: number;
+        percentage?: number;
+        adjustment?: number;
+    }[];
+    /**
+     * For 'adjustment' splits: how the rest is divided. Defaults to 'equal'.
+     */
+    adjustment_base?: AdjustmentBase;
+    /**
+     * For 'itemized' splits: the bill's line items and charges.
+     * `amount` must equal the item totals plus charges.
+     */
+    items?: ExpenseItem[];
+    charges?: ExpenseCharges;
     expense_date?: string;
     receipt_url?: string;
     ai_confirmed?: boolean;
 }
 
+export interface CreatePaymentInput {
+    trip_id: string;
+    from: string;          // trip_members.id
+    to: string;            // trip_members.id
+    amount: number;        // Trip base currency
+    method?: PaymentMethod; // Defaults to 'cash'
+    note?: string;
+    payment_date?: string;
+}
+
 export interface AddGhostMemberInput {
     trip_id: string;
     display_name: string;
@@ -242,5 +514,9 @@ export interface CategoryConfig {
 
 /**
  * Settlement algorithm configuration.
+ * '1.0': greedy largest-debtor / largest-creditor matching.
+ * '2.0': minimum number of transfers (exact for small groups, greedy above).
  */
-export const SETTLEMENT_ALGORITHM_VERSION = '1.0';
+export type SettlementAlgorithmVersion = '1.0' | '2.0';
+
+export const SETTLEMENT_ALGORITHM_VERSION: SettlementAlgorithmVersion = '2.0';
@@ -0,0 +1,64 @@
+/**
+ * TripSplit - Activity Log Helpers
+ *
+ * Building and filtering the per-trip audit log (see ActivityEntry).
+ *
+ * Design Decisions:
+ * 1. Entries are created on the device making the change and travel with
+ *    its queued mutation, so the server writes both together.
+ * 2. Edits record only the fields whose value actually changed, with the
+ *    value before and after. Bookkeeping fields are left out.
+ * 3. Filtering by member matches both what they did (actor) and what
+ *    concerns them (payer, participant, payment party).
+ */
+
+import type { ActivityChange, ActivityEntityType, ActivityEntry } from '../types';
+import { isSameValue, withoutBookkeeping, type FieldRecord } from './conflictResolver';
+import { generateUUID } from './syncUtils';
+
+// Never worth showing in a diff
+const HIDDEN_FIELDS = new Set(['revision']);
+
+export interface ActivityFilter {
+    memberId?: string;               // trip_members.id
+    userId?: string | null;          // That member's auth user, if any
+    entityType?: ActivityEntityType;
+}
+
+/**
+ * Creates an activity entry stamped with a new ID and the current time.
+ */
+export function createActivity(
+    fields: Omit<ActivityEntry, 'id' | 'created_at'>
+): ActivityEntry {
+    return {
+        id: generateUUID(),
+        created_at: new Date().toISOString(),
+        ...fields
+    };
+}
+
+/**
+ * Lists the fields of an edit whose value differs from before.
+ *
+ * @param before - Values of the edited fields before the edit
+ * @param after - The edit (only the fields that were changed)
+ */
+export function diffFields(before: FieldRecord, after: FieldRecord): ActivityChange[] {
+    return Object.keys(withoutBookkeeping(after))
+        .filter(field => !HIDDEN_FIELDS.has(field) && !isSameValue(before[field], after[field]))
+        .map(field => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+/**
+ * Applies the Activity tab filters.
+ */
+export function filterActivity(entries: ActivityEntry[], filter: ActivityFilter): ActivityEntry[] {
+    return entries.filter(entry => {
+        if (filter.entityType && entry.entity_type !== filter.entityType) return false;
+        if (!filter.memberId) return true;
+
+        const isActor = !!filter.userId && entry.actor_id === filter.userId;
+        return isActor || entry.member_ids.includes(filter.memberId);
+    });
+}
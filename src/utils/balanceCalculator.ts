@@ -7,9 +7,19 @@
  * 3. Equal splits use exact division, drift handled by settlement rounding
  * 4. Custom splits are validated at DB level via trigger
  * 5. NEW: Prioritizes explicit 'splits' (ExpenseSplit[]) over legacy implicit calculation.
+ * 6. Expense and split amounts are in the expense currency; everything is
+ *    converted into the trip's base currency via the expense's rate snapshot.
+ * 7. Recorded payments (already in base currency) move both parties toward
+ *    zero. They settle the overall balance only, not major/daily views.
+ * 8. Trashed expenses (deleted_at set) are skipped everywhere, together with
+ *    their splits, until they are restored.
+ * 9. Departed members (left_at set) stay in the member list, so everything
+ *    they paid or shared still counts. They leave with a zero balance.
  */
 
-import type { Expense, ExpenseSplit, Balance, Summary, TripMember } from '../types';
+import type { Expense, ExpenseSplit, Balance, Summary, TripMember, Payment } from '../types';
+import { convertAmount } from './exchangeRates';
+import { DEFAULT_CURRENCY, fromCents, toCents } from './currency';
 
 /**
  * Calculates net balances for a list of expenses.
@@ -22,12 +32,14 @@ import type { Expense, ExpenseSplit, Balance, Summary, TripMember } from '../typ
  * @param expenses - List of expenses to calculate
  * @param members - All trip members (for equal split calculation fallback)
  * @param splits - All expense splits (explicit shares for equal/custom/shares)
- * @returns Balance map: member_id → net balance
+ * @param payments - Recorded settlement payments between members
+ * @returns Balance map: member_id → net balance (in the trip's base currency)
  */
 export function calculateBalances(
     expenses: Expense[],
     members: TripMember[],
-    splits: ExpenseSplit[]
+    splits: ExpenseSplit[],
+    payments: Payment[] = []
 ): Balance {
     const memberIds = members.map(m => m.id);
 
@@ -46,16 +58,19 @@ export function calculateBalances(
         splitsMap.get(split.expense_id)!.set(split.member_id, split.amount);
     });
 
-    // Process each expense
+    // Process each expense (trashed ones don't count)
     expenses.forEach(expense => {
+        if (expense.deleted_at) return;
+
         const payerId = expense.paid_by; // This is trip_members.id
-        const amount = expense.amount;
+        const rate = expense.exchange_rate;
+        const amount = convertAmount(expense.amount, rate);
 
         // Credit the payer
         if (balances[payerId] !== undefined) {
             balances[payerId] += amount;
         } else {
-            // Payer not in current member list (edge case: removed member)
+            // Payer not in current member list (edge case: member not synced yet)
             balances[payerId] = amount;
         }
 
@@ -64,7 +79,8 @@ export function calculateBalances(
 
         // NEW LOGIC: If explicit splits exist, use them (Single Source of Truth)
         if (expenseSplits && expenseSplits.size > 0) {
-            expenseSplits.forEach((splitAmount, memberId) => {
+            expenseSplits.forEach((rawSplitAmount, memberId) => {
+                const splitAmount = convertAmount(rawSplitAmount, rate);
                 if (balances[memberId] !== undefined) {
                     balances[memberId] -= splitAmount;
                 } else {
@@ -89,6 +105,12 @@ export function calculateBalances(
         // We skip processing to avoid incorrect assumptions.
     });
 
+    // Apply payments: the sender has paid off debt, the receiver has been paid back
+    payments.forEach(payment => {
+        balances[payment.from] = (balances[payment.from] || 0) + payment.amount;
+        balances[payment.to] = (balances[payment.to] || 0) - payment.amount;
+    });
+
     return balances;
 }
 
@@ -98,15 +120,18 @@ export function calculateBalances(
  * @param expenses - All expenses for the trip
  * @param members - All trip members
  * @param splits - All custom splits
+ * @param payments - Recorded settlement payments (applied to the global balance)
  * @returns Summary with global, major, and daily balances
  */
 export function calculateSummary(
     expenses: Expense[],
     members: TripMember[],
-    splits: ExpenseSplit[]
+    splits: ExpenseSplit[],
+    payments: Payment[] = []
 ): Summary {
-    const majorExpenses = expenses.filter(e => e.type === 'major');
-    const dailyExpenses = expenses.filter(e => e.type === 'daily');
+    const liveExpenses = expenses.filter(e => !e.deleted_at);
+    const majorExpenses = liveExpenses.filter(e => e.type === 'major');
+    const dailyExpenses = liveExpenses.filter(e => e.type === 'daily');
 
     // Get splits for each subset
     const majorExpenseIds = new Set(majorExpenses.map(e => e.id));
@@ -116,13 +141,39 @@ export function calculateSummary(
     const dailySplits = splits.filter(s => dailyExpenseIds.has(s.expense_id));
 
     return {
-        globalBalance: calculateBalances(expenses, members, splits),
+        globalBalance: calculateBalances(liveExpenses, members, splits, payments),
         majorBalance: calculateBalances(majorExpenses, members, majorSplits),
         dailyBalance: calculateBalances(dailyExpenses, members, dailySplits),
-        totalSpent: expenses.reduce((sum, e) => sum + e.amount, 0),
+        totalSpent: liveExpenses.reduce((sum, e) => sum + convertAmount(e.amount, e.exchange_rate), 0),
     };
 }
 
+/**
+ * Plans the payment that hands a departing member's balance to someone else.
+ * A debt is taken over by the recipient; money owed to the member is then
+ * owed to the recipient instead.
+ *
+ * @param memberId - The departing member
+ * @param balance - Their global balance (base currency)
+ * @param recipientId - Member taking the balance over
+ * @param currency - Trip base currency; a single minor unit still counts
+ * @returns The payment to record, or null if there is nothing to transfer
+ */
+export function planBalanceTransfer(
+    memberId: string,
+    balance: number,
+    recipientId: string,
+    currency: string = DEFAULT_CURRENCY
+): { from: string; to: string; amount: number } | null {
+    const cents = toCents(balance, currency);
+    if (cents === 0) return null;
+
+    const amount = fromCents(Math.abs(cents), currency);
+    return cents < 0
+        ? { from: memberId, to: recipientId, amount }
+        : { from: recipientId, to: memberId, amount };
+}
+
 /**
  * Formats a balance for display.
  * Rounds to 2 decimal places and adds sign prefix.
@@ -0,0 +1,212 @@
+/**
+ * TripSplit - Field-Level Conflict Resolution
+ *
+ * Three-way merge for queued updates: the local base (what this device saw
+ * before editing), the local change, and the current remote document.
+ *
+ * Design Decisions:
+ * 1. Only fields the local change touches are compared. Remote-only edits are
+ *    already on the server and are left alone.
+ * 2. A field merges automatically when the remote side still matches the base
+ *    (only we changed it) or both sides made the same edit.
+ * 3. Anything else is a true conflict and is surfaced to the user; nothing is
+ *    silently overwritten.
+ * 4. Bookkeeping fields (timestamps, sync status) never conflict.
+ * 5. Documents carry a revision counter. A write based on the current
+ *    revision applies as-is; a stale one goes through the field merge.
+ * 6. Full edits also replace the split rows, which only fit the fields they
+ *    were computed from. Those never merge: a stale one is a conflict.
+ * 7. Writes queued one after another on the same device build on each other:
+ *    each is based on the revision the previous one will produce. Once the
+ *    server confirms a write, the ones still queued follow on from the
+ *    revision it actually stored.
+ */
+
+export type FieldRecord = Record<string, unknown>;
+
+export type ConflictChoice = 'local' | 'remote';
+
+export interface FieldConflict {
+    field: string;
+    base: unknown;     // Value this device last saw
+    local: unknown;    // Value this device wants
+    remote: unknown;   // Value on the server now
+}
+
+/**
+ * A queued update as stored in the mutation payload.
+ */
+export interface RevisionedUpdate {
+    changes: FieldRecord;
+    base?: FieldRecord;        // Values of the changed fields before the edit
+    base_revision?: number;    // Revision the edit was made on (missing = 0)
+    splits?: unknown[];        // Replacement split rows (full edits only)
+}
+
+export interface MergeResult {
+    merged: FieldRecord;          // Local changes that can be written as-is
+    conflicts: FieldConflict[];   // Fields both sides changed differently
+}
+
+/**
+ * Thrown by the sync engine when a queued write cannot be applied as-is.
+ * Uses status 409 so processQueue treats it like any other conflict.
+ */
+export class ConflictError extends Error {
+    readonly status = 409;
+    readonly conflicts: FieldConflict[];
+    readonly remote: FieldRecord | null;   // null if the document is gone
+
+    constructor(message: string, conflicts: FieldConflict[] = [], remote: FieldRecord | null = null) {
+        super(message);
+        this.name = 'ConflictError';
+        this.conflicts = conflicts;
+        this.remote = remote;
+    }
+}
+
+const IGNORED_FIELDS = new Set(['created_at', 'updated_at', 'sync_status']);
+
+/**
+ * Serializes with sorted keys so equal objects compare equal.
+ * undefined and null are treated as the same "no value".
+ */
+function stableStringify(value: unknown): string {
+    if (value === undefined || value === null) return 'null';
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (typeof value === 'object') {
+        const entries = Object.keys(value as FieldRecord)
+            .filter(key => (value as FieldRecord)[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${stableStringify((value as FieldRecord)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Drops bookkeeping fields (they may hold Firestore Timestamps).
+ */
+export function withoutBookkeeping(record: FieldRecord): FieldRecord {
+    return Object.fromEntries(Object.entries(record).filter(([field]) => !IGNORED_FIELDS.has(field)));
+}
+
+export function isSameValue(a: unknown, b: unknown): boolean {
+    return stableStringify(a) === stableStringify(b);
+}
+
+/**
+ * Merges a local change against the remote document, field by field.
+ *
+ * @param base - Values of the changed fields before the local edit
+ * @param local - The local change (only the fields that were edited)
+ * @param remote - Current remote document
+ */
+export function mergeFields(base: FieldRecord, local: FieldRecord, remote: FieldRecord): MergeResult {
+    const merged: FieldRecord = {};
+    const conflicts: FieldConflict[] = [];
+
+    Object.keys(local).forEach(field => {
+        if (IGNORED_FIELDS.has(field)) return;
+
+        const localValue = local[field];
+        const remoteValue = remote[field];
+
+        if (isSameValue(remoteValue, base[field])) {
+            // Only we changed it
+            merged[field] = localValue;
+        } else if (!isSameValue(localValue, remoteValue)) {
+            conflicts.push({ field, base: base[field], local: localValue, remote: remoteValue });
+        }
+        // Otherwise both sides made the same edit: nothing to write
+    });
+
+    return { merged, conflicts };
+}
+
+/**
+ * Turns the user's per-field choices into the change to requeue.
+ * Conflicts without a choice keep the remote value. The new base is the
+ * remote document as the user saw it, so the retry only conflicts again if
+ * the server changes once more.
+ */
+export function applyConflictChoices(
+    local: FieldRecord,
+    remote: FieldRecord,
+    conflicts: FieldConflict[],
+    choices: Record<string, ConflictChoice>
+): { changes: FieldRecord; base: FieldRecord } {
+    const changes: FieldRecord = {};
+    const base: FieldRecord = {};
+    const conflicted = new Set(conflicts.map(c => c.field));
+
+    Object.keys(local).forEach(field => {
+        if (conflicted.has(field) && choices[field] !== 'local') return;
+
+        changes[field] = local[field];
+        base[field] = remote[field];
+    });
+
+    return { changes, base };
+}
+
+/**
+ * Decides what a queued update may write on top of the current remote document.
+ *
+ * @returns The fields to write and the revision to store with them
+ * @throws ConflictError if a stale update overlaps a newer remote edit
+ */
+export function planRevisionedUpdate(update: RevisionedUpdate, remote: FieldRecord): { changes: FieldRecord; revision: number } {
+    const remoteRevision = Number(remote.revision ?? 0);
+
+    if (remoteRevision === (update.base_revision ?? 0)) {
+        return { changes: update.changes, revision: remoteRevision + 1 };
+    }
+
+    // Someone else wrote since our base: only non-overlapping fields may go through
+    const fields = withoutBookkeeping(remote);
+    if (update.splits) {
+        throw new ConflictError('Expense was changed on another device; its splits cannot be merged', [], fields);
+    }
+    const { merged, conflicts } = mergeFields(update.base || {}, update.changes, fields);
+    if (conflicts.length > 0) {
+        throw new ConflictError('Expense was changed on another device', conflicts, fields);
+    }
+    return { changes: merged, revision: remoteRevision + 1 };
+}
+
+/**
+ * Base revisions for writes still queued behind a confirmed one.
+ * Each queued update raises the revision by one; a delete doesn't.
+ *
+ * @param revision - Revision the server stored for the confirmed write
+ * @param actions - Actions of the later queued writes, in queue order
+ * @returns Base revision for each, and the revision the local copy ends on
+ */
+export function rebaseQueuedRevisions(
+    revision: number,
+    actions: ('create' | 'update' | 'delete')[]
+): { bases: number[]; local: number } {
+    let next = revision;
+    const bases = actions.map(action => {
+        const base = next;
+        if (action === 'update') next += 1;
+        return base;
+    });
+    return { bases, local: next };
+}
+
+/**
+ * A queued delete may only remove the revision it was based on.
+ *
+ * @throws ConflictError if the remote document changed since
+ */
+export function assertDeleteRevision(baseRevision: number | undefined, remote: FieldRecord): void {
+    if (Number(remote.revision ?? 0) !== (baseRevision ?? 0)) {
+        throw new ConflictError(
+            'Expense was changed on another device before it was deleted',
+            [],
+            withoutBookkeeping(remote)
+        );
+    }
+}
@@ -2,84 +2,160 @@
  * TripSplit - Currency Utility (Hardened)
  *
  * Provides safe integer-based arithmetic for monetary values.
- * All calculations are performed in cents (integer) to avoid floating-point errors.
+ * All calculations are performed in minor units (integer) to avoid floating-point errors.
  *
  * Design Decisions:
- * 1. Default currency is assumed to be decimal with 2 places (cents).
- * 2. Inputs are numbers (floats) from the DB/UI, converted to cents immediately.
+ * 1. The minor-unit exponent comes from ISO 4217 (JPY = 0, INR = 2, KWD = 3).
+ *    Unknown currencies fall back to 2 decimal places.
+ * 2. Inputs are numbers (floats) from the DB/UI, converted to minor units immediately.
  * 3. Outputs are converted back to numbers (floats) for storage/display.
+ * 4. The "cents" naming is historical: read it as "minor units of `currency`".
  */
 
-// Multiplier for 2 decimal places (100)
-const PRECISION = 100;
+import { allocateMinorUnits, type RemainderOptions } from './remainder';
 
 /**
- * Converts a float amount to integer cents.
+ * Base currency used when a trip or expense does not specify one.
+ * All legacy data was recorded in INR.
+ */
+export const DEFAULT_CURRENCY = 'INR';
+
+/**
+ * Currencies offered in the UI (ISO 4217).
+ * Any valid code works in calculations; this list only drives pickers.
+ */
+export const SUPPORTED_CURRENCIES = [
+    'INR', 'EUR', 'USD', 'GBP', 'CHF', 'AED', 'SGD', 'THB', 'AUD', 'CAD',
+    'JPY', 'KRW', 'VND', 'KWD', 'BHD', 'OMR',
+] as const;
+
+// Default exponent (2 decimal places, i.e. cents)
+const DEFAULT_EXPONENT = 2;
+
+/**
+ * ISO 4217 minor-unit exponents that differ from the default of 2.
+ */
+const MINOR_UNIT_EXPONENTS: Record<string, number> = {
+    // Zero-decimal currencies
+    BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0,
+    PYG: 0, RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+    // Three-decimal currencies
+    BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+};
+
+/**
+ * Returns the number of decimal places (minor-unit exponent) for a currency.
+ */
+export function getMinorUnitExponent(currency: string = DEFAULT_CURRENCY): number {
+    const exponent = MINOR_UNIT_EXPONENTS[currency.trim().toUpperCase()];
+    return exponent ?? DEFAULT_EXPONENT;
+}
+
+/**
+ * Multiplier between major and minor units (1, 100 or 1000).
+ */
+function getPrecision(currency: string): number {
+    return 10 ** getMinorUnitExponent(currency);
+}
+
+/**
+ * Converts a float amount to integer minor units.
  * Uses Math.round to handle floating point inaccuracies (e.g. 1.0000001).
  */
-export function toCents(amount: number): number {
-    return Math.round(amount * PRECISION);
+export function toCents(amount: number, currency: string = DEFAULT_CURRENCY): number {
+    return Math.round(amount * getPrecision(currency));
+}
+
+/**
+ * Converts integer minor units back to a float amount.
+ */
+export function fromCents(cents: number, currency: string = DEFAULT_CURRENCY): number {
+    return cents / getPrecision(currency);
 }
 
 /**
- * Converts integer cents back to a float amount.
+ * Rounds a float amount to the currency's smallest unit.
  */
-export function fromCents(cents: number): number {
-    return cents / PRECISION;
+export function roundToMinorUnit(amount: number, currency: string = DEFAULT_CURRENCY): number {
+    return fromCents(toCents(amount, currency), currency);
 }
 
 /**
  * Safely adds two float amounts.
  */
-export function safeAdd(a: number, b: number): number {
-    return fromCents(toCents(a) + toCents(b));
+export function safeAdd(a: number, b: number, currency: string = DEFAULT_CURRENCY): number {
+    return fromCents(toCents(a, currency) + toCents(b, currency), currency);
 }
 
 /**
  * Safely subtracts two float amounts.
  */
-export function safeSubtract(a: number, b: number): number {
-    return fromCents(toCents(a) - toCents(b));
+export function safeSubtract(a: number, b: number, currency: string = DEFAULT_CURRENCY): number {
+    return fromCents(toCents(a, currency) - toCents(b, currency), currency);
 }
 
 /**
  * Safely multiplies a float amount by a scalar.
  */
-export function safeMultiply(amount: number, factor: number): number {
-    return fromCents(Math.round(toCents(amount) * factor));
+export function safeMultiply(amount: number, factor: number, currency: string = DEFAULT_CURRENCY): number {
+    return fromCents(Math.round(toCents(amount, currency) * factor), currency);
 }
 
 /**
  * Distributes an amount equally among N participants.
- * Handles remainders by distributing pennies to the first few participants.
+ * Leftover minor units are handed out by the remainder policy (see remainder.ts);
+ * without options they go to the first few participants.
  *
  * @param totalAmount - Total amount to split (float)
  * @param count - Number of participants
+ * @param currency - ISO 4217 code, decides the smallest distributable unit
+ * @param options - Remainder policy, payer, seed and drift carry
  * @returns Array of amounts (floats) summing exactly to totalAmount
  */
-export function distributeAmount(totalAmount: number, count: number): number[] {
+export function distributeAmount(
+    totalAmount: number,
+    count: number,
+    currency: string = DEFAULT_CURRENCY,
+    options: RemainderOptions = {}
+): number[] {
     if (count <= 0) return [];
 
-    const totalCents = toCents(totalAmount);
-    const baseShare = Math.floor(totalCents / count);
-    const remainder = totalCents % count;
+    const { amounts } = allocateMinorUnits(
+        toCents(totalAmount, currency),
+        new Array<number>(count).fill(1),
+        options
+    );
 
-    const shares: number[] = [];
-    for (let i = 0; i < count; i++) {
-        // Distribute remainder one cent at a time
-        const shareCents = baseShare + (i < remainder ? 1 : 0);
-        shares.push(fromCents(shareCents));
-    }
-
-    return shares;
+    return amounts.map(cents => fromCents(cents, currency));
 }
 
 /**
  * Validates if a list of split amounts sums up to the total amount.
- * Allows for a tiny epsilon difference due to floating point inputs, but strictly checks cents.
+ * Allows for a tiny epsilon difference due to floating point inputs, but strictly checks minor units.
  */
-export function validateTotal(total: number, splits: number[]): boolean {
-    const totalCents = toCents(total);
-    const splitsCents = splits.reduce((sum, s) => sum + toCents(s), 0);
+export function validateTotal(
+    total: number,
+    splits: number[],
+    currency: string = DEFAULT_CURRENCY
+): boolean {
+    const totalCents = toCents(total, currency);
+    const splitsCents = splits.reduce((sum, s) => sum + toCents(s, currency), 0);
     return totalCents === splitsCents;
 }
+
+/**
+ * Returns the display symbol for a currency code (e.g. 'INR' -> '₹').
+ * Falls back to the code itself if the runtime does not know the currency.
+ */
+export function getCurrencySymbol(currency: string = DEFAULT_CURRENCY): string {
+    try {
+        const parts = new Intl.NumberFormat('en-IN', {
+            style: 'currency',
+            currency,
+            currencyDisplay: 'narrowSymbol',
+        }).formatToParts(0);
+        return parts.find(p => p.type === 'currency')?.value || currency;
+    } catch {
+        return currency;
+    }
+}
@@ -0,0 +1,97 @@
+/**
+ * TripSplit - Exchange Rates
+ *
+ * Converts expense amounts into a trip's base currency.
+ *
+ * Design Decisions:
+ * 1. Rates come from a pluggable `ExchangeRateProvider`. The default provider
+ *    reads the manual rate table stored on the trip; a network-backed provider
+ *    can be swapped in without touching callers.
+ * 2. Rates are resolved ONCE, when an expense is created, and snapshotted on the
+ *    expense (`exchange_rate`). Balances always use the snapshot.
+ * 3. A rate is "base units per 1 unit of the foreign currency".
+ */
+
+import type { ExchangeRateTable } from '../types';
+import { DEFAULT_CURRENCY } from './currency';
+
+/**
+ * Source of exchange rates.
+ * Returns null when the provider does not know the pair.
+ */
+export interface ExchangeRateProvider {
+    readonly id: string;
+    getRate(from: string, to: string): Promise<number | null>;
+}
+
+/**
+ * Normalizes a currency code for comparison and storage.
+ */
+export function normalizeCurrency(code: string | null | undefined): string {
+    return (code || DEFAULT_CURRENCY).trim().toUpperCase();
+}
+
+/**
+ * Checks that a rate is usable (finite and strictly positive).
+ */
+export function isValidRate(rate: unknown): rate is number {
+    return typeof rate === 'number' && Number.isFinite(rate) && rate > 0;
+}
+
+/**
+ * Creates a provider backed by a trip's manual rate table.
+ * Cross rates (e.g. CHF -> EUR on an INR trip) are derived via the base currency.
+ *
+ * @param baseCurrency - The trip's base currency
+ * @param table - Rates keyed by currency, expressed in base units
+ */
+export function createManualRateProvider(
+    baseCurrency: string,
+    table: ExchangeRateTable = {}
+): ExchangeRateProvider {
+    const base = normalizeCurrency(baseCurrency);
+
+    const rateToBase = (currency: string): number | null => {
+        const code = normalizeCurrency(currency);
+        if (code === base) return 1;
+        const rate = table[code];
+        return isValidRate(rate) ? rate : null;
+    };
+
+    return {
+        id: 'manual',
+        async getRate(from: string, to: string) {
+            const fromRate = rateToBase(from);
+            const toRate = rateToBase(to);
+            if (fromRate === null || toRate === null) return null;
+            return fromRate / toRate;
+        },
+    };
+}
+
+/**
+ * Resolves the rate for converting `from` into `to`.
+ *
+ * @throws Error if the provider has no usable rate for the pair
+ */
+export async function resolveExchangeRate(
+    provider: ExchangeRateProvider,
+    from: string,
+    to: string
+): Promise<number> {
+    if (normalizeCurrency(from) === normalizeCurrency(to)) return 1;
+
+    const rate = await provider.getRate(normalizeCurrency(from), normalizeCurrency(to));
+    if (!isValidRate(rate)) {
+        throw new Error(`No exchange rate available for ${from} → ${to}`);
+    }
+    return rate;
+}
+
+/**
+ * Converts an amount using a rate snapshot.
+ * No rounding here - rounding only happens at the display layer.
+ */
+export function convertAmount(amount: number, rate: number | null | undefined): number {
+    return amount * (isValidRate(rate) ? rate : 1);
+}
@@ -0,0 +1,117 @@
+/**
+ * TripSplit - Remainder Allocation
+ *
+ * Splitting an amount in minor units usually leaves a few units over
+ * (100.00 / 3 = 33.33 each + 1 paisa). This module decides who gets them.
+ *
+ * Design Decisions:
+ * 1. Policies (stored per trip, see `Trip.remainder_policy`):
+ *    - 'largest_remainder' (Hamilton): units go to the largest fractional parts.
+ *    - 'rotating': Hamilton, but ties are broken starting at an offset seeded
+ *      by the expense id, so equal splits do not always favour the same person.
+ *    - 'payer': the payer absorbs every leftover unit.
+ * 2. The fair policies accept a carry: each participant's accumulated rounding
+ *    drift from earlier expenses. Ranking on (exact share - carry) keeps every
+ *    member's total drift across a trip within one minor unit.
+ * 3. Everything here is in integer minor units; drift is reported back so
+ *    callers can persist it and feed it into the next allocation.
+ */
+
+import type { RemainderPolicy } from '../types';
+
+/**
+ * Policy used when a trip does not specify one.
+ */
+export const DEFAULT_REMAINDER_POLICY: RemainderPolicy = 'largest_remainder';
+
+// Absorbs float noise in exact shares (33.999999999 is 34)
+const FLOAT_TOLERANCE = 1e-9;
+
+export interface RemainderOptions {
+    policy?: RemainderPolicy;
+    payerIndex?: number;   // Index of the payer among participants ('payer' policy)
+    seed?: string;         // Usually the expense id ('rotating' policy)
+    carry?: number[];      // Accumulated drift per participant, in minor units
+}
+
+export interface RemainderAllocation {
+    amounts: number[];     // Integer minor units, summing exactly to the total
+    drift: number[];       // amount - exact share, per participant, in minor units
+}
+
+/**
+ * Deterministic offset in [0, count) derived from a seed string.
+ */
+function seedOffset(seed: string, count: number): number {
+    let hash = 0;
+    for (let i = 0; i < seed.length; i++) {
+        hash = (hash * 31 + seed.charCodeAt(i)) >>> 0;
+    }
+    return count > 0 ? hash % count : 0;
+}
+
+/**
+ * Distributes integer minor units in proportion to weights.
+ * Zero-weight participants always receive zero.
+ *
+ * @param totalUnits - Total in minor units (integer, >= 0)
+ * @param weights - Relative weights per participant
+ * @param options - Remainder policy and its inputs
+ * @throws Error if no participant has a positive weight
+ */
+export function allocateMinorUnits(
+    totalUnits: number,
+    weights: number[],
+    options: RemainderOptions = {}
+): RemainderAllocation {
+    const policy = options.policy || DEFAULT_REMAINDER_POLICY;
+    const totalWeight = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+
+    if (totalWeight <= 0) {
+        throw new Error('Cannot allocate an amount without positive weights');
+    }
+
+    const exact = weights.map(w => (w > 0 ? (totalUnits * w) / totalWeight : 0));
+    const eligible = weights.map((w, i) => (w > 0 ? i : -1)).filter(i => i >= 0);
+
+    const payerIndex = options.payerIndex ?? -1;
+    const payerAbsorbs = policy === 'payer' && payerIndex >= 0 && weights[payerIndex] > 0;
+
+    // The payer policy deliberately ignores history: the payer pays the extra
+    const carry = payerAbsorbs ? [] : (options.carry || []);
+    const targets = exact.map((e, i) => (weights[i] > 0 ? e - (carry[i] || 0) : 0));
+    const amounts = targets.map((t, i) => (weights[i] > 0 ? Math.max(0, Math.floor(t + FLOAT_TOLERANCE)) : 0));
+
+    let leftover = totalUnits - amounts.reduce((sum, a) => sum + a, 0);
+
+    if (payerAbsorbs && leftover >= 0) {
+        amounts[payerIndex] += leftover;
+    } else {
+        const offset = policy === 'rotating' ? seedOffset(options.seed || '', eligible.length) : 0;
+        const rotated = eligible.map((_, k) => eligible[(k + offset) % eligible.length]);
+
+        // Largest residual first; the stable sort keeps the rotated order for ties
+        const residual = targets.map((t, i) => t - amounts[i]);
+        const ranked = [...rotated].sort((a, b) => {
+            const diff = residual[b] - residual[a];
+            return Math.abs(diff) < FLOAT_TOLERANCE ? 0 : diff;
+        });
+
+        for (let k = 0; leftover > 0; k++, leftover--) {
+            amounts[ranked[k % ranked.length]] += 1;
+        }
+
+        // Clamping at zero can overshoot; take units back from the lowest ranked
+        for (let k = ranked.length - 1; leftover < 0; k = (k - 1 + ranked.length) % ranked.length) {
+            if (amounts[ranked[k]] > 0) {
+                amounts[ranked[k]] -= 1;
+                leftover++;
+            }
+        }
+    }
+
+    return {
+        amounts,
+        drift: amounts.map((a, i) => a - exact[i]),
+    };
+}
@@ -1,70 +1,74 @@
 /**
  * TripSplit - Min-Cash-Flow Settlement Algorithm (Hardened)
  * 
- * ALGORITHM VERSION: 1.0
+ * ALGORITHM VERSION: 2.0 (1.0 greedy still selectable)
  * 
  * DESIGN DECISIONS:
  * 1. All member IDs are trip_members.id (not auth.users.id)
  * 2. Rounding only happens at OUTPUT layer (display), not storage
- * 3. Tolerance of 0.01 for floating point comparison
+ * 3. Tolerance of one minor unit of the base currency (0.01 for INR, 1 for JPY)
  * 4. Algorithm is deterministic for same input
+ * 5. 2.0 finds the fewest transfers exactly for small groups and falls back
+ *    to the 1.0 greedy matcher for large ones
  */
 
-import type { Balance, SettlementTransaction, TripMember } from '../types';
+import type {
+    Balance,
+    BalanceDiff,
+    SettlementAlgorithmVersion,
+    SettlementConstraints,
+    SettlementFilterType,
+    SettlementSnapshot,
+    SettlementTransaction,
+    TripMember
+} from '../types';
 import { SETTLEMENT_ALGORITHM_VERSION } from '../types';
+import { DEFAULT_CURRENCY, fromCents, roundToMinorUnit, toCents } from './currency';
 
 // Re-export version for external use
 export { SETTLEMENT_ALGORITHM_VERSION };
 
-// Tolerance for floating point comparison (1 paisa)
-const EPSILON = 0.01;
+/**
+ * Largest group the exact solver handles. Its table has 2^n entries, so 20
+ * members is about a million states; bigger groups use the greedy matcher.
+ */
+export const EXACT_SOLVER_MAX_MEMBERS = 20;
 
 /**
- * Checks if a balance is effectively zero.
+ * Optional knobs for settlement calculation.
  */
-function isZero(value: number): boolean {
-    return Math.abs(value) < EPSILON;
+export interface SettlementOptions {
+    currency?: string;     // Trip base currency (decides rounding and tolerance)
+    algorithmVersion?: SettlementAlgorithmVersion; // Defaults to SETTLEMENT_ALGORITHM_VERSION
+    constraints?: SettlementConstraints;           // Per-trip payment rules
+}
+
+interface Party {
+    id: string;
+    amount: number;        // positive = gets back, negative = owes
+}
+
+interface Transfer {
+    from: string;
+    to: string;
+    amount: number;
 }
 
 /**
- * Calculates the minimum transactions needed to settle all debts.
- * Uses a greedy algorithm that pairs largest debtor with largest creditor.
- * 
+ * Pairs the largest debtor with the largest creditor until everyone is settled.
+ * Mutates the party amounts.
+ *
  * Time Complexity: O(N log N) for sorting + O(N) for matching
- * Space Complexity: O(N)
- * 
- * @param balances - Map of member_id → net balance (positive = gets back, negative = owes)
- * @param members - List of trip members for name resolution
- * @returns Array of settlement transactions, sorted by amount descending
  */
-export function calculateSettlements(
-    balances: Balance,
-    members: TripMember[]
-): SettlementTransaction[] {
-    // Build name lookup map
-    const nameMap = new Map<string, string>();
-    members.forEach(m => nameMap.set(m.id, m.display_name));
+function matchGreedy(parties: Party[], epsilon: number): Transfer[] {
+    const isZero = (value: number) => Math.abs(value) < epsilon;
 
-    // Separate into debtors (negative) and creditors (positive)
-    const debtors: { id: string; amount: number }[] = [];
-    const creditors: { id: string; amount: number }[] = [];
-
-    Object.entries(balances).forEach(([id, balance]) => {
-        if (balance < -EPSILON) {
-            debtors.push({ id, amount: balance }); // negative value
-        } else if (balance > EPSILON) {
-            creditors.push({ id, amount: balance }); // positive value
-        }
-        // Skip zero balances
-    });
-
-    // Sort for greedy matching
     // Debtors: ascending (most negative first, i.e., largest debt)
-    debtors.sort((a, b) => a.amount - b.amount);
+    const debtors = parties.filter(p => p.amount < 0).sort((a, b) => a.amount - b.amount);
     // Creditors: descending (largest credit first)
-    creditors.sort((a, b) => b.amount - a.amount);
+    const creditors = parties.filter(p => p.amount > 0).sort((a, b) => b.amount - a.amount);
 
-    const transactions: SettlementTransaction[] = [];
+    const transfers: Transfer[] = [];
     let i = 0; // debtor pointer
     let j = 0; // creditor pointer
 
@@ -79,15 +83,8 @@ export function calculateSettlements(
         );
 
         // Only create transaction if amount is significant
-        if (transferAmount > EPSILON) {
-            transactions.push({
-                from: debtor.id,
-                fromName: nameMap.get(debtor.id) || 'Unknown',
-                to: creditor.id,
-                toName: nameMap.get(creditor.id) || 'Unknown',
-                // Round to 2 decimal places for display
-                amount: Math.round(transferAmount * 100) / 100,
-            });
+        if (transferAmount > epsilon) {
+            transfers.push({ from: debtor.id, to: creditor.id, amount: transferAmount });
         }
 
         // Update remaining balances
@@ -99,6 +96,358 @@ export function calculateSettlements(
         if (isZero(creditor.amount)) j++;
     }
 
+    return transfers;
+}
+
+/**
+ * Splits balances (integer minor units, summing to zero) into the largest
+ * number of disjoint zero-sum groups.
+ *
+ * A group of k people always settles in k - 1 transfers, so n people in g
+ * groups need n - g transfers, and maximising g minimises transfers.
+ * best[mask] is the most zero-sum groups any ordering of `mask` passes
+ * through; a prefix closes a group whenever its sum hits zero.
+ *
+ * Time Complexity: O(2^N * N), Space Complexity: O(2^N)
+ *
+ * @returns Groups of indices into `cents`
+ */
+function findZeroSumGroups(cents: number[]): number[][] {
+    const size = 1 << cents.length;
+    const sums = new Float64Array(size);
+    const best = new Int8Array(size);
+
+    for (let mask = 1; mask < size; mask++) {
+        const lowBit = mask & -mask;
+        sums[mask] = sums[mask ^ lowBit] + cents[31 - Math.clz32(lowBit)];
+
+        let most = 0;
+        for (let rest = mask; rest; rest &= rest - 1) {
+            most = Math.max(most, best[mask ^ (rest & -rest)]);
+        }
+        best[mask] = most + (sums[mask] === 0 ? 1 : 0);
+    }
+
+    // Walk back from the full set to recover one optimal ordering
+    const order: number[] = [];
+    for (let mask = size - 1; mask; ) {
+        const closes = sums[mask] === 0 ? 1 : 0;
+        for (let rest = mask; rest; rest &= rest - 1) {
+            const bit = rest & -rest;
+            if (best[mask ^ bit] + closes === best[mask]) {
+                order.push(31 - Math.clz32(bit));
+                mask ^= bit;
+                break;
+            }
+        }
+    }
+    order.reverse();
+
+    const groups: number[][] = [];
+    let group: number[] = [];
+    let prefix = 0;
+    order.forEach(index => {
+        group.push(index);
+        prefix |= 1 << index;
+        if (sums[prefix] === 0) {
+            groups.push(group);
+            group = [];
+        }
+    });
+
+    return groups;
+}
+
+/**
+ * Makes integer balances add up to exactly zero.
+ * Rounding each balance to minor units (and the FX conversion before it) can
+ * leave a residue of a few units. It is taken off the largest balance on the
+ * side that has too much, so the exact solver still applies.
+ *
+ * @returns A corrected copy, or null if the residue is more than one minor
+ *   unit per party (more than rounding can explain)
+ */
+function absorbResidue(cents: number[]): number[] | null {
+    const residue = cents.reduce((sum, c) => sum + c, 0);
+    if (residue === 0) return cents;
+    if (Math.abs(residue) > cents.length) return null;
+
+    // Largest creditor if credits exceed debts, largest debtor otherwise
+    let target = -1;
+    cents.forEach((c, index) => {
+        if (Math.sign(c) === Math.sign(residue) && (target < 0 || Math.abs(c) > Math.abs(cents[target]))) {
+            target = index;
+        }
+    });
+    if (target < 0 || Math.abs(cents[target]) < Math.abs(residue)) return null;
+
+    const corrected = [...cents];
+    corrected[target] -= residue;
+    return corrected;
+}
+
+/**
+ * Settles with the fewest possible transfers by matching greedily inside
+ * each zero-sum group. Works in integer minor units so that "zero-sum" is exact.
+ *
+ * @returns null if the balances are off zero by more than rounding residue
+ */
+function matchMinimal(parties: Party[], currency: string): Transfer[] | null {
+    const cents = absorbResidue(parties.map(p => toCents(p.amount, currency)));
+    if (!cents) return null;
+
+    // Amounts are whole units here, so any non-zero transfer is significant
+    return findZeroSumGroups(cents).flatMap(group =>
+        matchGreedy(group.map(index => ({ id: parties[index].id, amount: cents[index] })), 0.5)
+            .map(t => ({ ...t, amount: fromCents(t.amount, currency) }))
+    );
+}
+
+/**
+ * True if the constraints would change anything.
+ */
+function hasConstraints(constraints?: SettlementConstraints): constraints is SettlementConstraints {
+    return !!constraints && (
+        (constraints.forbidden_pairs || []).length > 0 ||
+        (constraints.preferred_pairs || []).length > 0 ||
+        (constraints.groups || []).length > 0
+    );
+}
+
+/**
+ * Greedy matching that only uses allowed payer → receiver pairs.
+ * When no debtor can pay any creditor directly, routes one payment through
+ * an intermediary allowed on both sides (their own balance is unchanged).
+ *
+ * @returns null if some balance cannot be settled under the rules
+ */
+function matchAllowed(
+    parties: Party[],
+    canPay: (from: string, to: string) => boolean,
+    intermediaries: string[] = []
+): Transfer[] | null {
+    const open = parties.map(p => ({ ...p }));
+    const transfers: Transfer[] = [];
+
+    const settle = (debtor: Party, creditor: Party, via?: string) => {
+        const amount = Math.min(-debtor.amount, creditor.amount);
+        if (via) {
+            transfers.push({ from: debtor.id, to: via, amount }, { from: via, to: creditor.id, amount });
+        } else {
+            transfers.push({ from: debtor.id, to: creditor.id, amount });
+        }
+        debtor.amount += amount;
+        creditor.amount -= amount;
+    };
+
+    for (;;) {
+        const debtors = open.filter(p => p.amount < 0).sort((a, b) => a.amount - b.amount);
+        const creditors = open.filter(p => p.amount > 0).sort((a, b) => b.amount - a.amount);
+        if (debtors.length === 0 || creditors.length === 0) return transfers;
+
+        const direct = debtors
+            .map(debtor => ({ debtor, creditor: creditors.find(c => canPay(debtor.id, c.id)) }))
+            .find(match => match.creditor);
+        if (direct?.creditor) {
+            settle(direct.debtor, direct.creditor);
+            continue;
+        }
+
+        const debtor = debtors[0];
+        const routed = creditors
+            .map(creditor => ({
+                creditor,
+                via: intermediaries.find(x =>
+                    x !== debtor.id && x !== creditor.id && canPay(debtor.id, x) && canPay(x, creditor.id)
+                )
+            }))
+            .find(route => route.via);
+        if (!routed) return null;
+
+        settle(debtor, routed.creditor, routed.via);
+    }
+}
+
+/**
+ * Settles in integer minor units under per-trip constraints:
+ * 1. Each group is merged into one unit; transfers between units are made by
+ *    the group member who owes (or is owed) the most and is allowed to pay.
+ * 2. Preferred pairs settle with each other first, as far as their balances allow.
+ * 3. The rest is matched without forbidden pairs: inside exact zero-sum groups
+ *    when `exact` is set, across everyone (with intermediaries) otherwise.
+ * 4. Group members finally square up among themselves so every individual
+ *    balance clears.
+ *
+ * @throws Error if forbidden pairs leave a balance with no way to settle
+ */
+function matchConstrained(
+    balances: Balance,
+    constraints: SettlementConstraints,
+    currency: string,
+    exact: boolean
+): Transfer[] {
+    const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+    const forbidden = new Set((constraints.forbidden_pairs || []).map(p => pairKey(p.member_a, p.member_b)));
+    const canMembersPay = (from: string, to: string) => from !== to && !forbidden.has(pairKey(from, to));
+
+    const cents = new Map<string, number>();
+    Object.entries(balances).forEach(([id, balance]) => cents.set(id, toCents(balance, currency)));
+
+    // 1. Units: a member belongs to the first group that lists them
+    const unitOf = new Map<string, string>();
+    const unitMembers = new Map<string, string[]>();
+    (constraints.groups || []).forEach(group => {
+        const memberIds = group.member_ids.filter(id => cents.has(id) && !unitOf.has(id));
+        if (memberIds.length < 2) return;
+
+        const unitId = `group:${group.id}`;
+        memberIds.forEach(id => unitOf.set(id, unitId));
+        unitMembers.set(unitId, memberIds);
+    });
+    cents.forEach((_, id) => {
+        if (!unitOf.has(id)) {
+            unitOf.set(id, id);
+            unitMembers.set(id, [id]);
+        }
+    });
+
+    const unitBalance = new Map<string, number>();
+    unitMembers.forEach((memberIds, unitId) => {
+        unitBalance.set(unitId, memberIds.reduce((sum, id) => sum + (cents.get(id) || 0), 0));
+    });
+
+    // Biggest debtor pays for the unit, biggest creditor receives for it
+    const endpoints = (fromUnit: string, toUnit: string): [string, string] | null => {
+        const payers = [...(unitMembers.get(fromUnit) || [])].sort((a, b) => (cents.get(a) || 0) - (cents.get(b) || 0));
+        const receivers = [...(unitMembers.get(toUnit) || [])].sort((a, b) => (cents.get(b) || 0) - (cents.get(a) || 0));
+        for (const from of payers) {
+            const to = receivers.find(r => canMembersPay(from, r));
+            if (to) return [from, to];
+        }
+        return null;
+    };
+    const canUnitsPay = (from: string, to: string) => from !== to && endpoints(from, to) !== null;
+
+    const unitTransfers: Transfer[] = [];
+
+    // 2. Preferred pairs
+    (constraints.preferred_pairs || []).forEach(({ member_a, member_b }) => {
+        const unitA = unitOf.get(member_a);
+        const unitB = unitOf.get(member_b);
+        if (!unitA || !unitB || unitA === unitB) return;
+
+        const balanceA = unitBalance.get(unitA) || 0;
+        const balanceB = unitBalance.get(unitB) || 0;
+        const [debtor, creditor] = balanceA < 0 ? [unitA, unitB] : [unitB, unitA];
+        const amount = Math.min(-(unitBalance.get(debtor) || 0), unitBalance.get(creditor) || 0);
+        if (amount <= 0 || Math.sign(balanceA) === Math.sign(balanceB) || !canUnitsPay(debtor, creditor)) return;
+
+        unitTransfers.push({ from: debtor, to: creditor, amount });
+        unitBalance.set(debtor, (unitBalance.get(debtor) || 0) + amount);
+        unitBalance.set(creditor, (unitBalance.get(creditor) || 0) - amount);
+    });
+
+    // 3. Everyone else
+    const parties: Party[] = [...unitBalance]
+        .filter(([, amount]) => amount !== 0)
+        .map(([id, amount]) => ({ id, amount }));
+
+    let rest: Transfer[] | null = null;
+    const exactCents = exact && parties.length <= EXACT_SOLVER_MAX_MEMBERS
+        ? absorbResidue(parties.map(p => p.amount))
+        : null;
+    if (exactCents) {
+        const grouped = findZeroSumGroups(exactCents)
+            .map(group => matchAllowed(group.map(index => ({ id: parties[index].id, amount: exactCents[index] })), canUnitsPay));
+        rest = grouped.every(Boolean) ? grouped.flatMap(t => t || []) : null;
+    }
+    rest = rest || matchAllowed(parties, canUnitsPay, [...unitMembers.keys()]);
+    if (!rest) {
+        throw new Error('Forbidden pairs leave some balances with no way to settle');
+    }
+    unitTransfers.push(...rest);
+
+    // Resolve units to the members who actually pay
+    const remaining = new Map(cents);
+    const transfers: Transfer[] = unitTransfers.map(t => {
+        const [from, to] = endpoints(t.from, t.to) as [string, string];
+        remaining.set(from, (remaining.get(from) || 0) + t.amount);
+        remaining.set(to, (remaining.get(to) || 0) - t.amount);
+        return { from, to, amount: t.amount };
+    });
+
+    // 4. Square up inside each group
+    unitMembers.forEach(memberIds => {
+        if (memberIds.length < 2) return;
+        transfers.push(...matchGreedy(memberIds.map(id => ({ id, amount: remaining.get(id) || 0 })), 0.5));
+    });
+
+    // One line per payer → receiver
+    const merged = new Map<string, Transfer>();
+    transfers.forEach(t => {
+        const key = `${t.from}->${t.to}`;
+        const existing = merged.get(key);
+        if (existing) {
+            existing.amount += t.amount;
+        } else {
+            merged.set(key, { ...t });
+        }
+    });
+
+    return [...merged.values()].map(t => ({ ...t, amount: fromCents(t.amount, currency) }));
+}
+
+/**
+ * Calculates the transactions needed to settle all debts.
+ *
+ * - '1.0': greedy, pairs largest debtor with largest creditor. Fast, but can
+ *   miss subgroups that could settle among themselves.
+ * - '2.0': provably minimal number of transfers for up to
+ *   EXACT_SOLVER_MAX_MEMBERS unsettled members, greedy above that.
+ *
+ * With constraints (forbidden/preferred pairs, groups) the result still clears
+ * every balance, but may need more transfers than the unconstrained minimum.
+ * 
+ * @param balances - Map of member_id → net balance (positive = gets back, negative = owes)
+ * @param members - List of trip members for name resolution
+ * @param options - Base currency for rounding, algorithm version, constraints
+ * @returns Array of settlement transactions, sorted by amount descending
+ * @throws Error if the constraints make settling impossible
+ */
+export function calculateSettlements(
+    balances: Balance,
+    members: TripMember[],
+    options: SettlementOptions = {}
+): SettlementTransaction[] {
+    const currency = options.currency || DEFAULT_CURRENCY;
+    const algorithmVersion = options.algorithmVersion || SETTLEMENT_ALGORITHM_VERSION;
+
+    // Tolerance for floating point comparison (1 minor unit, e.g. 1 paisa)
+    const EPSILON = fromCents(1, currency);
+
+    // Build name lookup map
+    const nameMap = new Map<string, string>();
+    members.forEach(m => nameMap.set(m.id, m.display_name));
+
+    // Skip zero balances
+    const parties: Party[] = Object.entries(balances)
+        .filter(([, balance]) => Math.abs(balance) > EPSILON)
+        .map(([id, amount]) => ({ id, amount }));
+
+    const useExact = algorithmVersion === '2.0' && parties.length <= EXACT_SOLVER_MAX_MEMBERS;
+    const transfers = hasConstraints(options.constraints)
+        ? matchConstrained(balances, options.constraints, currency, algorithmVersion === '2.0')
+        : (useExact && matchMinimal(parties, currency)) || matchGreedy(parties, EPSILON);
+
+    const transactions: SettlementTransaction[] = transfers.map(t => ({
+        from: t.from,
+        fromName: nameMap.get(t.from) || 'Unknown',
+        to: t.to,
+        toName: nameMap.get(t.to) || 'Unknown',
+        // Round to the currency's minor unit for display
+        amount: roundToMinorUnit(t.amount, currency),
+    }));
+
     // Sort transactions by amount descending for display
     transactions.sort((a, b) => b.amount - a.amount);
 
@@ -106,26 +455,61 @@ export function calculateSettlements(
 }
 
 /**
- * Creates a settlement snapshot for optional persistence.
+ * Creates a settlement snapshot for persistence.
  * Useful for audit/history purposes.
+ *
+ * @param balances - Balances the transactions were computed from
+ * @param currency - Trip base currency
+ * @param algorithmVersion - Algorithm that produced the transactions
  */
 export function createSettlementSnapshot(
     tripId: string,
-    filterType: 'all' | 'major' | 'daily',
+    filterType: SettlementFilterType,
     transactions: SettlementTransaction[],
-    generatedBy: string
-): {
-    trip_id: string;
-    filter_type: string;
-    generated_by: string;
-    transactions: SettlementTransaction[];
-    algorithm_version: string;
-} {
+    generatedBy: string,
+    balances: Balance,
+    currency: string = DEFAULT_CURRENCY,
+    algorithmVersion: SettlementAlgorithmVersion = SETTLEMENT_ALGORITHM_VERSION
+): Omit<SettlementSnapshot, 'id' | 'generated_at'> {
     return {
         trip_id: tripId,
         filter_type: filterType,
         generated_by: generatedBy,
         transactions,
-        algorithm_version: SETTLEMENT_ALGORITHM_VERSION,
+        balances: { ...balances },
+        currency,
+        algorithm_version: algorithmVersion,
     };
 }
+
+/**
+ * Compares a snapshot's balances with the current balances.
+ * Members whose balance moved by less than one minor unit are left out.
+ *
+ * @returns Changed members, largest absolute change first
+ */
+export function diffSnapshotBalances(
+    snapshot: Pick<SettlementSnapshot, 'balances' | 'currency'>,
+    currentBalances: Balance
+): BalanceDiff[] {
+    const currency = snapshot.currency || DEFAULT_CURRENCY;
+    const memberIds = new Set([...Object.keys(snapshot.balances || {}), ...Object.keys(currentBalances)]);
+
+    const diffs: BalanceDiff[] = [];
+    memberIds.forEach(memberId => {
+        const before = snapshot.balances?.[memberId] || 0;
+        const after = currentBalances[memberId] || 0;
+        const change = after - before;
+
+        if (Math.abs(toCents(change, currency)) >= 1) {
+            diffs.push({
+                memberId,
+                before: roundToMinorUnit(before, currency),
+                after: roundToMinorUnit(after, currency),
+                change: roundToMinorUnit(change, currency),
+            });
+        }
+    });
+
+    return diffs.sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+}
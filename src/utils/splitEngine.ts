@@ -3,29 +3,71 @@
  *
  * Centralized logic for calculating expense splits.
  * Uses integer math (via currency.ts) to ensure zero drift.
+ * All rounding happens in the minor unit of the expense currency
+ * (1 yen, 1 paisa, 1 fils), never in a hardcoded 0.01.
  *
  * Supports:
  * - Equal: Divide among N members (subset or all)
  * - Shares: Divide based on relative weights
+ * - Percentage: Divide by percentages that total exactly 100
+ * - Itemized: Line items shared by subsets of members, plus charges
+ * - Adjustment: Equal or shares base plus signed per-member extras
  * - Custom: Validate explicit amounts
+ *
+ * Leftover minor units follow the trip's remainder policy (see remainder.ts).
+ * Every row reports its rounding drift so the next expense can even it out.
  */
 
-import { toCents, fromCents, distributeAmount, validateTotal } from './currency';
-import type { ExpenseSplit } from '../types';
+import { toCents, fromCents, validateTotal, DEFAULT_CURRENCY } from './currency';
+import { allocateMinorUnits, DEFAULT_REMAINDER_POLICY } from './remainder';
+import type {
+    ExpenseSplit,
+    SplitType,
+    ExpenseItem,
+    ExpenseCharges,
+    AdjustmentBase,
+    RemainderPolicy
+} from '../types';
+
+export type { SplitType };
 
 export interface SplitResult {
     splits: Omit<ExpenseSplit, 'id' | 'expense_id'>[];
     remainder: number; // Should be 0 for valid splits
 }
 
-export type SplitType = 'equal' | 'shares' | 'custom';
-
 export interface SplitEngineInput {
     totalAmount: number;
     payerId: string;
     splitType: SplitType;
     involvedMemberIds: string[]; // List of members participating in the split
-    customSplits?: { memberId: string; amount?: number; shares?: number }[];
+    customSplits?: {
+        memberId: string;
+        amount?: number;
+        shares?: number;
+        percentage?: number;
+        adjustment?: number;      // Signed extra for split_type "adjustment"
+    }[];
+    adjustmentBase?: AdjustmentBase; // Base for "adjustment", defaults to equal
+    items?: ExpenseItem[];       // Line items for split_type "itemized"
+    charges?: ExpenseCharges;    // Tax, service charge and tip for "itemized"
+    currency?: string;           // ISO 4217 code of the expense, defaults to INR
+    remainderPolicy?: RemainderPolicy; // Trip policy, defaults to largest_remainder
+    expenseId?: string;          // Seed for the "rotating" policy
+    roundingCarry?: Record<string, number>; // Accumulated drift per member (minor units)
+}
+
+/**
+ * Per-calculation remainder state.
+ * `drift` starts from the carried ledger and is updated by every allocation,
+ * so bills with several allocations (itemized) stay fair as well.
+ */
+interface AllocationContext {
+    currency: string;
+    policy: RemainderPolicy;
+    payerId: string;
+    seed: string;
+    drift: Map<string, number>;
 }
 
 /**
@@ -36,7 +78,8 @@ export interface SplitEngineInput {
  * @throws Error if inputs are invalid or totals mismatch
  */
 export function calculateSplits(input: SplitEngineInput): SplitResult {
-    const { totalAmount, splitType, involvedMemberIds, customSplits } = input;
+    const { totalAmount, involvedMemberIds } = input;
+    const carry = input.roundingCarry || {};
 
     if (totalAmount <= 0) {
         throw new Error('Total amount must be greater than zero');
@@ -46,39 +89,114 @@ export function calculateSplits(input: SplitEngineInput): SplitResult {
         throw new Error('At least one member must be involved in the split');
     }
 
+    const ctx: AllocationContext = {
+        currency: input.currency || DEFAULT_CURRENCY,
+        policy: input.remainderPolicy || DEFAULT_REMAINDER_POLICY,
+        payerId: input.payerId,
+        seed: input.expenseId || '',
+        drift: new Map(Object.entries(carry)),
+    };
+
+    const result = dispatchSplits(input, ctx);
+
+    // Attach this expense's own drift (total drift minus what was carried in)
+    const splits = result.splits.map(split => {
+        const drift = (ctx.drift.get(split.member_id) || 0) - (carry[split.member_id] || 0);
+        const rounded = Math.round(drift * 1e6) / 1e6;
+        return rounded === 0 ? split : { ...split, rounding_drift: rounded };
+    });
+
+    return { ...result, splits };
+}
+
+/**
+ * Routes to the calculator for the split type.
+ */
+function dispatchSplits(input: SplitEngineInput, ctx: AllocationContext): SplitResult {
+    const { totalAmount, splitType, involvedMemberIds, customSplits } = input;
+    const { currency } = ctx;
+
     switch (splitType) {
         case 'equal':
-            return calculateEqualSplits(totalAmount, involvedMemberIds);
+            return calculateEqualSplits(totalAmount, involvedMemberIds, ctx);
 
         case 'shares':
             if (!customSplits || customSplits.length === 0) {
                 throw new Error('Shares data required for split_type "shares"');
             }
-            return calculateShareSplits(totalAmount, customSplits);
+            return calculateShareSplits(totalAmount, customSplits, ctx);
+
+        case 'percentage':
+            if (!customSplits || customSplits.length === 0) {
+                throw new Error('Percentages required for split_type "percentage"');
+            }
+            return calculatePercentageSplits(totalAmount, customSplits, ctx);
+
+        case 'itemized':
+            if (!input.items || input.items.length === 0) {
+                throw new Error('Line items required for split_type "itemized"');
+            }
+            return calculateItemizedSplits(totalAmount, input.items, input.charges, ctx);
+
+        case 'adjustment':
+            return calculateAdjustmentSplits(
+                totalAmount,
+                involvedMemberIds,
+                customSplits || [],
+                input.adjustmentBase || 'equal',
+                ctx
+            );
 
         case 'custom':
             if (!customSplits || customSplits.length === 0) {
                 throw new Error('Custom amounts required for split_type "custom"');
             }
-            return calculateCustomSplits(totalAmount, customSplits);
+            return calculateCustomSplits(totalAmount, customSplits, currency);
 
         default:
             throw new Error(`Unsupported split type: ${splitType}`);
     }
 }
 
+/**
+ * Distributes integer minor units among members in proportion to weights.
+ * Leftover units follow the remainder policy; the drift is recorded on `ctx`.
+ */
+function allocate(
+    ctx: AllocationContext,
+    totalCents: number,
+    memberIds: string[],
+    weights: number[]
+): number[] {
+    const { amounts, drift } = allocateMinorUnits(totalCents, weights, {
+        policy: ctx.policy,
+        payerIndex: memberIds.indexOf(ctx.payerId),
+        seed: ctx.seed,
+        carry: memberIds.map(id => ctx.drift.get(id) || 0),
+    });
+
+    memberIds.forEach((id, index) => {
+        ctx.drift.set(id, (ctx.drift.get(id) || 0) + drift[index]);
+    });
+
+    return amounts;
+}
+
 /**
  * Handles Equal Splits.
  * Distributes total amount equally among involved members.
- * Handles remainders by giving extra cents to the first few members in the list.
  */
-function calculateEqualSplits(totalAmount: number, memberIds: string[]): SplitResult {
-    const count = memberIds.length;
-    const amounts = distributeAmount(totalAmount, count);
+function calculateEqualSplits(totalAmount: number, memberIds: string[], ctx: AllocationContext): SplitResult {
+    const amounts = allocate(
+        ctx,
+        toCents(totalAmount, ctx.currency),
+        memberIds,
+        memberIds.map(() => 1)
+    );
 
     const splits = memberIds.map((memberId, index) => ({
         member_id: memberId,
-        amount: amounts[index],
+        amount: fromCents(amounts[index], ctx.currency),
         shares: undefined
     }));
 
@@ -91,8 +209,10 @@ function calculateEqualSplits(totalAmount: number, memberIds: string[]): SplitRe
  */
 function calculateShareSplits(
     totalAmount: number,
-    shareData: { memberId: string; shares?: number }[]
+    shareData: { memberId: string; shares?: number }[],
+    ctx: AllocationContext
 ): SplitResult {
+    const { currency } = ctx;
     const validShares = shareData.filter(s => (s.shares || 0) > 0);
     const totalShares = validShares.reduce((sum, s) => sum + (s.shares || 0), 0);
 
@@ -100,62 +220,238 @@ function calculateShareSplits(
         throw new Error('Total shares must be greater than zero');
     }
 
-    const totalCents = toCents(totalAmount);
+    // Integer math for distribution ensures the sum matches the total
+    const amounts = allocate(
+        ctx,
+        toCents(totalAmount, currency),
+        validShares.map(s => s.memberId),
+        validShares.map(s => s.shares || 0)
+    );
 
-    // Calculate raw share value (float)
-    // We do integer math for distribution to ensure sum matches total
-    let distributedCents = 0;
-    const splits = validShares.map(s => {
-        const shareCount = s.shares || 0;
-        // Calculate proportional amount: (share / totalShares) * totalCents
-        const rawAmount = Math.floor((shareCount * totalCents) / totalShares);
-        distributedCents += rawAmount;
+    const splits = validShares.map((s, index) => ({
+        member_id: s.memberId,
+        amount: fromCents(amounts[index], currency),
+        shares: s.shares || 0
+    }));
 
-        return {
-            member_id: s.memberId,
-            amount: rawAmount, // Store temporarily as cents
-            shares: shareCount
-        };
-    });
+    return { splits, remainder: 0 };
+}
 
-    // Distribute remainder cents to members with largest shares first (or just first in list)
-    // Simple approach: distribute to first N members
-    let remainder = totalCents - distributedCents;
+/**
+ * Handles Percentage Splits.
+ * Percentages are compared in basis points (1/100 of a percent) so that
+ * 33.33 + 33.33 + 33.34 is exactly 100. Leftover minor units follow
+ * the remainder policy, like shares.
+ */
+function calculatePercentageSplits(
+    totalAmount: number,
+    percentageData: { memberId: string; percentage?: number }[],
+    ctx: AllocationContext
+): SplitResult {
+    const { currency } = ctx;
+    if (percentageData.some(p => (p.percentage || 0) < 0)) {
+        throw new Error('Percentages cannot be negative');
+    }
+
+    const validPercentages = percentageData.filter(p => (p.percentage || 0) > 0);
+    const basisPoints = validPercentages.map(p => Math.round((p.percentage || 0) * 100));
+    const totalBasisPoints = basisPoints.reduce((sum, bp) => sum + bp, 0);
 
-    // Sort by shares descending to give remainder to heavy users?
-    // Or just iterate. Standard practice is iterate to avoid bias if sorted.
-    // Let's just iterate through the list.
-    for (let i = 0; i < remainder; i++) {
-        splits[i % splits.length].amount += 1;
+    if (totalBasisPoints !== 10000) {
+        throw new Error(`Percentages must total 100% (got ${totalBasisPoints / 100}%)`);
     }
 
-    // Convert back to float
-    const finalSplits = splits.map(s => ({
-        ...s,
-        amount: fromCents(s.amount)
+    const amounts = allocate(
+        ctx,
+        toCents(totalAmount, currency),
+        validPercentages.map(p => p.memberId),
+        basisPoints
+    );
+
+    const splits = validPercentages.map((p, index) => ({
+        member_id: p.memberId,
+        amount: fromCents(amounts[index], currency),
+        shares: undefined,
+        percentage: basisPoints[index] / 100
     }));
 
-    return { splits: finalSplits, remainder: 0 };
+    return { splits, remainder: 0 };
+}
+
+/**
+ * Total of an itemized bill (line totals plus charges), exact to the minor unit.
+ * Used by the UI to fill in the expense amount from the items.
+ */
+export function calculateItemizedTotal(
+    items: ExpenseItem[],
+    charges?: ExpenseCharges,
+    currency: string = DEFAULT_CURRENCY
+): number {
+    const itemCents = items.reduce(
+        (sum, item) => sum + Math.round(toCents(item.price || 0, currency) * (item.quantity || 0)),
+        0
+    );
+    const chargeCents = [charges?.tax, charges?.service, charges?.tip]
+        .reduce<number>((sum, c) => sum + toCents(c || 0, currency), 0);
+
+    return fromCents(itemCents + chargeCents, currency);
+}
+
+/**
+ * Handles Itemized Splits.
+ * Each line total (price x quantity) is split equally among the members who
+ * shared it. Tax, service charge and tip are then spread in proportion to
+ * each member's item subtotal, so whoever ordered more pays more of them.
+ */
+function calculateItemizedSplits(
+    totalAmount: number,
+    items: ExpenseItem[],
+    charges: ExpenseCharges | undefined,
+    ctx: AllocationContext
+): SplitResult {
+    const { currency } = ctx;
+    // Member subtotals in minor units, in order of first appearance
+    const subtotals = new Map<string, number>();
+
+    for (const item of items) {
+        if (item.price < 0) {
+            throw new Error(`Item "${item.name}" cannot have a negative price`);
+        }
+        if (!(item.quantity > 0)) {
+            throw new Error(`Item "${item.name}" must have a quantity greater than zero`);
+        }
+        if (item.member_ids.length === 0) {
+            throw new Error(`Item "${item.name}" must be shared by at least one member`);
+        }
+
+        const lineCents = Math.round(toCents(item.price, currency) * item.quantity);
+        const shares = allocate(ctx, lineCents, item.member_ids, item.member_ids.map(() => 1));
+
+        item.member_ids.forEach((memberId, index) => {
+            subtotals.set(memberId, (subtotals.get(memberId) || 0) + shares[index]);
+        });
+    }
+
+    const chargeCents = [charges?.tax, charges?.service, charges?.tip]
+        .map(c => toCents(c || 0, currency));
+    if (chargeCents.some(c => c < 0)) {
+        throw new Error('Tax, service charge and tip cannot be negative');
+    }
+    const totalChargeCents = chargeCents.reduce((sum, c) => sum + c, 0);
+
+    const memberIds = Array.from(subtotals.keys());
+    const itemCents = memberIds.map(id => subtotals.get(id) || 0);
+    const totalItemCents = itemCents.reduce((sum, c) => sum + c, 0);
+
+    if (toCents(totalAmount, currency) !== totalItemCents + totalChargeCents) {
+        throw new Error(
+            `Itemized total (${fromCents(totalItemCents + totalChargeCents, currency)}) does not equal total amount (${totalAmount})`
+        );
+    }
+
+    if (totalChargeCents > 0 && totalItemCents === 0) {
+        throw new Error('Charges cannot be split on a bill with no item costs');
+    }
+
+    const chargeShares = totalChargeCents > 0
+        ? allocate(ctx, totalChargeCents, memberIds, itemCents)
+        : itemCents.map(() => 0);
+
+    const splits = memberIds.map((memberId, index) => ({
+        member_id: memberId,
+        amount: fromCents(itemCents[index] + chargeShares[index], currency),
+        shares: undefined
+    }));
+
+    return { splits, remainder: 0 };
+}
+
+/**
+ * Handles Adjustment Splits.
+ * Signed adjustments are taken off the top ("Rahul owes 300 extra for drinks"),
+ * the rest is divided equally or by shares among the involved members, and
+ * each member's amount is their base part plus their adjustment.
+ */
+function calculateAdjustmentSplits(
+    totalAmount: number,
+    memberIds: string[],
+    adjustmentData: { memberId: string; shares?: number; adjustment?: number }[],
+    base: AdjustmentBase,
+    ctx: AllocationContext
+): SplitResult {
+    const { currency } = ctx;
+    const adjustments = new Map<string, number>();
+    const shares = new Map<string, number>();
+
+    for (const entry of adjustmentData) {
+        if (!memberIds.includes(entry.memberId)) {
+            throw new Error(`Adjustment given for a member who is not part of the split (${entry.memberId})`);
+        }
+        adjustments.set(entry.memberId, toCents(entry.adjustment || 0, currency));
+        shares.set(entry.memberId, entry.shares || 0);
+    }
+
+    const totalAdjustmentCents = Array.from(adjustments.values()).reduce((sum, a) => sum + a, 0);
+    const baseCents = toCents(totalAmount, currency) - totalAdjustmentCents;
+
+    if (baseCents < 0) {
+        throw new Error(`Adjustments (${fromCents(totalAdjustmentCents, currency)}) exceed total amount (${totalAmount})`);
+    }
+
+    const weights = base === 'shares'
+        ? memberIds.map(id => shares.get(id) || 0)
+        : memberIds.map(() => 1);
+
+    if (weights.some(w => w < 0) || weights.reduce((sum, w) => sum + w, 0) <= 0) {
+        throw new Error('Total shares must be greater than zero');
+    }
+
+    const baseAmounts = allocate(ctx, baseCents, memberIds, weights);
+
+    const splits = memberIds.map((memberId, index) => {
+        const adjustmentCents = adjustments.get(memberId) || 0;
+        const amountCents = baseAmounts[index] + adjustmentCents;
+
+        if (amountCents < 0) {
+            throw new Error(`Adjustment leaves a member with a negative share (${fromCents(amountCents, currency)})`);
+        }
+
+        return {
+            member_id: memberId,
+            amount: fromCents(amountCents, currency),
+            shares: base === 'shares' ? weights[index] : undefined,
+            base_amount: fromCents(baseAmounts[index], currency),
+            adjustment: fromCents(adjustmentCents, currency)
+        };
+    });
+
+    if (!validateTotal(totalAmount, splits.map(s => s.amount), currency)) {
+        throw new Error(`Adjusted split amounts do not equal total amount (${totalAmount})`);
+    }
+
+    return { splits, remainder: 0 };
 }
 
 /**
  * Handles Custom Splits.
  * Validates that the sum of custom amounts equals the total amount.
+ * Amounts are normalized to the currency's minor unit before validation.
  */
 function calculateCustomSplits(
     totalAmount: number,
-    customData: { memberId: string; amount?: number }[]
+    customData: { memberId: string; amount?: number }[],
+    currency: string
 ): SplitResult {
     const splits = customData.map(c => ({
         member_id: c.memberId,
-        amount: c.amount || 0,
+        amount: fromCents(toCents(c.amount || 0, currency), currency),
         shares: undefined
     }));
 
     const sumAmounts = splits.reduce((sum, s) => sum + s.amount, 0);
 
     // Check if sum matches total (using small epsilon for float safety via currency util)
-    if (!validateTotal(totalAmount, splits.map(s => s.amount))) {
+    if (!validateTotal(totalAmount, splits.map(s => s.amount), currency)) {
         throw new Error(`Custom split amounts (${sumAmounts}) do not equal total amount (${totalAmount})`);
     }
 
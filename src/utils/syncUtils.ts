@@ -21,3 +21,37 @@ export function getSequenceNumber() {
     }
     return lastSequence;
 }
+
+export type SyncState = 'synced' | 'syncing' | 'offline' | 'pending' | 'conflicted';
+
+export interface SyncStatus {
+    state: SyncState;
+    pending: number;       // Mutations waiting to be pushed
+    conflicted: number;    // Mutations waiting for the user
+}
+
+/**
+ * Collapses the queue and connection into the single state shown in the UI.
+ * Conflicts come first because they need the user; offline beats syncing
+ * because nothing can reach the server anyway.
+ */
+export function getSyncStatus(input: {
+    online: boolean;
+    syncing: boolean;
+    pending: number;
+    conflicted: number;
+}): SyncStatus {
+    const { online, syncing, pending, conflicted } = input;
+
+    const state: SyncState = conflicted > 0
+        ? 'conflicted'
+        : !online
+            ? 'offline'
+            : syncing
+                ? 'syncing'
+                : pending > 0
+                    ? 'pending'
+                    : 'synced';
+
+    return { state, pending, conflicted };
+}
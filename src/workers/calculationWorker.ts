@@ -3,11 +3,11 @@
  *
  * Handles heavy expense calculation logic off the main thread.
  * Prevents UI jank when processing thousands of expenses.
+ * Settlement plans are left to SettleTab, which knows the trip's options.
  */
 
 import { calculateSummary } from '../utils/balanceCalculator';
-import { calculateSettlements } from '../utils/settlement';
-import type { Expense, TripMember, ExpenseSplit, Summary, SettlementTransaction } from '../types';
+import type { Expense, TripMember, ExpenseSplit, Payment, Summary } from '../types';
 
 // Message Input Type
 export interface WorkerInput {
@@ -16,6 +16,7 @@ export interface WorkerInput {
         expenses: Expense[];
         members: TripMember[];
         splits: ExpenseSplit[]; // Explicit splits from subcollection
+        payments: Payment[];    // Recorded settlement payments
     };
 }
 
@@ -24,7 +25,6 @@ export interface WorkerOutput {
     type: 'RESULT';
     payload: {
         summary: Summary;
-        settlements: SettlementTransaction[];
     };
 }
 
@@ -33,21 +33,17 @@ self.onmessage = (e: MessageEvent<WorkerInput>) => {
     const { type, payload } = e.data;
 
     if (type === 'CALCULATE') {
-        const { expenses, members, splits } = payload;
+        const { expenses, members, splits, payments } = payload;
 
         try {
             // 1. Calculate Balances (Heavy)
-            const summary = calculateSummary(expenses, members, splits);
+            const summary = calculateSummary(expenses, members, splits, payments);
 
-            // 2. Calculate Settlements (Sorting + Matching)
-            const settlements = calculateSettlements(summary.globalBalance, members);
-
-            // 3. Send back results
+            // 2. Send back results
             const response: WorkerOutput = {
                 type: 'RESULT',
                 payload: {
-                    summary,
-                    settlements
+                    summary
                 }
             };
 